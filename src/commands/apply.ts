@@ -0,0 +1,59 @@
+import fs from 'fs';
+import path from 'path';
+import { loadPlanFile } from '../modules/api.js';
+import { confirm, consoleLogger, select } from '../utils/ui.js';
+import { executeSyncActions } from './sync/executor.js';
+import { parsePlanFile } from './sync/plan-file.js';
+import { PromptApi, SyncCommandOptions } from './sync/types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ApplyOptions
+  extends Pick<
+    SyncCommandOptions,
+    'noBackup' | 'yes' | 'placement' | 'placeholder' | 'showSecrets' | 'allowLeaks'
+  > {
+  operands: string[]; // the plan file written by `sync --plan-out`
+}
+
+const prompts: PromptApi = {
+  confirm,
+  select: (message, choices) => select(message, choices),
+};
+
+// ============================================================================
+// APPLY OPERATION
+// ============================================================================
+
+/**
+ * Apply a plan written by `sync --plan-out`. Nothing is written unless every file the plan
+ * was made from still has the content it was hashed with.
+ */
+export async function runApply(options: ApplyOptions): Promise<void> {
+  if (options.operands.length !== 1) {
+    throw new Error('Usage: env-twin apply <plan-file>');
+  }
+
+  const cwd = process.cwd();
+  const planPath = path.resolve(cwd, options.operands[0]);
+  if (!fs.existsSync(planPath)) {
+    throw new Error(`Plan file '${options.operands[0]}' not found`);
+  }
+
+  const planFile = parsePlanFile(fs.readFileSync(planPath, 'utf-8'), planPath);
+  const plan = loadPlanFile(planFile, { cwd });
+  console.log(
+    `Applying plan from ${planFile.createdAt} (Source of Truth: ${plan.sourceOfTruth || 'Union of all files'})`
+  );
+
+  await executeSyncActions({
+    cwd: plan.cwd,
+    report: plan.report,
+    actions: plan.actions,
+    options,
+    prompts,
+    logger: consoleLogger,
+  });
+}
@@ -1,6 +1,6 @@
-import path from 'path';
 import readline from 'readline/promises';
-import { listBackups, cleanOldBackups, BACKUP_DIR } from '../utils/backup.js';
+import { cleanBackups, listBackups } from '../modules/api.js';
+import { DEFAULT_BACKUP_KEEP } from '../utils/backup.js';
 
 // ============================================================================
 // TYPES
@@ -29,20 +29,22 @@ function formatTimestamp(timestamp: string): string {
 // CLEAN BACKUPS OPERATION
 // ============================================================================
 
-export async function runCleanBackups(options: CleanBackupsOptions = {}): Promise<void> {
-  const cwd = process.cwd();
-  const keepCount = options.keep ?? 10;
-  const backups = listBackups(cwd);
+/**
+ * Delete old backups after confirmation. Returns the exit code for the caller to use.
+ */
+export async function runCleanBackups(options: CleanBackupsOptions = {}): Promise<number> {
+  const keepCount = options.keep ?? DEFAULT_BACKUP_KEEP;
+  const backups = listBackups();
 
   if (backups.length === 0) {
     console.log('No backups found in .env-twin/ directory');
-    process.exit(0);
+    return 0;
   }
 
   if (backups.length <= keepCount) {
     console.log(`You have ${backups.length} backup(s). Keeping ${keepCount} most recent.`);
     console.log('No backups to delete.');
-    process.exit(0);
+    return 0;
   }
 
   const backupsToDelete = backups.slice(keepCount);
@@ -69,7 +71,7 @@ export async function runCleanBackups(options: CleanBackupsOptions = {}): Promis
 
       if (answer.toLowerCase() !== 'y' && answer.toLowerCase() !== 'yes') {
         console.log('Cleanup cancelled.');
-        process.exit(0);
+        return 0;
       }
     } finally {
       rl.close();
@@ -77,7 +79,7 @@ export async function runCleanBackups(options: CleanBackupsOptions = {}): Promis
   }
 
   // Perform cleanup
-  const { deleted, kept } = cleanOldBackups(cwd, keepCount);
+  const { deleted, kept } = cleanBackups({ keep: keepCount });
 
   console.log('');
   console.log('Cleanup Summary:');
@@ -86,4 +88,5 @@ export async function runCleanBackups(options: CleanBackupsOptions = {}): Promis
 
   console.log('');
   console.log('Cleanup completed successfully!');
+  return 0;
 }
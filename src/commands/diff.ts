@@ -0,0 +1,149 @@
+import fs from 'fs';
+import path from 'path';
+import { isValidTimestamp } from '../modules/backup-discovery.js';
+import {
+  diffEnvFiles,
+  DiffSide,
+  hasSemanticChanges,
+  KeyDiff,
+  unifiedDiff,
+} from '../modules/env-diff.js';
+import { parseEnvContent } from '../modules/sync-logic.js';
+import { getBackupFilePath, listBackups } from '../utils/backup.js';
+import { colors } from '../utils/ui.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DiffOptions {
+  operands: string[]; // two file paths or `backup:<timestamp>/<file>` references
+  json?: boolean;
+  unified?: boolean;
+  showSecrets?: boolean;
+}
+
+/** Exit code when the files differ in more than formatting. */
+export const DIFF_CHANGES_EXIT_CODE = 2;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const BACKUP_PREFIX = 'backup:';
+
+const CHANGE_SYMBOLS: Record<KeyDiff['change'], string> = {
+  added: colors.green('+'),
+  removed: colors.red('-'),
+  changed: colors.yellow('~'),
+  reformatted: colors.blue('='),
+  unchanged: ' ',
+};
+
+// ============================================================================
+// OPERANDS
+// ============================================================================
+
+/**
+ * Load a diff operand: a file path, or `backup:<timestamp>/<file>` for a file inside a
+ * backup, where the timestamp may be `latest`.
+ */
+export function loadDiffOperand(operand: string, cwd: string): DiffSide {
+  if (!operand.startsWith(BACKUP_PREFIX)) {
+    const filePath = path.resolve(cwd, operand);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File '${operand}' not found`);
+    }
+    return { label: operand, parsedLines: parseEnvContent(fs.readFileSync(filePath, 'utf-8')) };
+  }
+
+  const reference = operand.substring(BACKUP_PREFIX.length);
+  const slash = reference.indexOf('/');
+  if (slash === -1) {
+    throw new Error(`Invalid backup reference '${operand}'. Use backup:<timestamp>/<file>`);
+  }
+
+  let timestamp = reference.substring(0, slash);
+  const fileName = reference.substring(slash + 1);
+  if (timestamp === 'latest') {
+    const latest = listBackups(cwd)[0];
+    if (!latest) throw new Error('No backups found');
+    timestamp = latest.timestamp;
+  } else if (!isValidTimestamp(timestamp)) {
+    throw new Error(`Invalid backup timestamp '${timestamp}'. Expected YYYYMMDD-HHMMSS`);
+  }
+
+  const filePath = getBackupFilePath(timestamp, fileName, cwd);
+  if (!filePath) {
+    throw new Error(`Backup ${timestamp} does not contain '${fileName}'`);
+  }
+  return {
+    label: `${BACKUP_PREFIX}${timestamp}/${fileName}`,
+    parsedLines: parseEnvContent(fs.readFileSync(filePath, 'utf-8')),
+  };
+}
+
+// ============================================================================
+// DIFF OPERATION
+// ============================================================================
+
+/**
+ * Compare two env files key by key. Values are never printed in the key-level output;
+ * the unified diff masks secrets unless `showSecrets`. Read-only; returns the exit code.
+ */
+export function runDiff(options: DiffOptions): number {
+  if (options.operands.length !== 2) {
+    throw new Error('Usage: env-twin diff <a> <b> (files or backup:<timestamp>/<file>)');
+  }
+
+  const cwd = process.cwd();
+  const [a, b] = options.operands.map(operand => loadDiffOperand(operand, cwd));
+  const diff = diffEnvFiles(a, b);
+  const exitCode = hasSemanticChanges(diff) ? DIFF_CHANGES_EXIT_CODE : 0;
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...diff, exitCode }, null, 2));
+    return exitCode;
+  }
+
+  if (options.unified) {
+    const output = unifiedDiff(a, b, options.showSecrets);
+    if (output) console.log(output);
+    return exitCode;
+  }
+
+  console.log(`${colors.red('---')} ${a.label}`);
+  console.log(`${colors.green('+++')} ${b.label}`);
+  console.log('');
+
+  const listed = diff.keys.filter(key => key.change !== 'unchanged');
+  listed.forEach(key => {
+    console.log(`  ${CHANGE_SYMBOLS[key.change]} ${colors.bold(key.key)}  ${describeKeyDiff(key)}`);
+  });
+  if (listed.length > 0) console.log('');
+
+  const counts = (Object.keys(CHANGE_SYMBOLS) as KeyDiff['change'][])
+    .map(change => ({ change, count: diff.keys.filter(key => key.change === change).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ change, count }) => `${count} ${change}`);
+  console.log(counts.length > 0 ? counts.join(', ') : 'Both files are empty.');
+
+  return exitCode;
+}
+
+function describeKeyDiff(key: KeyDiff): string {
+  switch (key.change) {
+    case 'added':
+      return `added (line ${key.lineB})`;
+    case 'removed':
+      return `removed (line ${key.lineA})`;
+    case 'reformatted':
+      return 'same value, written differently';
+    case 'unchanged':
+      return 'unchanged';
+    case 'changed':
+      if (key.value === 'empty-vs-set') return 'was empty, now set';
+      if (key.value === 'set-vs-empty') return 'was set, now empty';
+      return 'different value';
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  analyzeReferences,
+  dependsOnSecret,
+  describeReferenceIssue,
+  expandEnv,
+  ReferenceAnalysis,
+} from '../modules/interpolation.js';
+import { SECRET_MASK } from '../modules/secrets.js';
+import { EnvFileAnalysis } from '../modules/sync-logic.js';
+import { colors } from '../utils/ui.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RefsOptions {
+  json?: boolean;
+  expand?: boolean; // print resolved values instead of the analysis
+  showSecrets?: boolean;
+  include?: string[];
+  exclude?: string[];
+}
+
+interface FileReferences extends ReferenceAnalysis {
+  file: string;
+  expanded?: Record<string, string>;
+}
+
+/** Exit code when undefined, self or cyclic references are found. */
+export const REFERENCE_ISSUES_EXIT_CODE = 2;
+
+// ============================================================================
+// REFS OPERATION
+// ============================================================================
+
+/**
+ * Analyze `${VAR}`, `$VAR` and `${VAR:-default}` references in every discovered env file.
+ * With `expand`, print each file's resolved values, secrets masked. Read-only; returns
+ * the exit code for the caller to use.
+ */
+export function runRefs(options: RefsOptions = {}): number {
+  const report = new EnvFileAnalysis(process.cwd(), {
+    include: options.include,
+    exclude: options.exclude,
+  }).analyze();
+
+  const results: FileReferences[] = report.files.map(file => {
+    const analysis = analyzeReferences(file.parsedLines);
+    if (!options.expand) return { file: file.fileName, ...analysis };
+
+    const values = expandEnv(file.parsedLines);
+    const expanded = Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [
+        key,
+        !options.showSecrets && dependsOnSecret(key, analysis.graph, values) ? SECRET_MASK : value,
+      ])
+    );
+    return { file: file.fileName, ...analysis, expanded };
+  });
+  const exitCode = results.some(result => result.issues.length > 0)
+    ? REFERENCE_ISSUES_EXIT_CODE
+    : 0;
+
+  if (options.json) {
+    console.log(JSON.stringify({ files: results, exitCode }, null, 2));
+    return exitCode;
+  }
+
+  if (results.length === 0) {
+    console.log(colors.yellow('No .env* files found in the current directory.'));
+    return exitCode;
+  }
+
+  for (const result of results) {
+    const failed = result.issues.length > 0;
+    console.log(`${failed ? colors.red('✗') : colors.green('✓')} ${colors.bold(result.file)}`);
+
+    result.issues.forEach(issue => {
+      const line = issue.line ? `:${issue.line}` : '';
+      console.log(`    ${colors.red(`${issue.key}${line}`)} ${describeReferenceIssue(issue)}`);
+    });
+    if (result.referencedOnly.length > 0) {
+      console.log(
+        `    ${colors.yellow('Referenced but never defined:')} ${result.referencedOnly.join(', ')}`
+      );
+    }
+    Object.entries(result.expanded || {}).forEach(([key, value]) => {
+      console.log(`    ${key}=${JSON.stringify(value)}`);
+    });
+  }
+
+  console.log('');
+  if (exitCode === 0) {
+    console.log(colors.green('No reference problems found.'));
+  } else {
+    console.log(colors.red(`Reference check failed (exit code ${exitCode}).`));
+  }
+
+  return exitCode;
+}
@@ -2,12 +2,11 @@ import fs from 'fs';
 import path from 'path';
 import readline from 'readline';
 import crypto from 'crypto';
+import { restore } from '../modules/api.js';
 import { BackupDiscovery, BackupValidationResult } from '../modules/backup-discovery.js';
 import { TimestampParser } from '../modules/timestamp-parser.js';
-import { FileRestorer, FileRestoreOptions, RestoreProgress } from '../modules/file-restoration.js';
-import { RollbackManager, RollbackSnapshot } from '../modules/rollback-manager.js';
+import { RestoreProgress } from '../modules/file-restoration.js';
 import { logger, RestoreLogger } from '../modules/logger.js';
-import { listBackups } from '../utils/backup.js';
 
 // ============================================================================
 // TYPES AND INTERFACES
@@ -29,12 +28,12 @@ export interface EnhancedRestoreOptions {
   force?: boolean;
   dryRun?: boolean;
   verbose?: boolean;
+  showSecrets?: boolean;
 }
 
 export interface RestoreSession {
   sessionId: string;
   selectedBackup: any;
-  rollbackSnapshot?: RollbackSnapshot;
   startedAt: Date;
   filesToRestore: string[];
   options: EnhancedRestoreOptions;
@@ -52,10 +51,13 @@ export interface FileInspectionInfo {
 
 /**
  * Enhanced restore command with comprehensive error handling, rollback capability,
- * and automatic most-recent-backup selection
+ * and automatic most-recent-backup selection. Returns the exit code for the caller to use.
  */
-export async function runEnhancedRestore(options: EnhancedRestoreOptions = {}): Promise<void> {
+export async function runEnhancedRestore(options: EnhancedRestoreOptions = {}): Promise<number> {
   const operationId = logger.getOperationId();
+  if (options.showSecrets) {
+    logger.setShowSecrets(true);
+  }
   const restoreLogger = new RestoreLogger(operationId);
 
   try {
@@ -69,7 +71,7 @@ export async function runEnhancedRestore(options: EnhancedRestoreOptions = {}):
     const session = createRestoreSession(options);
 
     // Run the restore process
-    await runRestoreProcess(session, restoreLogger);
+    return await runRestoreProcess(session, restoreLogger);
   } catch (error) {
     logger.fatal('Restore operation failed', {
       error: error instanceof Error ? error.message : String(error),
@@ -77,7 +79,7 @@ export async function runEnhancedRestore(options: EnhancedRestoreOptions = {}):
     console.error(
       `\n❌ Restore operation failed: ${error instanceof Error ? error.message : String(error)}`
     );
-    process.exit(1);
+    return 1;
   }
 }
 
@@ -100,7 +102,6 @@ function createRestoreSession(options: EnhancedRestoreOptions): RestoreSession {
   return {
     sessionId,
     selectedBackup: null,
-    rollbackSnapshot: undefined,
     startedAt: new Date(),
     filesToRestore: [],
     options,
@@ -117,7 +118,7 @@ function createRestoreSession(options: EnhancedRestoreOptions): RestoreSession {
 async function runRestoreProcess(
   session: RestoreSession,
   restoreLogger: RestoreLogger
-): Promise<void> {
+): Promise<number> {
   const {
     timestamp: requestedTimestamp,
     list: shouldList,
@@ -137,7 +138,7 @@ async function runRestoreProcess(
   // Step 2: Handle list mode
   if (shouldList) {
     await listAvailableBackups(discoveryResult.data!, restoreLogger);
-    return;
+    return 0;
   }
 
   // Step 3: Select backup
@@ -148,28 +149,18 @@ async function runRestoreProcess(
   // Step 4: Inspect selected backup (informational step)
   await inspectSelectedBackup(session, restoreLogger);
 
-  // Step 5: Check for changes and create rollback if needed
-  if (session.options.createRollback && !dryRun) {
-    const rollbackResult = await createPreRestoreSnapshot(session, restoreLogger);
-    if (rollbackResult.success && rollbackResult.snapshot) {
-      session.rollbackSnapshot = rollbackResult.snapshot;
-    }
-  }
-
-  // Step 6: Confirm restore operation
+  // Step 5: Confirm restore operation
   if (!skipConfirmation) {
     const userConfirmed = await confirmRestoreOperation(session, restoreLogger);
     if (!userConfirmed) {
       console.log('\n❌ Restore operation cancelled by user');
       logger.info('Restore operation cancelled by user');
-      process.exit(0);
+      return 0;
     }
   }
 
-  // Step 7: Perform the restore
-  await performRestore(session, restoreLogger);
-
-  // Final status is handled by performRestore function
+  // Step 6: Perform the restore, with a rollback snapshot when requested
+  return performRestore(session, restoreLogger);
 }
 
 /**
@@ -322,38 +313,6 @@ async function inspectSelectedBackup(
   return fileInfo;
 }
 
-/**
- * Create pre-restore snapshot for rollback capability
- */
-async function createPreRestoreSnapshot(
-  session: RestoreSession,
-  restoreLogger: RestoreLogger
-): Promise<{ success: boolean; snapshot?: RollbackSnapshot; error?: string }> {
-  try {
-    console.log('📸 Creating pre-restore snapshot...');
-
-    const rollbackManager = new RollbackManager(process.cwd());
-    const snapshot = await rollbackManager.createSnapshot(session.filesToRestore, {
-      includeContent: true,
-      includePermissions: true,
-      maxSize: 1024 * 1024, // 1MB limit per file
-    });
-
-    console.log(`   ✅ Snapshot created: ${snapshot.id}`);
-    logger.info('Pre-restore snapshot created', {
-      snapshotId: snapshot.id,
-      fileCount: snapshot.files.length,
-    });
-
-    return { success: true, snapshot };
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    console.log(`   ❌ Failed to create snapshot: ${errorMsg}`);
-    logger.warn('Failed to create pre-restore snapshot', { error: errorMsg });
-    return { success: false, error: errorMsg };
-  }
-}
-
 /**
  * Confirm restore operation with user
  */
@@ -367,8 +326,8 @@ async function confirmRestoreOperation(
   console.log(`   Backup: ${TimestampParser.generateBackupDescription(backup.timestamp)}`);
   console.log(`   Files to restore: ${backup.files.join(', ')}`);
 
-  if (session.rollbackSnapshot) {
-    console.log(`   Rollback available: ${session.rollbackSnapshot.id}`);
+  if (session.options.createRollback && !session.options.dryRun) {
+    console.log(`   Rollback: a snapshot of the current files is taken first`);
   }
 
   if (session.options.dryRun) {
@@ -398,38 +357,39 @@ async function confirmRestoreOperation(
 async function performRestore(
   session: RestoreSession,
   restoreLogger: RestoreLogger
-): Promise<void> {
+): Promise<number> {
   console.log('\n🚀 Starting restore operation...\n');
 
   const backup = session.selectedBackup as any;
-  const fileRestorer = new FileRestorer(process.cwd());
-
-  // Set up progress callback
-  fileRestorer.setProgressCallback((progress: RestoreProgress) => {
-    const percentage = Math.round((progress.current / progress.total) * 100);
-    console.log(`   ${percentage}% - ${progress.phase}: ${progress.currentFile}`);
-    logger.logProgress(progress.current, progress.total, progress.phase, progress.currentFile);
-  });
-
-  // Set up restore options
-  const restoreOptions: FileRestoreOptions = {
+  const restoreResult = await restore({
+    timestamp: backup.timestamp,
     preservePermissions: session.options.preservePermissions !== false,
     preserveTimestamps: session.options.preserveTimestamps !== false,
-    createBackup: false, // We handle rollback separately
+    createRollback: session.options.createRollback,
     force: session.options.force,
     dryRun: session.options.dryRun,
-  };
+    onProgress: (progress: RestoreProgress) => {
+      const percentage = Math.round((progress.current / progress.total) * 100);
+      console.log(`   ${percentage}% - ${progress.phase}: ${progress.currentFile}`);
+      logger.logProgress(progress.current, progress.total, progress.phase, progress.currentFile);
+    },
+  });
 
-  // Perform restore
-  const restoreResult = await fileRestorer.restoreFiles(backup, restoreOptions);
+  if (restoreResult.snapshotId) {
+    console.log(`   📸 Snapshot created: ${restoreResult.snapshotId}`);
+    logger.info('Pre-restore snapshot created', {
+      snapshotId: restoreResult.snapshotId,
+      fileCount: restoreResult.files.length,
+    });
+  }
 
   console.log('\n📊 Restore Results:');
-  console.log(`   ✅ Successfully restored: ${restoreResult.restoredCount} files`);
+  console.log(`   ✅ Successfully restored: ${restoreResult.restored.length} files`);
 
-  if (restoreResult.failedCount > 0) {
-    console.log(`   ❌ Failed to restore: ${restoreResult.failedCount} files`);
-    restoreResult.errors.forEach((error, fileName) => {
-      console.log(`      ${fileName}: ${error}`);
+  if (restoreResult.failures.length > 0) {
+    console.log(`   ❌ Failed to restore: ${restoreResult.failures.length} files`);
+    restoreResult.failures.forEach(({ file, error }) => {
+      console.log(`      ${file}: ${error}`);
     });
   }
 
@@ -438,46 +398,29 @@ async function performRestore(
     restoreResult.warnings.forEach(warning => console.log(`   • ${warning}`));
   }
 
-  // Handle rollback if restore failed
-  if (!restoreResult.success && session.rollbackSnapshot) {
-    console.log('\n🔄 Restore failed, initiating rollback...');
-
-    try {
-      const rollbackManager = new RollbackManager(process.cwd());
-      const rollbackResult = await rollbackManager.rollbackToSnapshot(session.rollbackSnapshot.id);
-
-      if (rollbackResult.success) {
-        console.log('✅ Rollback completed successfully');
-        logger.logRollback(session.rollbackSnapshot.id, true, rollbackResult.rolledBackFiles);
-      } else {
-        console.log('❌ Rollback failed');
-        logger.logRollback(session.rollbackSnapshot.id, false, undefined, rollbackResult.error);
-      }
-    } catch (error) {
-      console.log('❌ Rollback operation failed');
-      logger.logRollback(
-        session.rollbackSnapshot.id,
-        false,
-        undefined,
-        error instanceof Error ? error.message : String(error)
-      );
-    }
+  if (!restoreResult.success && restoreResult.snapshotId) {
+    console.log('\n🔄 Restore failed, rolling back to the snapshot...');
+    console.log(
+      restoreResult.rolledBack ? '✅ Rollback completed successfully' : '❌ Rollback failed'
+    );
+    logger.logRollback(restoreResult.snapshotId, restoreResult.rolledBack);
   }
 
   // Final status
   if (restoreResult.success) {
     console.log('\n🎉 Restore operation completed successfully!');
-    logger.logRestoreComplete(true, restoreResult.restoredCount, restoreResult.failedCount);
-  } else {
-    console.log('\n❌ Restore operation completed with errors');
-    logger.logRestoreComplete(
-      false,
-      restoreResult.restoredCount,
-      restoreResult.failedCount,
-      Array.from(restoreResult.errors.values())
-    );
-    process.exit(1);
+    logger.logRestoreComplete(true, restoreResult.restored.length, 0);
+    return 0;
   }
+
+  console.log('\n❌ Restore operation completed with errors');
+  logger.logRestoreComplete(
+    false,
+    restoreResult.restored.length,
+    restoreResult.failures.length,
+    restoreResult.failures.map(({ error }) => error)
+  );
+  return 1;
 }
 
 // ============================================================================
@@ -487,7 +430,7 @@ async function performRestore(
 /**
  * Legacy function for backward compatibility
  */
-export async function runRestore(options: RestoreOptions = {}): Promise<void> {
+export async function runRestore(options: RestoreOptions = {}): Promise<number> {
   const enhancedOptions: EnhancedRestoreOptions = {
     timestamp: options.timestamp,
     yes: options.yes,
@@ -0,0 +1,66 @@
+import { spawn } from 'child_process';
+import os from 'os';
+import { loadEnv } from '../modules/env-loader.js';
+import { colors } from '../utils/ui.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RunOptions {
+  command: string[]; // program and arguments, everything after `--`
+  mode?: string; // default: NODE_ENV
+  verbose?: boolean;
+}
+
+/** Exit code when the program cannot be started, as in POSIX shells. */
+export const COMMAND_NOT_FOUND_EXIT_CODE = 127;
+
+/** Signals passed on to the program, so stopping env-twin also stops what it runs. */
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+// ============================================================================
+// RUN OPERATION
+// ============================================================================
+
+/**
+ * Run a program with the env files for the mode loaded into its environment.
+ * Resolves with the program's exit code, or 128 + signal number when it was killed.
+ */
+export function runWithEnv(options: RunOptions): Promise<number> {
+  const [program, ...args] = options.command;
+  if (!program) {
+    throw new Error('Missing command to run. Usage: env-twin run [--mode <mode>] -- <command>');
+  }
+
+  const loaded = loadEnv({ mode: options.mode });
+  if (options.verbose) {
+    // stderr, so the program's own output stays clean
+    const files = loaded.files.length > 0 ? loaded.files.join(', ') : 'none';
+    console.error(colors.blue(`env-twin: loaded ${files}`));
+  }
+
+  return new Promise(resolve => {
+    const child = spawn(program, args, {
+      stdio: 'inherit',
+      env: { ...process.env, ...loaded.values },
+    });
+
+    const forward = (signal: NodeJS.Signals) => child.kill(signal);
+    for (const signal of FORWARDED_SIGNALS) process.on(signal, forward);
+    const stopForwarding = () => {
+      for (const signal of FORWARDED_SIGNALS) process.off(signal, forward);
+    };
+
+    child.on('error', error => {
+      stopForwarding();
+      console.error(colors.red(`Failed to start '${program}': ${error.message}`));
+      resolve(COMMAND_NOT_FOUND_EXIT_CODE);
+    });
+    child.on('exit', (code, signal) => {
+      stopForwarding();
+      const signalNumber = signal ? os.constants.signals[signal] : undefined;
+      resolve(code ?? 128 + (signalNumber || 0));
+    });
+  });
+}
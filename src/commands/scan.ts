@@ -0,0 +1,61 @@
+import { describeLeak, scanTemplateFile, TEMPLATE_FILE } from '../modules/leak-scanner.js';
+import { EnvFileAnalysis } from '../modules/sync-logic.js';
+import { PlaceholderConfig } from '../utils/config.js';
+import { colors } from '../utils/ui.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScanOptions {
+  json?: boolean;
+  include?: string[];
+  exclude?: string[];
+  placeholder?: PlaceholderConfig; // so generated and kept values are not flagged
+}
+
+/** Exit code when possible leaks are found; 1 stays reserved for unexpected errors. */
+export const SCAN_LEAKS_EXIT_CODE = 2;
+
+// ============================================================================
+// SCAN OPERATION
+// ============================================================================
+
+/**
+ * Look for real credentials in .env.example by comparing its values with every other
+ * discovered env file. Read-only; returns the exit code for the caller to use.
+ */
+export function runScan(options: ScanOptions = {}): number {
+  const report = new EnvFileAnalysis(process.cwd(), {
+    include: options.include,
+    exclude: options.exclude,
+  }).analyze();
+  const findings = scanTemplateFile(report.files, options.placeholder);
+  const exitCode = findings.length > 0 ? SCAN_LEAKS_EXIT_CODE : 0;
+
+  if (options.json) {
+    console.log(JSON.stringify({ findings, exitCode }, null, 2));
+    return exitCode;
+  }
+
+  if (!report.files.some(file => file.fileName === TEMPLATE_FILE)) {
+    console.log(colors.yellow(`No ${TEMPLATE_FILE} file found in the current directory.`));
+    return exitCode;
+  }
+
+  if (findings.length === 0) {
+    console.log(colors.green(`No secrets found in ${TEMPLATE_FILE}.`));
+    return exitCode;
+  }
+
+  console.log(colors.red(`Found ${findings.length} possible secret(s) in ${TEMPLATE_FILE}:`));
+  findings.forEach(finding => {
+    console.log(
+      `  ${TEMPLATE_FILE}:${finding.line} ${colors.bold(finding.key)} - ${describeLeak(finding)}`
+    );
+  });
+  console.log('');
+  console.log('Replace these values with placeholders before committing.');
+
+  return exitCode;
+}
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  buildKeyMatrix,
+  cellLabel,
+  CellState,
+  headerLabel,
+  KeyMatrix,
+  MatrixFormat,
+  renderKeyMatrix,
+} from '../modules/key-matrix.js';
+import { EnvFileAnalysis } from '../modules/sync-logic.js';
+import { colors } from '../utils/ui.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StatusOptions {
+  format?: MatrixFormat; // default: 'text'
+  json?: boolean;
+  output?: string; // write the rendered matrix to a file instead of stdout
+  onlyProblems?: boolean;
+  prefix?: string;
+  source?: string;
+  include?: string[];
+  exclude?: string[];
+  ignoreKeys?: string[];
+  placeholder?: string; // placeholder template, to recognize generated values
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CELL_COLORS: Record<CellState, (text: string) => string> = {
+  present: colors.green,
+  missing: colors.red,
+  empty: colors.yellow,
+  placeholder: colors.dim,
+  different: colors.cyan,
+};
+
+// ============================================================================
+// STATUS OPERATION
+// ============================================================================
+
+/**
+ * Show every key against every discovered env file. Values are never printed.
+ */
+export function runStatus(options: StatusOptions = {}): void {
+  const report = new EnvFileAnalysis(process.cwd(), {
+    include: options.include,
+    exclude: options.exclude,
+    ignoreKeys: options.ignoreKeys,
+  }).analyze({ sourceOfTruth: options.source });
+  const matrix = buildKeyMatrix(report, {
+    placeholderTemplate: options.placeholder,
+    onlyProblems: options.onlyProblems,
+    prefix: options.prefix,
+  });
+
+  const format = options.format || 'text';
+  const rendered = options.json
+    ? JSON.stringify(matrix, null, 2)
+    : format === 'text'
+      ? renderText(matrix, !options.output)
+      : renderKeyMatrix(matrix, format);
+
+  if (options.output) {
+    const outputPath = path.resolve(process.cwd(), options.output);
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, `${rendered}\n`);
+    console.log(colors.green(`Wrote ${options.output} (${matrix.rows.length} key(s)).`));
+    return;
+  }
+  console.log(rendered);
+}
+
+function renderText(matrix: KeyMatrix, colored: boolean): string {
+  if (matrix.files.length === 0) return 'No .env* files found in the current directory.';
+  if (matrix.rows.length === 0) return 'No keys to show.';
+
+  const headers = ['Key', ...matrix.files.map(file => headerLabel(matrix, file))];
+  const rows = matrix.rows.map(row => [
+    row.key,
+    ...matrix.files.map(file => cellLabel(row.cells[file])),
+  ]);
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => row[column].length))
+  );
+  const line = (cells: string[], paint?: (cell: string, column: number) => string) =>
+    cells
+      .map((cell, column) => {
+        const padded = cell.padEnd(widths[column]);
+        return colored && paint ? paint(padded, column) : padded;
+      })
+      .join('  ')
+      .trimEnd();
+
+  return [
+    line(headers, cell => colors.bold(cell)),
+    widths.map(width => '─'.repeat(width)).join('  '),
+    ...rows.map((cells, index) =>
+      line(cells, (cell, column) =>
+        column === 0 ? cell : CELL_COLORS[matrix.rows[index].cells[matrix.files[column - 1]]](cell)
+      )
+    ),
+  ].join('\n');
+}
@@ -1,22 +1,40 @@
-import { EnvFileAnalysis } from '../modules/sync-logic.js';
-import { colors, confirm, select } from '../utils/ui.js';
-import { planExampleAndOrphanActions } from './sync/example-orphans-planner.js';
-import { executeSyncActions } from './sync/executor.js';
-import { planMissingKeyActions } from './sync/missing-keys-planner.js';
-import { resolveSourceOfTruth } from './sync/source-of-truth.js';
-import { PromptApi, SyncCommandOptions } from './sync/types.js';
+import path from 'path';
+import { analyze, planSync } from '../modules/api.js';
+import { isGeneratedPlaceholder } from '../modules/placeholders.js';
+import { isSecret, maskEnvFile } from '../modules/secrets.js';
+import { writeAtomic } from '../utils/atomic-fs.js';
+import {
+  colors,
+  confirm,
+  consoleLogger,
+  input,
+  multiselect,
+  password,
+  select,
+} from '../utils/ui.js';
+import { createAnswerPrompts, loadAnswersFile } from './sync/answers.js';
+import { executeSyncActions, printPlan } from './sync/executor.js';
+import { createPlanFile, serializePlanFile } from './sync/plan-file.js';
+import { PromptApi, SyncCommandOptions, SyncPlan } from './sync/types.js';
 
-const prompts: PromptApi = {
+const consolePrompts: PromptApi = {
   confirm,
   select: (message, choices) => select(message, choices),
+  input: message => input(message),
+  multiselect: (message, choices) => multiselect(message, choices),
+  password: message => password(message),
 };
 
 export async function runSync(options: SyncCommandOptions = {}): Promise<void> {
-  const cwd = process.cwd();
-  const analyzer = new EnvFileAnalysis(cwd);
-  let report = analyzer.analyze({ sourceOfTruth: options.source });
+  const scope = {
+    source: options.source,
+    include: options.include,
+    exclude: options.exclude,
+    ignoreKeys: options.ignoreKeys,
+  };
 
   if (options.json) {
+    const report = analyze(scope);
     // Convert Sets to Arrays for JSON serialization
     const replacer = (_: string, value: unknown) => {
       if (value instanceof Set) {
@@ -24,55 +42,67 @@ export async function runSync(options: SyncCommandOptions = {}): Promise<void> {
       }
       return value;
     };
-    console.log(JSON.stringify(report, replacer, 2));
+    const files = options.showSecrets ? report.files : report.files.map(maskEnvFile);
+    console.log(JSON.stringify({ ...report, files }, replacer, 2));
     return;
   }
 
-  const existingFiles = report.files;
-  if (existingFiles.length === 0) {
-    console.log(colors.yellow('No .env* files found in the current directory.'));
+  // An answers file replaces the prompts; the final confirmation is skipped as with --yes
+  const prompts = options.answers
+    ? createAnswerPrompts(loadAnswersFile(path.resolve(options.answers)))
+    : consolePrompts;
+  const plan = await planSync({
+    ...scope,
+    placeholder: options.placeholder,
+    showSecrets: options.showSecrets,
+    yes: options.yes && !options.answers,
+    prompts,
+    logger: consoleLogger,
+  });
+  if (plan.report.files.length === 0) return;
+
+  if (options.planOut) {
+    writePlan(plan, options.planOut, options);
     return;
   }
 
-  console.log(colors.bold(`Found ${existingFiles.length} .env* file(s):`));
-  existingFiles.forEach(file => console.log(`  - ${file.fileName}`));
-  console.log('');
-
-  const resolution = await resolveSourceOfTruth({
-    report,
-    analyzer,
-    yes: options.yes,
+  await executeSyncActions({
+    cwd: plan.cwd,
+    report: plan.report,
+    actions: plan.actions,
+    options: options.answers ? { ...options, yes: true } : options,
     prompts,
+    logger: consoleLogger,
   });
-  report = resolution.report;
+}
 
-  if (resolution.sourceOfTruth) {
-    console.log(`${colors.blue('Source of Truth:')} ${colors.bold(resolution.sourceOfTruth)}`);
+/**
+ * Save the plan for review instead of applying it. The file holds the values to be written,
+ * so it is created readable by the owner only.
+ */
+function writePlan(plan: SyncPlan, planOut: string, options: SyncCommandOptions): void {
+  const planPath = path.resolve(plan.cwd, planOut);
+  if (plan.actions.length > 0) {
+    printPlan(plan.actions, options, consoleLogger);
   } else {
-    console.log(`${colors.blue('Source of Truth:')} ${colors.bold('Union of all files')}`);
+    console.log(colors.green('All files are in sync! No actions needed.'));
   }
-  console.log('');
 
-  const actions = [
-    ...(await planMissingKeyActions({
-      report,
-      sourceOfTruth: resolution.sourceOfTruth,
-      yes: options.yes,
-      prompts,
-    })),
-    ...(await planExampleAndOrphanActions({
-      report,
-      sourceOfTruth: resolution.sourceOfTruth,
-      yes: options.yes,
-      prompts,
-    })),
-  ];
+  writeAtomic(planPath, serializePlanFile(createPlanFile(plan)), { mode: 0o600 });
+  console.log(colors.green(`✓ Plan written to ${planOut} (${plan.actions.length} actions)`));
 
-  await executeSyncActions({
-    cwd,
-    report,
-    actions,
-    options,
-    prompts,
-  });
+  const secrets = plan.actions.filter(
+    action =>
+      (action.action === 'add' || action.action === 'update') &&
+      !isGeneratedPlaceholder(action.value, { key: action.key }, options.placeholder?.template) &&
+      isSecret(action.key, action.value)
+  );
+  if (secrets.length > 0) {
+    console.log(
+      colors.yellow(
+        `Note: ${planOut} contains ${secrets.length} secret value(s) in plain text. Do not commit it.`
+      )
+    );
+  }
+  console.log(`Apply it with: env-twin apply ${planOut}`);
 }
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { planSync } from '../../modules/api.js';
+import { MemoryFs } from '../../utils/env-fs.js';
+import { createAnswerPrompts, loadAnswersFile, SyncAnswers, validateAnswers } from './answers.js';
+import { LoggerApi } from './types.js';
+
+const cwd = path.resolve('/project');
+const silent: LoggerApi = { log: () => {}, error: () => {} };
+
+let tempDir = '';
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-twin-answers-'));
+});
+
+afterEach(() => {
+  if (tempDir && fs.existsSync(tempDir)) {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+async function planWith(answers: SyncAnswers) {
+  const memory = new MemoryFs({
+    [path.join(cwd, '.env')]:
+      'DB_HOST=db.internal\nDB_PORT=5432\nAPI_URL=https://api.example.com\nAPI_TOKEN=abc\n',
+    [path.join(cwd, '.env.local')]: '',
+    [path.join(cwd, '.env.test')]: '',
+    [path.join(cwd, '.env.example')]: 'DB_HOST=\nDB_PORT=\nAPI_URL=\nAPI_TOKEN=\n',
+  });
+  const plan = await planSync({
+    cwd,
+    source: '.env',
+    fs: memory,
+    prompts: createAnswerPrompts(answers, silent),
+  });
+  return plan.actions.map(action => `${action.file}: ${action.key}=${action.value}`);
+}
+
+describe('answers', () => {
+  it('maps key and file globs to decisions, first match wins', async () => {
+    const actions = await planWith({
+      default: 'skip',
+      rules: [
+        { key: 'DB_*', file: '.env.local', action: 'copy' },
+        { key: 'DB_HOST', action: 'value', value: 'localhost' },
+        { key: 'API_URL', action: 'template', template: 'http://localhost/{key_lower}' },
+        { key: 'API_TOKEN', file: '.env.test', action: 'empty' },
+      ],
+    });
+
+    expect(actions).toEqual([
+      '.env.local: DB_HOST=db.internal',
+      '.env.local: DB_PORT=5432',
+      '.env.local: API_URL=http://localhost/api_url',
+      '.env.test: DB_HOST=localhost',
+      '.env.test: API_URL=http://localhost/api_url',
+      '.env.test: API_TOKEN=',
+    ]);
+  });
+
+  it('falls back to adding empty values', async () => {
+    const actions = await planWith({ rules: [] });
+    expect(actions).toHaveLength(8);
+    expect(actions.every(action => action.endsWith('='))).toBe(true);
+  });
+
+  it('loads YAML answers and rejects invalid ones', () => {
+    const yamlPath = path.join(tempDir, 'answers.yaml');
+    fs.writeFileSync(
+      yamlPath,
+      'default: copy\nrules:\n  - key: PORT\n    action: value\n    value: 8080\n'
+    );
+    expect(loadAnswersFile(yamlPath)).toEqual({
+      default: 'copy',
+      rules: [{ key: 'PORT', action: 'value', value: '8080' }],
+    });
+
+    expect(() => validateAnswers({ rule: [] }, 'test')).toThrow(/unknown option 'rule'/);
+    expect(() => validateAnswers({ default: 'value' }, 'test')).toThrow(/'default'/);
+    expect(() => validateAnswers({ rules: [{ key: 'A', action: 'copy-all' }] }, 'test')).toThrow(
+      /rules\[0\]\.action/
+    );
+    expect(() => validateAnswers({ rules: [{ key: 'A', action: 'template' }] }, 'test')).toThrow(
+      /template' is required/
+    );
+    expect(() => loadAnswersFile(path.join(tempDir, 'missing.json'))).toThrow(/not found/);
+  });
+
+  it('refuses questions it has no answer for', async () => {
+    const prompts = createAnswerPrompts({ rules: [] }, silent);
+    await expect(prompts.select('Pick one', [{ title: 'A', value: 'a' }])).rejects.toThrow(
+      /cannot answer "Pick one"/
+    );
+    expect(await prompts.confirm('Write anyway?', false)).toBe(false);
+  });
+});
@@ -0,0 +1,213 @@
+import fs from 'fs';
+import path from 'path';
+import { renderPlaceholder } from '../../modules/placeholders.js';
+import { matchesGlob } from '../../utils/glob.js';
+import { colors, consoleLogger } from '../../utils/ui.js';
+import { parseYaml } from '../../utils/yaml.js';
+import {
+  BulkDecision,
+  LoggerApi,
+  OrphanDecision,
+  PromptApi,
+  PromptChoice,
+  PromptContext,
+} from './types.js';
+
+/**
+ * Scripted Answers
+ *
+ * An answers file decides, per key and target file, how `sync` fills in missing keys, so CI
+ * can run the exact merge it wants without a TTY. Rules are tried in order and the first
+ * whose `key` and `file` globs match wins; keys no rule matches get `default` (empty).
+ *
+ *   default: empty
+ *   rules:
+ *     - key: DB_*
+ *       file: .env.local
+ *       action: copy
+ *     - key: API_URL
+ *       action: template
+ *       template: http://localhost/{key_lower}
+ *
+ * Every other question gets the answer `sync --yes` would take.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AnswerAction = 'empty' | 'copy' | 'skip' | 'value' | 'template';
+
+export interface AnswerRule {
+  key: string; // glob, e.g. DB_*
+  file?: string; // glob of the target file; default: every file
+  action: AnswerAction;
+  value?: string; // for 'value'
+  template?: string; // for 'template'; placeholder variables such as {key_lower}
+}
+
+export interface SyncAnswers {
+  default?: Exclude<AnswerAction, 'value' | 'template'>;
+  rules: AnswerRule[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ANSWER_ACTIONS: readonly AnswerAction[] = ['empty', 'copy', 'skip', 'value', 'template'];
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Read an answers file (.json, .yaml or .yml).
+ */
+export function loadAnswersFile(filePath: string): SyncAnswers {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Answers file '${filePath}' not found`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const extension = path.extname(filePath);
+  let raw: unknown;
+  try {
+    raw = extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to read answers '${filePath}': ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return validateAnswers(raw, filePath);
+}
+
+/**
+ * Check a raw answers object. Unknown fields are rejected so typos surface instead of
+ * silently falling back to the default.
+ */
+export function validateAnswers(raw: unknown, origin: string): SyncAnswers {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid answers in ${origin}: ${message}`);
+  };
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (!isObject(raw)) return fail('expected an object');
+  for (const key of Object.keys(raw)) {
+    if (!['$schema', 'default', 'rules'].includes(key)) fail(`unknown option '${key}'`);
+  }
+
+  const fallback = raw.default;
+  if (fallback !== undefined && !['empty', 'copy', 'skip'].includes(fallback as string)) {
+    fail("'default' must be one of: empty, copy, skip");
+  }
+
+  const rules = raw.rules ?? [];
+  if (!Array.isArray(rules)) return fail("'rules' must be a list");
+
+  return {
+    default: fallback as SyncAnswers['default'],
+    rules: rules.map((rule, index): AnswerRule => {
+      const name = `rules[${index}]`;
+      if (!isObject(rule)) return fail(`'${name}' must be an object`);
+      for (const key of Object.keys(rule)) {
+        if (!['key', 'file', 'action', 'value', 'template'].includes(key)) {
+          fail(`unknown option '${name}.${key}'`);
+        }
+      }
+      if (typeof rule.key !== 'string' || rule.key === '') {
+        fail(`'${name}.key' must be a non-empty string`);
+      }
+      if (rule.file !== undefined && (typeof rule.file !== 'string' || rule.file === '')) {
+        fail(`'${name}.file' must be a non-empty string`);
+      }
+      if (!ANSWER_ACTIONS.includes(rule.action as AnswerAction)) {
+        fail(`'${name}.action' must be one of: ${ANSWER_ACTIONS.join(', ')}`);
+      }
+      // YAML reads `value: 8080` as a number; env values are always strings
+      if (rule.action === 'value' && !['string', 'number', 'boolean'].includes(typeof rule.value)) {
+        fail(`'${name}.value' is required for action 'value'`);
+      }
+      if (rule.action === 'template' && typeof rule.template !== 'string') {
+        fail(`'${name}.template' is required for action 'template'`);
+      }
+
+      return {
+        key: rule.key as string,
+        file: rule.file as string | undefined,
+        action: rule.action as AnswerAction,
+        value: rule.value === undefined ? undefined : String(rule.value),
+        template: rule.template as string | undefined,
+      };
+    }),
+  };
+}
+
+// ============================================================================
+// SCRIPTED PROMPTS
+// ============================================================================
+
+/**
+ * A `PromptApi` that answers from `answers` and never reads stdin. Each decision is logged
+ * so CI output shows what was chosen. Questions the planners ask outside the missing-key
+ * flow get the `sync --yes` answer: union Source of Truth, orphans kept, confirmations at
+ * their default.
+ */
+export function createAnswerPrompts(
+  answers: SyncAnswers,
+  logger: LoggerApi = consoleLogger
+): PromptApi {
+  const ruleFor = (context: PromptContext): AnswerRule | undefined =>
+    answers.rules.find(
+      rule =>
+        matchesGlob(context.key || '', rule.key) &&
+        (!rule.file || matchesGlob(context.file || '', rule.file))
+    );
+
+  return {
+    confirm: async (message, initial = true) => {
+      logger.log(colors.dim(`${message} ${initial ? 'yes' : 'no'} (answers file)`));
+      return initial;
+    },
+
+    select: async <T>(message: string, choices: PromptChoice<T>[], context?: PromptContext) => {
+      let answer: unknown;
+      switch (context?.topic) {
+        case 'source-of-truth':
+          answer = '';
+          break;
+        case 'missing-keys':
+          answer = 'ask' satisfies BulkDecision;
+          break;
+        case 'orphan-keys':
+          answer = 'keep' satisfies OrphanDecision;
+          break;
+        case 'missing-key': {
+          const action = ruleFor(context)?.action || answers.default || 'empty';
+          answer = action === 'value' || action === 'template' ? 'input' : action;
+          break;
+        }
+        default:
+          throw new Error(`The answers file cannot answer "${message}"`);
+      }
+
+      // 'copy' is only offered when the source has a value
+      const choice = choices.find(candidate => candidate.value === answer) || choices[0];
+      logger.log(colors.dim(`${message} ${choice.title} (answers file)`));
+      return choice.value;
+    },
+
+    input: async (message, context) => {
+      const rule = context && ruleFor(context);
+      if (rule?.action === 'value') return rule.value || '';
+      if (rule?.action === 'template' && context?.key) {
+        return renderPlaceholder(
+          { key: context.key, value: context.value, sourceFile: context.sourceFile },
+          { template: rule.template }
+        );
+      }
+      throw new Error(`The answers file cannot answer "${message}"`);
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EnvFileAnalysis } from '../../modules/sync-logic.js';
+import { CHECK_EXIT_CODES, checkReport, runSyncCheck } from './check.js';
+
+let tempDir = '';
+
+function write(fileName: string, content: string): void {
+  fs.writeFileSync(path.join(tempDir, fileName), content, 'utf-8');
+}
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-twin-check-'));
+});
+
+afterEach(() => {
+  if (tempDir && fs.existsSync(tempDir)) {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+describe('sync check', () => {
+  it('exits 0 when all files match the source of truth', () => {
+    write('.env.example', 'A=\nB=\n');
+    write('.env', 'A=1\nB=2\n');
+
+    const result = checkReport(new EnvFileAnalysis(tempDir).analyze());
+
+    expect(result.exitCode).toBe(CHECK_EXIT_CODES.ok);
+  });
+
+  it('combines exit codes for missing keys, orphans and parse errors', () => {
+    write('.env.example', 'A=\nB=\n');
+    write('.env', 'A=1\nEXTRA=1\n');
+    write('.env.local', 'A=1\nB=2\nnot an assignment\nC="unterminated\n');
+
+    const result = checkReport(new EnvFileAnalysis(tempDir).analyze());
+
+    expect(result.missingKeys).toEqual({ '.env': ['B'] });
+    expect(result.orphanKeys).toEqual({ '.env': ['EXTRA'], '.env.local': ['C'] });
+    expect(result.parseErrors['.env.local']).toEqual([
+      { line: 3, message: "Expected 'KEY=value'", text: 'not an assignment' },
+      { line: 4, message: 'Unterminated quoted value', text: 'C="unterminated' },
+    ]);
+    expect(result.exitCode).toBe(
+      CHECK_EXIT_CODES.missing | CHECK_EXIT_CODES.orphans | CHECK_EXIT_CODES.parseErrors
+    );
+  });
+
+  it('never writes files, backups or .gitignore', () => {
+    write('.env.example', 'A=\nB=\n');
+    write('.env', 'A=1\n');
+    const originalCwd = process.cwd();
+    const originalLog = console.log;
+    const output: string[] = [];
+    console.log = (message?: unknown) => output.push(String(message));
+
+    let exitCode: number;
+    try {
+      process.chdir(tempDir);
+      exitCode = runSyncCheck({ json: true });
+    } finally {
+      process.chdir(originalCwd);
+      console.log = originalLog;
+    }
+
+    expect(exitCode).toBe(CHECK_EXIT_CODES.missing);
+    expect(JSON.parse(output.join('\n')).missingKeys).toEqual({ '.env': ['B'] });
+    expect(fs.readdirSync(tempDir).sort()).toEqual(['.env', '.env.example']);
+    expect(fs.readFileSync(path.join(tempDir, '.env'), 'utf-8')).toBe('A=1\n');
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  EnvAnalysisReport,
+  EnvFileAnalysis,
+  EnvParseError,
+  findParseErrors,
+} from '../../modules/sync-logic.js';
+import { colors } from '../../utils/ui.js';
+import { SyncCommandOptions } from './types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Exit code bits for `sync --check`. Several problems combine, e.g. missing keys
+ * and orphans exit with 6. Exit code 1 stays reserved for unexpected errors.
+ */
+export const CHECK_EXIT_CODES = {
+  ok: 0,
+  missing: 2,
+  orphans: 4,
+  parseErrors: 8,
+} as const;
+
+export interface CheckResult {
+  sourceOfTruth: string;
+  missingKeys: Record<string, string[]>;
+  orphanKeys: Record<string, string[]>;
+  parseErrors: Record<string, EnvParseError[]>;
+  exitCode: number;
+}
+
+// ============================================================================
+// CHECK
+// ============================================================================
+
+export function checkReport(report: EnvAnalysisReport): CheckResult {
+  const parseErrors: Record<string, EnvParseError[]> = {};
+  report.files.forEach(file => {
+    const errors = findParseErrors(file.parsedLines);
+    if (errors.length > 0) {
+      parseErrors[file.fileName] = errors;
+    }
+  });
+
+  const hasEntries = (record: Record<string, unknown[]>) =>
+    Object.values(record).some(entries => entries.length > 0);
+
+  let exitCode: number = CHECK_EXIT_CODES.ok;
+  if (hasEntries(report.missingKeys)) exitCode |= CHECK_EXIT_CODES.missing;
+  if (hasEntries(report.orphanKeys)) exitCode |= CHECK_EXIT_CODES.orphans;
+  if (hasEntries(parseErrors)) exitCode |= CHECK_EXIT_CODES.parseErrors;
+
+  return {
+    sourceOfTruth: report.sourceOfTruth,
+    missingKeys: report.missingKeys,
+    orphanKeys: report.orphanKeys,
+    parseErrors,
+    exitCode,
+  };
+}
+
+/**
+ * Read-only drift check for CI. Never prompts, writes files, creates backups or
+ * touches .gitignore. Returns the exit code for the caller to use.
+ */
+export function runSyncCheck(options: SyncCommandOptions = {}): number {
+  const analyzer = new EnvFileAnalysis(process.cwd(), {
+    include: options.include,
+    exclude: options.exclude,
+    ignoreKeys: options.ignoreKeys,
+  });
+  const report = analyzer.analyze({ sourceOfTruth: options.source });
+  const result = checkReport(report);
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return result.exitCode;
+  }
+
+  if (report.files.length === 0) {
+    console.log(colors.yellow('No .env* files found in the current directory.'));
+    return result.exitCode;
+  }
+
+  const source = result.sourceOfTruth || 'Union of all files';
+  console.log(`${colors.blue('Source of Truth:')} ${colors.bold(source)}`);
+  console.log('');
+
+  for (const file of report.files) {
+    const missing = result.missingKeys[file.fileName] || [];
+    const orphans = result.orphanKeys[file.fileName] || [];
+    const errors = result.parseErrors[file.fileName] || [];
+
+    if (missing.length === 0 && orphans.length === 0 && errors.length === 0) {
+      console.log(`${colors.green('✓')} ${file.fileName}`);
+      continue;
+    }
+
+    console.log(`${colors.red('✗')} ${colors.bold(file.fileName)}`);
+    if (missing.length > 0) {
+      console.log(`    ${colors.yellow('Missing:')} ${missing.join(', ')}`);
+    }
+    if (orphans.length > 0) {
+      console.log(`    ${colors.yellow('Orphans:')} ${orphans.join(', ')}`);
+    }
+    errors.forEach(error => {
+      console.log(`    ${colors.red(`Line ${error.line}:`)} ${error.message}`);
+    });
+  }
+
+  console.log('');
+  if (result.exitCode === CHECK_EXIT_CODES.ok) {
+    console.log(colors.green('All env files are in sync.'));
+  } else {
+    console.log(colors.red(`Env file check failed (exit code ${result.exitCode}).`));
+  }
+
+  return result.exitCode;
+}
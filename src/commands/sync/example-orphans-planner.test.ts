@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test';
-import { EnvAnalysisReport, EnvFileInfo } from '../../modules/sync-logic.js';
+import { EnvAnalysisReport, EnvFileInfo, parseEnvLine } from '../../modules/sync-logic.js';
 import { planExampleAndOrphanActions } from './example-orphans-planner.js';
 import { PromptApi } from './types.js';
 
@@ -7,6 +7,8 @@ function buildFile(fileName: string, keys: string[]): EnvFileInfo {
   const parsedLines = keys.map(key => ({
     key,
     value: key.toLowerCase(),
+    rawValue: key.toLowerCase(),
+    unquotedValue: key.toLowerCase(),
     originalLine: `${key}=${key.toLowerCase()}`,
     isComment: false,
     isEmpty: false,
@@ -68,6 +70,26 @@ describe('example-orphans-planner', () => {
     ]);
   });
 
+  it('renders placeholders from the configured template', async () => {
+    const report = buildReport({
+      files: [buildFile('.env', ['API_KEY'])],
+      allKeys: ['API_KEY'],
+      sourceOfTruth: '.env',
+    });
+
+    const actions = await planExampleAndOrphanActions({
+      report,
+      sourceOfTruth: '.env',
+      yes: true,
+      placeholder: { template: '<{key_upper}>' },
+      prompts: noPromptUse,
+    });
+
+    expect(actions).toEqual([
+      { file: '.env.example', key: 'API_KEY', action: 'add', value: '<API_KEY>' },
+    ]);
+  });
+
   it('promotes orphan keys to source-of-truth on confirmation', async () => {
     const report = buildReport({
       files: [buildFile('.env.example', ['BASE']), buildFile('.env', ['BASE', 'EXTRA'])],
@@ -79,11 +101,86 @@ describe('example-orphans-planner', () => {
     const actions = await planExampleAndOrphanActions({
       report,
       sourceOfTruth: '.env.example',
-      prompts: { ...noPromptUse, confirm: async () => true },
+      prompts: { ...noPromptUse, select: async () => 'promote' as never },
     });
 
     expect(actions).toEqual([
       { file: '.env.example', key: 'EXTRA', action: 'add', value: 'input_extra' },
     ]);
   });
+
+  it('offers remove and comment-out for orphan keys', async () => {
+    const report = buildReport({
+      files: [
+        buildFile('.env.example', ['BASE']),
+        buildFile('.env', ['BASE', 'OLD']),
+        buildFile('.env.local', ['BASE', 'LEGACY']),
+      ],
+      allKeys: ['BASE', 'OLD', 'LEGACY'],
+      orphanKeys: { '.env': ['OLD'], '.env.local': ['LEGACY'] },
+      sourceOfTruth: '.env.example',
+    });
+    const answers = ['remove', 'comment-out'];
+
+    const actions = await planExampleAndOrphanActions({
+      report,
+      sourceOfTruth: '.env.example',
+      prompts: { ...noPromptUse, select: async () => answers.shift() as never },
+    });
+
+    expect(actions).toEqual([
+      { file: '.env', key: 'OLD', action: 'remove', value: '' },
+      { file: '.env.local', key: 'LEGACY', action: 'comment-out', value: '' },
+    ]);
+  });
+
+  it('refreshes stale generated placeholders in .env.example', async () => {
+    const example = buildFile('.env.example', ['API_NAME', 'PORT', 'CUSTOM']);
+    example.parsedLines = [
+      parseEnvLine('API_NAME=input_api_name'),
+      parseEnvLine('PORT=3000'),
+      parseEnvLine('CUSTOM=https://example.com'),
+    ];
+    const report = buildReport({
+      files: [example],
+      allKeys: ['API_NAME', 'PORT', 'CUSTOM'],
+      sourceOfTruth: '.env.example',
+    });
+
+    const actions = await planExampleAndOrphanActions({
+      report,
+      sourceOfTruth: '.env.example',
+      yes: true,
+      placeholder: { template: '{key_upper}' },
+      prompts: noPromptUse,
+    });
+
+    // Only the old default placeholder changes; hand-written values never match a template
+    expect(actions).toEqual([
+      { file: '.env.example', key: 'API_NAME', action: 'update', value: 'API_NAME' },
+    ]);
+  });
+
+  it('carries inline comments to .env.example as documentation', async () => {
+    const env = buildFile('.env', ['PORT']);
+    env.parsedLines = [parseEnvLine('PORT=3000 # HTTP port')];
+    const report = buildReport({ files: [env], allKeys: ['PORT'], sourceOfTruth: '.env' });
+
+    const actions = await planExampleAndOrphanActions({
+      report,
+      sourceOfTruth: '.env',
+      yes: true,
+      prompts: noPromptUse,
+    });
+
+    expect(actions).toEqual([
+      {
+        file: '.env.example',
+        key: 'PORT',
+        action: 'add',
+        value: 'input_port',
+        comment: 'HTTP port',
+      },
+    ]);
+  });
 });
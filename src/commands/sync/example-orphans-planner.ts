@@ -1,12 +1,17 @@
-import { EnvAnalysisReport, EnvFileAnalysis } from '../../modules/sync-logic.js';
-import { colors } from '../../utils/ui.js';
-import { PendingAction, PromptApi } from './types.js';
+import { isGeneratedPlaceholder, renderPlaceholder } from '../../modules/placeholders.js';
+import { EnvAnalysisReport, EnvFileInfo } from '../../modules/sync-logic.js';
+import { PlaceholderConfig } from '../../utils/config.js';
+import { colors, consoleLogger } from '../../utils/ui.js';
+import { LoggerApi, OrphanDecision, PendingAction, PromptApi } from './types.js';
+import { resolveCommentForKey, resolveRealValueForKey } from './value-resolution.js';
 
 interface ExamplePlannerParams {
   report: EnvAnalysisReport;
   sourceOfTruth: string;
   yes?: boolean;
+  placeholder?: PlaceholderConfig;
   prompts: PromptApi;
+  logger?: LoggerApi;
 }
 
 export async function planExampleAndOrphanActions(
@@ -19,43 +24,92 @@ export async function planExampleAndOrphanActions(
     return maybeCreateExampleActions(params);
   }
 
+  const actions = await maybeCreatePlaceholderUpdates(exampleFile, params);
   if (!params.sourceOfTruth || params.yes) {
-    return [];
+    return actions;
   }
 
-  return maybeCreatePromotionActions(params);
+  return [...actions, ...(await maybeCreateOrphanActions(params))];
 }
 
 async function maybeCreateExampleActions({
   report,
+  sourceOfTruth,
   yes,
+  placeholder,
   prompts,
+  logger = consoleLogger,
 }: ExamplePlannerParams): Promise<PendingAction[]> {
   const allKeys = Array.from(report.allKeys).sort();
   if (allKeys.length === 0) return [];
 
   let shouldCreate = Boolean(yes);
   if (!yes) {
-    console.log(colors.yellow('No .env.example file found.'));
+    logger.log(colors.yellow('No .env.example file found.'));
     shouldCreate = await prompts.confirm(
       'Do you want to create .env.example with all found keys?',
-      true
+      true,
+      { topic: 'create-example', file: '.env.example' }
     );
   }
 
   if (!shouldCreate) return [];
-  return allKeys.map(key => ({
+  return allKeys.map(key =>
+    withComment(report, sourceOfTruth, {
+      file: '.env.example',
+      key,
+      action: 'add' as const,
+      value: placeholderFor(report, sourceOfTruth, key, placeholder),
+    })
+  );
+}
+
+/**
+ * Generated placeholders that no longer match the configured template, e.g. after the
+ * template changed, are refreshed in place. Hand-written example values are never touched.
+ */
+async function maybeCreatePlaceholderUpdates(
+  exampleFile: EnvFileInfo,
+  { report, sourceOfTruth, yes, placeholder, prompts, logger = consoleLogger }: ExamplePlannerParams
+): Promise<PendingAction[]> {
+  const stale = exampleFile.parsedLines
+    .filter(
+      parsed =>
+        parsed.key &&
+        (isGeneratedPlaceholder(parsed.unquotedValue, { key: parsed.key }) ||
+          isGeneratedPlaceholder(parsed.unquotedValue, { key: parsed.key }, placeholder?.template))
+    )
+    .map(parsed => ({
+      key: parsed.key,
+      current: parsed.unquotedValue,
+      value: placeholderFor(report, sourceOfTruth, parsed.key, placeholder),
+    }))
+    .filter(({ current, value }) => current !== value);
+  if (!stale.length) return [];
+
+  if (!yes) {
+    logger.log(colors.yellow(`Found ${stale.length} stale placeholders in .env.example.`));
+    const shouldUpdate = await prompts.confirm('Do you want to refresh them?', true, {
+      topic: 'refresh-placeholders',
+      file: '.env.example',
+    });
+    if (!shouldUpdate) return [];
+  }
+
+  return stale.map(({ key, value }) => ({
     file: '.env.example',
     key,
-    action: 'add' as const,
-    value: `input_${EnvFileAnalysis.sanitizeKey(key)}`,
+    action: 'update' as const,
+    value,
   }));
 }
 
-async function maybeCreatePromotionActions({
+async function maybeCreateOrphanActions({
   report,
   sourceOfTruth,
+  placeholder,
   prompts,
+  logger = consoleLogger,
 }: ExamplePlannerParams): Promise<PendingAction[]> {
   const sourceFile = report.files.find(file => file.fileName === sourceOfTruth);
   if (!sourceFile) return [];
@@ -65,27 +119,63 @@ async function maybeCreatePromotionActions({
     const promotions = orphans.filter(key => !sourceFile.keys.has(key));
     if (!promotions.length) continue;
 
-    console.log(
+    logger.log(
       colors.yellow(
         `Found ${promotions.length} keys in ${fileName} that are missing in ${sourceOfTruth}:`
       )
     );
+    promotions.forEach(key => logger.log(`  - ${key}`));
 
-    const shouldPromote = await prompts.confirm(
-      `Do you want to add these keys to ${sourceOfTruth}?`,
-      false
+    const decision = await prompts.select<OrphanDecision>(
+      `How do you want to handle these keys in ${fileName}?`,
+      [
+        { title: `Add them to ${sourceOfTruth}`, value: 'promote' },
+        { title: `Comment them out in ${fileName}`, value: 'comment-out' },
+        { title: `Remove them from ${fileName}`, value: 'remove' },
+        { title: 'Keep as is', value: 'keep' },
+      ],
+      { topic: 'orphan-keys', file: fileName }
     );
-    if (!shouldPromote) continue;
+    if (decision === 'keep') continue;
 
     for (const key of promotions) {
-      actions.push({
-        file: sourceOfTruth,
-        key,
-        action: 'add',
-        value: `input_${EnvFileAnalysis.sanitizeKey(key)}`,
-      });
+      if (decision !== 'promote') {
+        actions.push({ file: fileName, key, action: decision, value: '' });
+        continue;
+      }
+
+      actions.push(
+        withComment(report, fileName, {
+          file: sourceOfTruth,
+          key,
+          action: 'add',
+          value: placeholderFor(report, fileName, key, placeholder),
+        })
+      );
     }
   }
 
   return actions;
 }
+
+function placeholderFor(
+  report: EnvAnalysisReport,
+  preferredFile: string,
+  key: string,
+  placeholder?: PlaceholderConfig
+): string {
+  const resolved = resolveRealValueForKey(report, preferredFile, key);
+  return renderPlaceholder(
+    { key, value: resolved?.value, sourceFile: resolved?.sourceFile },
+    placeholder
+  );
+}
+
+function withComment(
+  report: EnvAnalysisReport,
+  preferredFile: string,
+  action: PendingAction
+): PendingAction {
+  const comment = resolveCommentForKey(report, preferredFile, action.key);
+  return comment ? { ...action, comment } : action;
+}
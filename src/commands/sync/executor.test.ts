@@ -75,4 +75,138 @@ describe('executor', () => {
     expect(envContent).toContain('NEW_B=copied');
     expect(envLocalContent.trim()).toBe('LOCAL_KEY=1');
   });
+
+  it('masks secret values in the printed plan', async () => {
+    const output: string[] = [];
+    const originalLog = console.log;
+    console.log = (message?: unknown) => output.push(String(message));
+
+    try {
+      await executeSyncActions({
+        cwd: tempDir,
+        report: {
+          sourceOfTruth: '',
+          files: [],
+          missingKeys: {},
+          orphanKeys: {},
+          allKeys: new Set(),
+        },
+        options: { yes: true, noBackup: true },
+        prompts: noPromptUse,
+        actions: [
+          { file: '.env', key: 'API_TOKEN', action: 'add', value: 'real-token' },
+          { file: '.env', key: 'PORT', action: 'add', value: '3000' },
+          { file: '.env.example', key: 'API_TOKEN', action: 'add', value: 'input_api_token' },
+        ],
+      });
+    } finally {
+      console.log = originalLog;
+    }
+
+    const plan = output.join('\n');
+    expect(plan).not.toContain('real-token');
+    expect(plan).toContain('3000');
+    expect(plan).toContain('input_api_token');
+    expect(fs.readFileSync(path.join(tempDir, '.env'), 'utf-8')).toContain('API_TOKEN=real-token');
+  });
+
+  it('refuses to write real secrets to .env.example unless allowed', async () => {
+    const envPath = path.join(tempDir, '.env');
+    fs.writeFileSync(envPath, 'API_TOKEN=prod-token-12345\n', 'utf-8');
+    const report: EnvAnalysisReport = {
+      sourceOfTruth: '.env',
+      files: [readFileInfo(envPath)],
+      missingKeys: {},
+      orphanKeys: {},
+      allKeys: new Set(['API_TOKEN']),
+    };
+    const actions = [
+      {
+        file: '.env.example',
+        key: 'API_TOKEN',
+        action: 'add' as const,
+        value: 'prod-token-12345',
+      },
+    ];
+    const examplePath = path.join(tempDir, '.env.example');
+
+    await expect(
+      executeSyncActions({
+        cwd: tempDir,
+        report,
+        actions,
+        options: { yes: true, noBackup: true },
+        prompts: noPromptUse,
+      })
+    ).rejects.toThrow(/--allow-leaks/);
+    expect(fs.existsSync(examplePath)).toBe(false);
+
+    await executeSyncActions({
+      cwd: tempDir,
+      report,
+      actions,
+      options: { yes: true, noBackup: true, allowLeaks: true },
+      prompts: noPromptUse,
+    });
+    expect(fs.readFileSync(examplePath, 'utf-8')).toContain('API_TOKEN=prod-token-12345');
+  });
+
+  it('applies update, remove and comment-out actions in place', async () => {
+    const envPath = path.join(tempDir, '.env');
+    fs.writeFileSync(
+      envPath,
+      '# App\nSTALE="input_old" # doc\nGONE=1\nLEGACY=2\nKEEP=3\n',
+      'utf-8'
+    );
+
+    await executeSyncActions({
+      cwd: tempDir,
+      report: {
+        sourceOfTruth: '.env.example',
+        files: [readFileInfo(envPath)],
+        missingKeys: {},
+        orphanKeys: {},
+        allKeys: new Set(['STALE', 'GONE', 'LEGACY', 'KEEP']),
+      },
+      options: { yes: true, noBackup: true },
+      prompts: noPromptUse,
+      actions: [
+        { file: '.env', key: 'STALE', action: 'update', value: 'input_stale' },
+        { file: '.env', key: 'GONE', action: 'remove', value: '' },
+        { file: '.env', key: 'LEGACY', action: 'comment-out', value: '' },
+      ],
+    });
+
+    expect(fs.readFileSync(envPath, 'utf-8')).toBe(
+      '# App\nSTALE="input_stale" # doc\n# LEGACY=2\nKEEP=3\n'
+    );
+  });
+
+  it('mirrors the source of truth layout when adding keys', async () => {
+    const examplePath = path.join(tempDir, '.env.example');
+    const envPath = path.join(tempDir, '.env');
+    fs.writeFileSync(examplePath, '# Database\nDB_HOST=\nDB_PORT=\n\n# API\nAPI_KEY=\n', 'utf-8');
+    fs.writeFileSync(envPath, '# Database\nDB_HOST=db\n', 'utf-8');
+
+    await executeSyncActions({
+      cwd: tempDir,
+      report: {
+        sourceOfTruth: '.env.example',
+        files: [readFileInfo(examplePath), readFileInfo(envPath)],
+        missingKeys: {},
+        orphanKeys: {},
+        allKeys: new Set(['DB_HOST', 'DB_PORT', 'API_KEY']),
+      },
+      options: { yes: true, noBackup: true },
+      prompts: noPromptUse,
+      actions: [
+        { file: '.env', key: 'API_KEY', action: 'add', value: '' },
+        { file: '.env', key: 'DB_PORT', action: 'add', value: '' },
+      ],
+    });
+
+    expect(fs.readFileSync(envPath, 'utf-8')).toBe(
+      '# Database\nDB_HOST=db\nDB_PORT=\n\n# API\nAPI_KEY=\n'
+    );
+  });
 });
@@ -1,10 +1,22 @@
-import fs from 'fs';
 import path from 'path';
-import { EnvAnalysisReport, EnvFileAnalysis } from '../../modules/sync-logic.js';
+import { EnvDocument } from '../../modules/env-document.js';
+import { describeLeak, findLeaks, TEMPLATE_FILE } from '../../modules/leak-scanner.js';
+import { isGeneratedPlaceholder } from '../../modules/placeholders.js';
+import { displayValue } from '../../modules/secrets.js';
+import { EnvAnalysisReport } from '../../modules/sync-logic.js';
 import { createBackups } from '../../utils/backup.js';
 import { writeAtomic } from '../../utils/atomic-fs.js';
-import { colors } from '../../utils/ui.js';
-import { PendingAction, PromptApi, SyncCommandOptions } from './types.js';
+import { EnvFs, nodeFs } from '../../utils/env-fs.js';
+import { colors, consoleLogger } from '../../utils/ui.js';
+import {
+  KeyPlacement,
+  LoggerApi,
+  PendingAction,
+  PromptApi,
+  SyncActionType,
+  SyncApplyResult,
+  SyncCommandOptions,
+} from './types.js';
 
 interface ExecuteParams {
   cwd: string;
@@ -12,73 +24,236 @@ interface ExecuteParams {
   actions: PendingAction[];
   options: SyncCommandOptions;
   prompts: PromptApi;
+  logger?: LoggerApi;
+  fs?: EnvFs;
 }
 
+/**
+ * Interactive sync: print the plan, guard .env.example against leaks, confirm, then write.
+ */
 export async function executeSyncActions(params: ExecuteParams): Promise<void> {
-  const { cwd, report, actions, options, prompts } = params;
+  const { report, actions, options, prompts, logger = consoleLogger } = params;
 
   if (actions.length === 0) {
-    console.log(colors.green('All files are in sync! No actions needed.'));
+    logger.log(colors.green('All files are in sync! No actions needed.'));
+    return;
+  }
+
+  printPlan(actions, options, logger);
+  if (!(await guardTemplateLeaks(report, actions, options, prompts, logger))) {
+    logger.log('Aborted.');
     return;
   }
 
-  printPlan(actions);
   if (!options.yes) {
-    const shouldExecute = await prompts.confirm('Execute these changes?', true);
+    const shouldExecute = await prompts.confirm('Execute these changes?', true, {
+      topic: 'execute',
+    });
     if (!shouldExecute) {
-      console.log('Aborted.');
+      logger.log('Aborted.');
       return;
     }
   }
 
+  writeSyncActions({ ...params, logger });
+  logger.log('');
+  logger.log(colors.green('Sync completed successfully!'));
+}
+
+/**
+ * Apply planned actions without printing the plan or asking for confirmation. The leak guard
+ * still applies: it prompts unless `options.yes`, in which case only `allowLeaks` overrides it.
+ */
+export async function applySyncActions(params: ExecuteParams): Promise<SyncApplyResult> {
+  const { report, actions, options, prompts, logger = consoleLogger } = params;
+  if (actions.length === 0) {
+    return { applied: true, backupTimestamp: null, updatedFiles: [], failures: [] };
+  }
+
+  if (!(await guardTemplateLeaks(report, actions, options, prompts, logger))) {
+    return { applied: false, backupTimestamp: null, updatedFiles: [], failures: [] };
+  }
+  return writeSyncActions({ ...params, logger });
+}
+
+function writeSyncActions(params: ExecuteParams & { logger: LoggerApi }): SyncApplyResult {
+  const { cwd, report, actions, options, logger, fs = nodeFs } = params;
+  const result: SyncApplyResult = {
+    applied: true,
+    backupTimestamp: null,
+    updatedFiles: [],
+    failures: [],
+  };
+
   if (!options.noBackup) {
     const filesToBackup = Array.from(new Set(actions.map(a => path.join(cwd, a.file))));
-    const backupTimestamp = createBackups(filesToBackup, cwd);
-    if (backupTimestamp) {
-      console.log(colors.dim(`✓ Backup created (timestamp: ${backupTimestamp})`));
+    result.backupTimestamp = createBackups(filesToBackup, cwd, fs);
+    if (result.backupTimestamp) {
+      logger.log(colors.dim(`✓ Backup created (timestamp: ${result.backupTimestamp})`));
     }
   }
 
+  const sourceFile = report.files.find(file => file.fileName === report.sourceOfTruth);
+  const sourceDocument = sourceFile ? EnvDocument.parse(sourceFile.content) : null;
+  const placement = options.placement || 'mirror';
+
   for (const [fileName, fileActions] of groupActionsByFile(actions)) {
     const filePath = path.join(cwd, fileName);
     const originalFile = report.files.find(file => file.fileName === fileName);
-    const entries = Array.from(new Map(fileActions.map(a => [a.key, a.value])));
-    const keysToAdd = entries.map(([key]) => key);
-    const values = new Map(entries);
-    let newContent = EnvFileAnalysis.mergeContent(
-      originalFile?.content || '',
-      keysToAdd,
-      key => values.get(key) || ''
-    );
-
-    // Ensure file ends with newline (POSIX standard)
-    // Only add newline if there's actual content (avoid creating empty files with just a newline)
-    if (newContent.length > 0 && !newContent.endsWith('\n')) {
-      newContent += '\n';
-    }
 
     try {
-      writeAtomic(filePath, newContent, { mode: readMode(filePath) });
-      console.log(colors.green(`✓ Updated ${fileName}`));
+      const document = EnvDocument.parse(originalFile?.content || '');
+      const uniqueActions = Array.from(new Map(fileActions.map(a => [a.key, a])).values());
+      for (const action of orderBySource(uniqueActions, sourceDocument)) {
+        if (action.action === 'add') {
+          addKey(
+            document,
+            action,
+            fileName === report.sourceOfTruth ? null : sourceDocument,
+            placement
+          );
+        } else {
+          applyAction(document, action);
+        }
+      }
+      let newContent = document.toString();
+
+      // Ensure file ends with newline (POSIX standard)
+      // Only add newline if there's actual content (avoid creating empty files with just a newline)
+      if (newContent.length > 0 && !newContent.endsWith('\n')) {
+        newContent += document.eol;
+      }
+
+      writeAtomic(filePath, newContent, { mode: readMode(filePath, fs), fs });
+      result.updatedFiles.push(fileName);
+      logger.log(colors.green(`✓ Updated ${fileName}`));
     } catch (error) {
-      console.error(
-        colors.red(`Failed to update ${fileName}:`),
-        error instanceof Error ? error.message : String(error)
-      );
+      const message = error instanceof Error ? error.message : String(error);
+      result.failures.push({ file: fileName, error: message });
+      logger.error(`${colors.red(`Failed to update ${fileName}:`)} ${message}`);
     }
   }
 
-  console.log('');
-  console.log(colors.green('Sync completed successfully!'));
+  return result;
+}
+
+function addKey(
+  document: EnvDocument,
+  action: PendingAction,
+  sourceDocument: EnvDocument | null,
+  placement: KeyPlacement
+): void {
+  if (placement === 'block') {
+    document.appendToAddedBlock(action.key, action.value, action.comment);
+  } else if (sourceDocument) {
+    document.insertMirroring(sourceDocument, action.key, action.value, action.comment);
+  } else {
+    document.append(action.key, action.value, action.comment);
+  }
+}
+
+function applyAction(document: EnvDocument, action: PendingAction): void {
+  switch (action.action) {
+    case 'add':
+      document.append(action.key, action.value, action.comment);
+      break;
+    case 'update':
+      document.updateValue(action.key, action.value);
+      break;
+    case 'remove':
+      document.remove(action.key);
+      break;
+    case 'comment-out':
+      document.commentOut(action.key);
+      break;
+  }
 }
 
-function printPlan(actions: PendingAction[]): void {
-  console.log('');
-  console.log(colors.bold('Plan:'));
+const PLAN_SYMBOLS: Record<SyncActionType, string> = {
+  add: colors.green('+'),
+  update: colors.yellow('~'),
+  remove: colors.red('-'),
+  'comment-out': colors.yellow('#'),
+};
+
+/** Print the actions as a +/~/-/# list, masking secret values unless `showSecrets`. */
+export function printPlan(
+  actions: PendingAction[],
+  options: SyncCommandOptions,
+  logger: LoggerApi
+): void {
+  logger.log('');
+  logger.log(colors.bold('Plan:'));
   actions.forEach(action => {
-    console.log(`  ${colors.green('+')} ${action.file}: ${action.key}=${colors.dim(action.value)}`);
+    const symbol = PLAN_SYMBOLS[action.action];
+    if (action.action === 'remove' || action.action === 'comment-out') {
+      logger.log(`  ${symbol} ${action.file}: ${action.key}`);
+      return;
+    }
+
+    const comment = action.comment ? colors.dim(` # ${action.comment}`) : '';
+    // Generated placeholders are safe to show even for secret-looking key names
+    const value = isGeneratedPlaceholder(
+      action.value,
+      { key: action.key },
+      options.placeholder?.template
+    )
+      ? action.value
+      : displayValue(action.key, action.value, options.showSecrets);
+    logger.log(`  ${symbol} ${action.file}: ${action.key}=${colors.dim(value)}${comment}`);
   });
-  console.log('');
+  logger.log('');
+}
+
+/**
+ * Refuse to write values into .env.example that look like real credentials.
+ * Interactive runs may confirm explicitly; with --yes only --allow-leaks overrides.
+ */
+async function guardTemplateLeaks(
+  report: EnvAnalysisReport,
+  actions: PendingAction[],
+  options: SyncCommandOptions,
+  prompts: PromptApi,
+  logger: LoggerApi
+): Promise<boolean> {
+  const values = actions
+    .filter(action => action.file === TEMPLATE_FILE)
+    .filter(action => action.action === 'add' || action.action === 'update')
+    .map(action => ({ key: action.key, value: action.value }));
+  const leaks = findLeaks(TEMPLATE_FILE, values, report.files, options.placeholder);
+  if (leaks.length === 0) return true;
+
+  logger.log(colors.red(`Possible secrets would be written to ${TEMPLATE_FILE}:`));
+  leaks.forEach(leak => logger.log(`  - ${leak.key}: ${describeLeak(leak)}`));
+
+  if (options.allowLeaks) {
+    logger.log(colors.yellow('Continuing because --allow-leaks was given.'));
+    return true;
+  }
+  if (options.yes) {
+    throw new Error(
+      `Refusing to write possible secrets to ${TEMPLATE_FILE}. Use --allow-leaks to override.`
+    );
+  }
+  return prompts.confirm(`Write these values to ${TEMPLATE_FILE} anyway?`, false, {
+    topic: 'template-leaks',
+    file: TEMPLATE_FILE,
+  });
+}
+
+/**
+ * Apply keys in source-of-truth order so each one finds its preceding neighbour already placed.
+ */
+function orderBySource(
+  actions: PendingAction[],
+  sourceDocument: EnvDocument | null
+): PendingAction[] {
+  if (!sourceDocument) return actions;
+  const position = (key: string) => {
+    const index = sourceDocument.indexOf(key);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+  return [...actions].sort((a, b) => position(a.key) - position(b.key));
 }
 
 function groupActionsByFile(actions: PendingAction[]): Map<string, PendingAction[]> {
@@ -91,11 +266,11 @@ function groupActionsByFile(actions: PendingAction[]): Map<string, PendingAction
 
 const SENSITIVE_FILE_PATTERN = /^\.env(\.|$)/;
 
-function readMode(filePath: string): number | undefined {
+function readMode(filePath: string, fs: EnvFs): number | undefined {
   const fileName = path.basename(filePath);
 
   // Security: For new sensitive files (excluding .env.example), enforce 0o600 permissions
-  if (!fs.existsSync(filePath)) {
+  if (!fs.exists(filePath)) {
     const isSensitive = SENSITIVE_FILE_PATTERN.test(fileName) && fileName !== '.env.example';
     if (isSensitive) {
       return 0o600;
@@ -105,7 +280,7 @@ function readMode(filePath: string): number | undefined {
 
   // For existing files, preserve their current permissions
   try {
-    return fs.statSync(filePath).mode;
+    return fs.stat(filePath).mode;
   } catch {
     return undefined;
   }
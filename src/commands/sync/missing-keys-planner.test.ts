@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test';
-import { EnvAnalysisReport, EnvFileInfo } from '../../modules/sync-logic.js';
+import { EnvAnalysisReport, EnvFileInfo, parseEnvLine } from '../../modules/sync-logic.js';
 import { planMissingKeyActions } from './missing-keys-planner.js';
 import { PromptApi } from './types.js';
 
@@ -7,6 +7,8 @@ function buildFile(fileName: string, values: Record<string, string>): EnvFileInf
   const parsedLines = Object.entries(values).map(([key, value]) => ({
     key,
     value,
+    rawValue: value,
+    unquotedValue: value,
     originalLine: `${key}=${value}`,
     isComment: false,
     isEmpty: false,
@@ -92,4 +94,86 @@ describe('missing-keys-planner', () => {
 
     expect(actions).toEqual([{ file: '.env', key: 'API_KEY', action: 'add', value: 'secret' }]);
   });
+
+  it('copies the unquoted value without the inline comment', async () => {
+    const source = buildFile('.env.example', {});
+    source.parsedLines = [parseEnvLine('API_URL="https://api.test/#v1" # public endpoint')];
+    source.keys = new Set(['API_URL']);
+    const report = buildReport([source, buildFile('.env', {})], { '.env': ['API_URL'] });
+
+    const actions = await planMissingKeyActions({
+      report,
+      sourceOfTruth: '.env.example',
+      prompts: promptMock(['copy']),
+    });
+
+    expect(actions).toEqual([
+      { file: '.env', key: 'API_URL', action: 'add', value: 'https://api.test/#v1' },
+    ]);
+  });
+
+  it('adds only the keys picked in the multiselect and masks secret values', async () => {
+    const report = buildReport(
+      [
+        buildFile('.env.example', { DB_HOST: 'db', DB_PORT: '5432', API_TOKEN: '' }),
+        buildFile('.env', {}),
+      ],
+      { '.env': ['DB_HOST', 'DB_PORT', 'API_TOKEN'] }
+    );
+    const masked: string[] = [];
+
+    const actions = await planMissingKeyActions({
+      report,
+      sourceOfTruth: '.env.example',
+      prompts: {
+        ...promptMock(['copy', 'input']),
+        multiselect: async <T>(_: string, choices: { value: T; checked?: boolean }[]) => {
+          expect(choices.every(choice => choice.checked)).toBe(true);
+          return choices.map(choice => choice.value).filter(value => value !== 'DB_PORT');
+        },
+        input: async () => 'plain',
+        password: async (_, context) => {
+          masked.push(context?.key || '');
+          return 'hidden';
+        },
+      },
+    });
+
+    expect(actions).toEqual([
+      { file: '.env', key: 'DB_HOST', action: 'add', value: 'db' },
+      { file: '.env', key: 'API_TOKEN', action: 'add', value: 'hidden' },
+    ]);
+    expect(masked).toEqual(['API_TOKEN']);
+  });
+
+  it('still offers to skip all keys when the multiselect keeps every key', async () => {
+    const keys = ['A', 'B', 'C', 'D', 'E', 'F'];
+    const report = buildReport([buildFile('.env.example', {}), buildFile('.env', {})], {
+      '.env': keys,
+    });
+    const offered: string[] = [];
+
+    const actions = await planMissingKeyActions({
+      report,
+      sourceOfTruth: '.env.example',
+      prompts: {
+        confirm: async () => true,
+        multiselect: async <T>(_: string, choices: { value: T }[]) =>
+          choices.map(choice => choice.value),
+        select: async <T>(message: string, choices: { value: T }[]) => {
+          offered.push(message, ...choices.map(choice => String(choice.value)));
+          return 'skip' as T;
+        },
+      },
+    });
+
+    expect(actions).toEqual([]);
+    expect(offered).toEqual([
+      'How do you want to handle 6 missing keys in .env?',
+      'all_empty',
+      'all_copy',
+      'ask',
+      'skip',
+    ]);
+  });
 });
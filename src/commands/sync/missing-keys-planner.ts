@@ -1,35 +1,50 @@
+import { displayValue, isSecret, isSecretKeyName } from '../../modules/secrets.js';
 import { EnvAnalysisReport } from '../../modules/sync-logic.js';
-import { colors } from '../../utils/ui.js';
-import { BulkDecision, PendingAction, PromptApi, PromptChoice } from './types.js';
+import { colors, consoleLogger } from '../../utils/ui.js';
+import {
+  BulkDecision,
+  LoggerApi,
+  PendingAction,
+  PromptApi,
+  PromptChoice,
+  PromptContext,
+} from './types.js';
 import { resolveValueForKey } from './value-resolution.js';
 
 interface MissingPlannerParams {
   report: EnvAnalysisReport;
   sourceOfTruth: string;
   yes?: boolean;
+  showSecrets?: boolean;
   prompts: PromptApi;
+  logger?: LoggerApi;
 }
 
 export async function planMissingKeyActions(
   params: MissingPlannerParams
 ): Promise<PendingAction[]> {
-  const { report, sourceOfTruth, yes, prompts } = params;
+  const { report, sourceOfTruth, yes, showSecrets, prompts, logger = consoleLogger } = params;
   const actions: PendingAction[] = [];
 
   for (const [fileName, missing] of Object.entries(report.missingKeys)) {
     if (!missing.length) continue;
-    console.log(colors.bold(`${fileName} is missing ${missing.length} keys:`));
+    logger.log(colors.bold(`${fileName} is missing ${missing.length} keys:`));
 
-    const bulk = await chooseBulkDecision(fileName, missing.length, yes, prompts);
+    const keys = await chooseKeys(fileName, missing, yes, prompts);
+    if (!keys.length) continue;
+
+    const picked = keys.length < missing.length;
+    const bulk = await chooseBulkDecision(fileName, keys.length, yes, prompts, picked);
     if (bulk === 'skip') continue;
 
-    for (const key of missing) {
+    for (const key of keys) {
       const value = await resolveValueToAdd({
         report,
         sourceOfTruth,
         fileName,
         key,
         bulk,
+        showSecrets,
         prompts,
       });
 
@@ -41,23 +56,45 @@ export async function planMissingKeyActions(
   return actions;
 }
 
+/**
+ * With a checkbox prompt, the user picks the keys to add in one screen (all checked
+ * initially); the bulk decision then applies to that subset only.
+ */
+async function chooseKeys(
+  fileName: string,
+  missing: string[],
+  yes: boolean | undefined,
+  prompts: PromptApi
+): Promise<string[]> {
+  if (yes || !prompts.multiselect || missing.length < 2) return missing;
+
+  return prompts.multiselect<string>(
+    `Which keys should be added to ${fileName}?`,
+    missing.map(key => ({ title: key, value: key, checked: true })),
+    { topic: 'missing-keys', file: fileName }
+  );
+}
+
 async function chooseBulkDecision(
   fileName: string,
   missingCount: number,
   yes: boolean | undefined,
-  prompts: PromptApi
+  prompts: PromptApi,
+  picked = false
 ): Promise<BulkDecision> {
   if (yes) return 'all_empty';
   if (missingCount <= 5) return 'ask';
 
+  const noun = picked ? 'selected' : 'missing';
   return prompts.select<BulkDecision>(
-    `How do you want to handle ${missingCount} missing keys in ${fileName}?`,
-    [
+    `How do you want to handle ${missingCount} ${noun} keys in ${fileName}?`,
+    compactChoices<BulkDecision>([
       { title: 'Add all (empty values)', value: 'all_empty' },
       { title: 'Add all (copy from source if possible)', value: 'all_copy' },
       { title: 'Review one by one', value: 'ask' },
-      { title: 'Skip all', value: 'skip' },
-    ]
+      picked ? null : { title: 'Skip all', value: 'skip' },
+    ]),
+    { topic: 'missing-keys', file: fileName }
   );
 }
 
@@ -67,30 +104,47 @@ async function resolveValueToAdd(params: {
   fileName: string;
   key: string;
   bulk: BulkDecision;
+  showSecrets?: boolean;
   prompts: PromptApi;
 }): Promise<string | null> {
-  const { report, sourceOfTruth, fileName, key, bulk, prompts } = params;
+  const { report, sourceOfTruth, fileName, key, bulk, showSecrets, prompts } = params;
   const resolved = resolveValueForKey(report, sourceOfTruth, key);
 
   if (bulk === 'all_empty') return '';
   if (bulk === 'all_copy') return resolved?.value || '';
 
-  const action = await prompts.select<'empty' | 'copy' | 'skip'>(
+  const context: PromptContext = {
+    topic: 'missing-key',
+    file: fileName,
+    key,
+    value: resolved?.value,
+    sourceFile: resolved?.sourceFile,
+  };
+  const action = await prompts.select<'empty' | 'copy' | 'input' | 'skip'>(
     `Add ${colors.green(key)} to ${fileName}?`,
     compactChoices([
       { title: `Add empty (${key}=)`, value: 'empty' },
       resolved?.value
         ? {
-            title: `Copy from ${resolved.sourceFile} (${key}=${resolved.value})`,
+            title: `Copy from ${resolved.sourceFile} (${key}=${displayValue(key, resolved.value, showSecrets)})`,
             value: 'copy',
           }
         : null,
+      prompts.input ? { title: 'Enter a value', value: 'input' } : null,
       { title: 'Skip', value: 'skip' },
-    ])
+    ]),
+    context
   );
 
   if (action === 'skip') return null;
   if (action === 'copy') return resolved?.value || '';
+  if (action === 'input' && prompts.input) {
+    const message = `Value for ${colors.green(key)} in ${fileName}:`;
+    const secret = isSecretKeyName(key) || isSecret(key, resolved?.value || '');
+    return secret && prompts.password
+      ? prompts.password(message, context)
+      : prompts.input(message, context);
+  }
   return '';
 }
 
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'bun:test';
+import path from 'path';
+import { applyPlan, loadPlanFile, planSync } from '../../modules/api.js';
+import { MemoryFs } from '../../utils/env-fs.js';
+import { createPlanFile, findChangedFiles, parsePlanFile, serializePlanFile } from './plan-file.js';
+
+const cwd = path.resolve('/project');
+const file = (name: string) => path.join(cwd, name);
+
+const createMemory = () =>
+  new MemoryFs({
+    [file('.env')]: 'PORT=3000\nAPI_URL=http://localhost\n',
+    [file('.env.local')]: 'PORT=4000\n',
+  });
+
+describe('plan files', () => {
+  it('round-trips a plan and applies it when the files are unchanged', async () => {
+    const memory = createMemory();
+    const plan = await planSync({ cwd, source: '.env', fs: memory });
+    const planFile = createPlanFile(plan, new Date('2024-01-01T00:00:00Z'));
+
+    expect(planFile.createdAt).toBe('2024-01-01T00:00:00.000Z');
+    expect(Object.keys(planFile.files)).toEqual(['.env', '.env.local', '.env.example']);
+    expect(planFile.files['.env.example']).toBeNull();
+    expect(parsePlanFile(serializePlanFile(planFile))).toEqual(planFile);
+
+    const loaded = loadPlanFile(planFile, { cwd, fs: memory });
+    expect(loaded.actions).toEqual(plan.actions);
+    await applyPlan(loaded, { noBackup: true, fs: memory });
+    expect(memory.readFile(file('.env.local'))).toBe('PORT=4000\nAPI_URL=\n');
+  });
+
+  it('refuses a plan when a file changed, appeared or disappeared', async () => {
+    const memory = createMemory();
+    const planFile = createPlanFile(await planSync({ cwd, source: '.env', fs: memory }));
+
+    memory.writeFile(file('.env.local'), 'PORT=5000\n');
+    memory.writeFile(file('.env.example'), 'PORT=\n');
+    memory.unlink(file('.env'));
+
+    expect(findChangedFiles(planFile, cwd, memory)).toEqual(['.env', '.env.local', '.env.example']);
+    expect(() => loadPlanFile(planFile, { cwd, fs: memory })).toThrow(/Plan is out of date/);
+  });
+
+  it('rejects malformed plans and paths outside the project', () => {
+    const valid = {
+      version: 1,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      sourceOfTruth: '.env',
+      files: { '.env.local': null },
+      actions: [{ file: '.env.local', key: 'A', action: 'add', value: '' }],
+    };
+    const parse = (overrides: object) => () =>
+      parsePlanFile(JSON.stringify({ ...valid, ...overrides }));
+
+    expect(parse({})).not.toThrow();
+    expect(() => parsePlanFile('{')).toThrow(/Invalid plan file/);
+    expect(parse({ version: 2 })).toThrow(/unsupported version/);
+    expect(parse({ files: { '../.env': null } })).toThrow(/outside the project/);
+    expect(parse({ files: { '/etc/.env': null } })).toThrow(/outside the project/);
+    expect(parse({ files: { '.env.local': 'abc' } })).toThrow(/sha256/);
+    expect(parse({ actions: [{ ...valid.actions[0], file: '.env' }] })).toThrow(/actions\[0\]/);
+    expect(parse({ actions: [{ ...valid.actions[0], action: 'delete' }] })).toThrow(
+      /must be one of/
+    );
+  });
+});
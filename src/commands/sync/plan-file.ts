@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import path from 'path';
+import { EnvFs, nodeFs } from '../../utils/env-fs.js';
+import { PendingAction, SyncActionType, SyncPlan, SyncPlanFile } from './types.js';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const PLAN_FILE_VERSION = 1;
+
+const ACTION_TYPES: readonly SyncActionType[] = ['add', 'update', 'remove', 'comment-out'];
+
+// ============================================================================
+// CREATING PLAN FILES
+// ============================================================================
+
+/**
+ * Snapshot a plan for review. Every file the plan was computed from is hashed, and every
+ * file it would create is recorded as absent, so `findChangedFiles` can tell when the plan
+ * no longer matches the files on disk.
+ */
+export function createPlanFile(plan: SyncPlan, createdAt: Date = new Date()): SyncPlanFile {
+  const files: Record<string, string | null> = {};
+  plan.report.files.forEach(file => {
+    files[file.fileName] = hashContent(file.content);
+  });
+  plan.actions.forEach(action => {
+    if (!(action.file in files)) files[action.file] = null;
+  });
+
+  return {
+    version: PLAN_FILE_VERSION,
+    createdAt: createdAt.toISOString(),
+    sourceOfTruth: plan.sourceOfTruth,
+    files,
+    actions: plan.actions,
+  };
+}
+
+export function serializePlanFile(planFile: SyncPlanFile): string {
+  return JSON.stringify(planFile, null, 2) + '\n';
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+// ============================================================================
+// READING PLAN FILES
+// ============================================================================
+
+/**
+ * Parse and check a plan file. File names must stay inside the project directory, so a
+ * tampered plan cannot write elsewhere.
+ */
+export function parsePlanFile(content: string, origin = 'plan file'): SyncPlanFile {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid ${origin}: ${message}`);
+  };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+  if (!isObject(raw)) return fail('expected an object');
+
+  if (raw.version !== PLAN_FILE_VERSION) {
+    fail(`unsupported version '${raw.version}', expected ${PLAN_FILE_VERSION}`);
+  }
+  if (typeof raw.createdAt !== 'string') fail("'createdAt' must be a string");
+  if (typeof raw.sourceOfTruth !== 'string') fail("'sourceOfTruth' must be a string");
+  if (!isObject(raw.files)) return fail("'files' must be an object");
+
+  const files: Record<string, string | null> = {};
+  for (const [fileName, hash] of Object.entries(raw.files)) {
+    if (!isProjectFile(fileName)) fail(`file '${fileName}' is outside the project directory`);
+    if (hash !== null && (typeof hash !== 'string' || !/^[0-9a-f]{64}$/.test(hash))) {
+      fail(`'files.${fileName}' must be a sha256 hash or null`);
+    }
+    files[fileName] = hash as string | null;
+  }
+
+  if (!Array.isArray(raw.actions)) return fail("'actions' must be an array");
+  const actions = raw.actions.map((action, index): PendingAction => {
+    const name = `actions[${index}]`;
+    if (!isObject(action)) return fail(`'${name}' must be an object`);
+    if (typeof action.file !== 'string' || !(action.file in files)) {
+      fail(`'${name}.file' must be one of the files in 'files'`);
+    }
+    if (typeof action.key !== 'string' || action.key === '') {
+      fail(`'${name}.key' must be a non-empty string`);
+    }
+    if (!ACTION_TYPES.includes(action.action as SyncActionType)) {
+      fail(`'${name}.action' must be one of: ${ACTION_TYPES.join(', ')}`);
+    }
+    if (typeof action.value !== 'string') fail(`'${name}.value' must be a string`);
+    if (action.comment !== undefined && typeof action.comment !== 'string') {
+      fail(`'${name}.comment' must be a string`);
+    }
+
+    return {
+      file: action.file as string,
+      key: action.key as string,
+      action: action.action as SyncActionType,
+      value: action.value as string,
+      ...(action.comment !== undefined && { comment: action.comment as string }),
+    };
+  });
+
+  return {
+    version: PLAN_FILE_VERSION,
+    createdAt: raw.createdAt as string,
+    sourceOfTruth: raw.sourceOfTruth as string,
+    files,
+    actions,
+  };
+}
+
+/**
+ * Files whose content no longer matches the hash in the plan, including files that were
+ * created or deleted since.
+ */
+export function findChangedFiles(
+  planFile: SyncPlanFile,
+  cwd: string,
+  fs: EnvFs = nodeFs
+): string[] {
+  return Object.entries(planFile.files)
+    .filter(([fileName, expected]) => {
+      const filePath = path.join(cwd, fileName);
+      const actual = fs.exists(filePath) ? hashContent(fs.readFile(filePath)) : null;
+      return actual !== expected;
+    })
+    .map(([fileName]) => fileName);
+}
+
+function isProjectFile(fileName: string): boolean {
+  const normalized = path.normalize(fileName);
+  return (
+    fileName !== '' && !path.isAbsolute(normalized) && !normalized.split(/[\\/]/).includes('..')
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -24,7 +24,8 @@ export async function resolveSourceOfTruth(
       [
         ...report.files.map(file => ({ title: file.fileName, value: file.fileName })),
         { title: 'None (Union of all keys)', value: '' },
-      ]
+      ],
+      { topic: 'source-of-truth' }
     );
   }
 
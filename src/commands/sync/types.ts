@@ -1,32 +1,105 @@
 import type { EnvAnalysisReport } from '../../modules/sync-logic.js';
+import type { KeyPlacement, PlaceholderConfig } from '../../utils/config.js';
+
+export type { KeyPlacement } from '../../utils/config.js';
 
 export interface SyncCommandOptions {
   noBackup?: boolean;
   yes?: boolean;
   json?: boolean;
   source?: string;
+  placement?: KeyPlacement;
+  include?: string[];
+  exclude?: string[];
+  placeholder?: PlaceholderConfig;
+  ignoreKeys?: string[];
+  showSecrets?: boolean; // print secret values instead of masking them
+  allowLeaks?: boolean; // write secret-looking values to .env.example without asking
+  planOut?: string; // write the plan to this file instead of applying it
+  answers?: string; // answer prompts from this answers file instead of asking
 }
 
+export type SyncActionType = 'add' | 'update' | 'remove' | 'comment-out';
+
 export interface PendingAction {
   file: string;
   key: string;
-  action: 'add';
-  value: string;
+  action: SyncActionType;
+  value: string; // unused for 'remove' and 'comment-out'
+  comment?: string;
 }
 
 export type BulkDecision = 'all_empty' | 'all_copy' | 'ask' | 'skip';
 
+export type OrphanDecision = 'promote' | 'remove' | 'comment-out' | 'keep';
+
 export interface PromptChoice<T = string> {
   title: string;
   value: T;
+  checked?: boolean; // initially checked, for multiselect
+}
+
+export type PromptTopic =
+  | 'source-of-truth'
+  | 'missing-keys' // how to handle all missing keys of one file
+  | 'missing-key'
+  | 'create-example'
+  | 'refresh-placeholders'
+  | 'orphan-keys'
+  | 'execute'
+  | 'template-leaks';
+
+/** What a prompt is about, so scripted answers need not match on the message text. */
+export interface PromptContext {
+  topic: PromptTopic;
+  file?: string; // the file that would change
+  key?: string;
+  value?: string; // the Source of Truth value of `key`, when there is one
+  sourceFile?: string; // the file `value` was read from
 }
 
 export interface PromptApi {
-  confirm(message: string, initial?: boolean): Promise<boolean>;
-  select<T>(message: string, choices: PromptChoice<T>[]): Promise<T>;
+  confirm(message: string, initial?: boolean, context?: PromptContext): Promise<boolean>;
+  select<T>(message: string, choices: PromptChoice<T>[], context?: PromptContext): Promise<T>;
+  input?(message: string, context?: PromptContext): Promise<string>; // enables custom values
+  multiselect?<T>(
+    message: string,
+    choices: PromptChoice<T>[],
+    context?: PromptContext
+  ): Promise<T[]>;
+  password?(message: string, context?: PromptContext): Promise<string>; // masked input for secrets
+}
+
+/** Where progress messages go; the CLI prints them, library callers may pass their own. */
+export interface LoggerApi {
+  log(message: string): void;
+  error(message: string): void;
 }
 
 export interface SourceResolutionResult {
   report: EnvAnalysisReport;
   sourceOfTruth: string;
 }
+
+export interface SyncPlan {
+  cwd: string;
+  report: EnvAnalysisReport;
+  sourceOfTruth: string; // '' for the union of all files
+  actions: PendingAction[];
+}
+
+export interface SyncApplyResult {
+  applied: boolean; // false when the leak guard was declined
+  backupTimestamp: string | null;
+  updatedFiles: string[];
+  failures: Array<{ file: string; error: string }>;
+}
+
+/** A sync plan saved for review (`sync --plan-out`) and applied later (`apply`). */
+export interface SyncPlanFile {
+  version: number;
+  createdAt: string; // ISO 8601
+  sourceOfTruth: string;
+  files: Record<string, string | null>; // file name -> sha256 of its content, null if absent
+  actions: PendingAction[];
+}
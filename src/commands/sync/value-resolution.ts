@@ -13,13 +13,61 @@ export function resolveValueForKey(
   if (sourceOfTruth) {
     const sourceFile = report.files.find(file => file.fileName === sourceOfTruth);
     const match = sourceFile?.parsedLines.find(parsed => parsed.key === key);
-    return match ? { sourceFile: sourceOfTruth, value: match.value } : null;
+    return match ? { sourceFile: sourceOfTruth, value: match.unquotedValue } : null;
   }
 
   for (const file of report.files) {
     const match = file.parsedLines.find(parsed => parsed.key === key);
     if (match) {
-      return { sourceFile: file.fileName, value: match.value };
+      return { sourceFile: file.fileName, value: match.unquotedValue };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the inline comment documenting a key, preferring the source of truth
+ * and falling back to the first file that has one.
+ */
+export function resolveCommentForKey(
+  report: EnvAnalysisReport,
+  sourceOfTruth: string,
+  key: string
+): string | undefined {
+  const ordered = [
+    ...report.files.filter(file => file.fileName === sourceOfTruth),
+    ...report.files.filter(file => file.fileName !== sourceOfTruth),
+  ];
+
+  for (const file of ordered) {
+    const match = file.parsedLines.find(parsed => parsed.key === key && parsed.inlineComment);
+    if (match) {
+      return match.inlineComment;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the real value behind a key for placeholder generation, preferring `preferredFile`
+ * and never reading from .env.example itself.
+ */
+export function resolveRealValueForKey(
+  report: EnvAnalysisReport,
+  preferredFile: string,
+  key: string
+): ResolvedValue | null {
+  const ordered = [
+    ...report.files.filter(file => file.fileName === preferredFile),
+    ...report.files.filter(file => file.fileName !== preferredFile),
+  ].filter(file => file.fileName !== '.env.example');
+
+  for (const file of ordered) {
+    const match = file.parsedLines.find(parsed => parsed.key === key);
+    if (match) {
+      return { sourceFile: file.fileName, value: match.unquotedValue };
     }
   }
 
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  EnvSchema,
+  loadProjectSchema,
+  mergeEnvSchemas,
+  parseKeyDescriptions,
+} from '../modules/env-schema.js';
+import { TEMPLATE_FILE } from '../modules/leak-scanner.js';
+import { EnvFileAnalysis, ParsedEnvLine } from '../modules/sync-logic.js';
+import { DEFAULT_TYPES_FILE, generateEnvTypes } from '../modules/type-generator.js';
+import { colors } from '../utils/ui.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TypesOptions {
+  output?: string; // default: env.d.ts
+  check?: boolean;
+  importMeta?: boolean | string; // true for Vite's VITE_ prefix, or a custom prefix
+  source?: string;
+  include?: string[];
+  exclude?: string[];
+  ignoreKeys?: string[];
+  schema?: string | EnvSchema; // path or inline schema from config
+}
+
+/** Exit code when `--check` finds the declaration file out of date. */
+export const TYPES_OUTDATED_EXIT_CODE = 2;
+
+// ============================================================================
+// TYPES OPERATION
+// ============================================================================
+
+/**
+ * Write a declaration file for the Source of Truth keys, typed and documented from the
+ * env schema where one exists. With `check`, only compare it with the file on disk.
+ * Returns the exit code for the caller to use.
+ */
+export function runTypes(options: TypesOptions = {}): number {
+  const cwd = process.cwd();
+  const report = new EnvFileAnalysis(cwd, {
+    include: options.include,
+    exclude: options.exclude,
+    ignoreKeys: options.ignoreKeys,
+  }).analyze({ sourceOfTruth: options.source });
+
+  const sourceFile = report.files.find(file => file.fileName === report.sourceOfTruth);
+  const keys = sourceFile ? sourceFile.keys : report.allKeys;
+  const template = report.files.find(file => file.fileName === TEMPLATE_FILE);
+  const loaded = loadProjectSchema(cwd, template, options.schema);
+  const schema = withDescriptions(loaded?.schema || null, template?.parsedLines || [], keys);
+
+  const content = generateEnvTypes(keys, schema, {
+    importMeta: options.importMeta,
+    source: sourceFile ? sourceFile.fileName : undefined,
+  });
+
+  const output = options.output || DEFAULT_TYPES_FILE;
+  const outputPath = path.resolve(cwd, output);
+  const current = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, 'utf-8') : null;
+
+  if (options.check) {
+    if (current === content) {
+      console.log(colors.green(`${output} is up to date.`));
+      return 0;
+    }
+    console.log(
+      colors.red(`${output} is ${current === null ? 'missing' : 'out of date'}.`) +
+        ` Run 'env-twin types' to update it.`
+    );
+    return TYPES_OUTDATED_EXIT_CODE;
+  }
+
+  if (current === content) {
+    console.log(`${output} is already up to date.`);
+    return 0;
+  }
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, content);
+  const from = sourceFile ? ` from ${sourceFile.fileName}` : ' from the union of all files';
+  const schemaNote = loaded ? ` with types from ${loaded.origin}` : '';
+  console.log(colors.green(`Wrote ${output}${from}${schemaNote}.`));
+  return 0;
+}
+
+/**
+ * Plain comments in the template document keys even when it has no annotation tags.
+ * Only keys that are declared anyway get one, so comments add no new properties.
+ */
+function withDescriptions(
+  schema: EnvSchema | null,
+  templateLines: ParsedEnvLine[],
+  keys: Set<string>
+): EnvSchema | null {
+  const descriptions = parseKeyDescriptions(templateLines).keys;
+  const declared = Object.keys(descriptions).filter(key => keys.has(key) || schema?.keys[key]);
+  if (declared.length === 0) return schema;
+
+  const documented = { keys: Object.fromEntries(declared.map(key => [key, descriptions[key]])) };
+  return schema ? mergeEnvSchemas(documented, schema) : documented;
+}
@@ -0,0 +1,77 @@
+import path from 'path';
+import { TEMPLATE_FILE } from '../modules/leak-scanner.js';
+import { loadEnvFile } from '../modules/sync-logic.js';
+import { compareUsage, KeyUsage, scanSourceUsages } from '../modules/usage-scanner.js';
+import { colors } from '../utils/ui.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UsageOptions {
+  json?: boolean;
+  include?: string[]; // source file glob patterns
+  exclude?: string[];
+  ignoreKeys?: string[];
+}
+
+/** Exit code when used keys are undeclared or declared keys are unused. */
+export const USAGE_DRIFT_EXIT_CODE = 2;
+
+// ============================================================================
+// USAGE OPERATION
+// ============================================================================
+
+/**
+ * Compare the keys declared in .env.example with the keys the source code reads.
+ * Read-only; returns the exit code for the caller to use.
+ */
+export function runUsage(options: UsageOptions = {}): number {
+  const cwd = process.cwd();
+  const declaredFile = TEMPLATE_FILE;
+  const declared = loadEnvFile(path.resolve(cwd, declaredFile));
+  if (!declared.exists) {
+    console.error(colors.red(`${declaredFile} not found; it lists the keys the code may use.`));
+    return 1;
+  }
+
+  const usages = scanSourceUsages(cwd, { include: options.include, exclude: options.exclude });
+  const report = compareUsage(declaredFile, declared.parsedLines, usages, options.ignoreKeys);
+  const undeclaredKeys = Object.keys(report.undeclared);
+  const exitCode =
+    undeclaredKeys.length > 0 || report.unused.length > 0 ? USAGE_DRIFT_EXIT_CODE : 0;
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...report, exitCode }, null, 2));
+    return exitCode;
+  }
+
+  const location = (usage: KeyUsage) => `${usage.file}:${usage.line}`;
+  const files = new Set(usages.map(usage => usage.file)).size;
+  console.log(`Scanned ${files} file(s) with env lookups against ${colors.bold(declaredFile)}.`);
+  console.log('');
+
+  if (undeclaredKeys.length > 0) {
+    console.log(colors.red(`Used but missing from ${declaredFile} (${undeclaredKeys.length}):`));
+    undeclaredKeys.forEach(key => {
+      console.log(`  ${colors.bold(key)}  ${report.undeclared[key].map(location).join(', ')}`);
+    });
+    console.log('');
+  }
+
+  if (report.unused.length > 0) {
+    console.log(
+      colors.yellow(`Declared in ${declaredFile} but never used (${report.unused.length}):`)
+    );
+    report.unused.forEach(usage => {
+      console.log(`  ${colors.bold(usage.key)}  ${location(usage)}`);
+    });
+    console.log('');
+  }
+
+  if (exitCode === 0) {
+    console.log(colors.green(`${declaredFile} matches the keys the code uses.`));
+  }
+
+  return exitCode;
+}
@@ -0,0 +1,76 @@
+import { EnvSchema, loadProjectSchema, SCHEMA_FILE } from '../modules/env-schema.js';
+import { formatIssue, validateEnvFile, ValidationIssue } from '../modules/env-validator.js';
+import { TEMPLATE_FILE } from '../modules/leak-scanner.js';
+import { EnvFileAnalysis } from '../modules/sync-logic.js';
+import { colors } from '../utils/ui.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ValidateOptions {
+  json?: boolean;
+  include?: string[];
+  exclude?: string[];
+  schema?: string | EnvSchema; // path or inline schema from config
+}
+
+/** Exit code when validation errors are found; 1 stays reserved for unexpected errors. */
+export const VALIDATION_FAILED_EXIT_CODE = 2;
+
+// ============================================================================
+// VALIDATE OPERATION
+// ============================================================================
+
+/**
+ * Check every discovered env file except the .env.example template against the schema.
+ * The schema comes from annotation comments in .env.example, overridden field by field
+ * by a schema file. Warnings are reported but only errors fail. Returns the exit code.
+ */
+export function runValidate(options: ValidateOptions = {}): number {
+  const cwd = process.cwd();
+  const report = new EnvFileAnalysis(cwd, {
+    include: options.include,
+    exclude: options.exclude,
+  }).analyze();
+  const template = report.files.find(file => file.fileName === TEMPLATE_FILE);
+  const loaded = loadProjectSchema(cwd, template, options.schema);
+  if (!loaded) {
+    console.error(
+      colors.red(
+        `No schema found. Create ${SCHEMA_FILE}, set "schema" in the config file ` +
+          `or annotate ${TEMPLATE_FILE} (e.g. '# @required @type=url').`
+      )
+    );
+    return 1;
+  }
+
+  const files = report.files.filter(file => file.fileName !== TEMPLATE_FILE);
+  const issues: ValidationIssue[] = files.flatMap(file => validateEnvFile(file, loaded.schema));
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const exitCode = errors.length > 0 ? VALIDATION_FAILED_EXIT_CODE : 0;
+
+  if (options.json) {
+    console.log(JSON.stringify({ schema: loaded.origin, issues, exitCode }, null, 2));
+    return exitCode;
+  }
+
+  console.log(`${colors.blue('Schema:')} ${colors.bold(loaded.origin)}`);
+  console.log(`Validated ${files.length} file(s).`);
+  console.log('');
+
+  issues.forEach(issue => {
+    const label = issue.severity === 'error' ? colors.red('error') : colors.yellow('warning');
+    console.log(`  ${label} ${formatIssue(issue)}`);
+  });
+  if (issues.length > 0) console.log('');
+
+  const warnings = issues.length - errors.length;
+  if (errors.length === 0) {
+    console.log(colors.green(`All files are valid${warnings ? ` (${warnings} warning(s))` : ''}.`));
+  } else {
+    console.log(colors.red(`${errors.length} error(s), ${warnings} warning(s).`));
+  }
+
+  return exitCode;
+}
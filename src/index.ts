@@ -1,6 +1,17 @@
 #!/usr/bin/env node
 import fs from 'fs';
 import path from 'path';
+import { MATRIX_FORMATS, MatrixFormat } from './modules/key-matrix.js';
+import { renderPlaceholder } from './modules/placeholders.js';
+import { formatEnvValue, parseEnvContent } from './modules/sync-logic.js';
+import {
+  DEFAULT_CONFIG,
+  EnvTwinConfig,
+  KeyPlacement,
+  loadConfigFile,
+  mergeConfigs,
+  readConfigFromEnv,
+} from './utils/config.js';
 
 // ============================================================================
 // TYPES AND INTERFACES
@@ -23,6 +34,25 @@ interface CliOptions {
   dryRun?: boolean;
   verbose?: boolean;
   json?: boolean;
+  placement?: KeyPlacement;
+  include?: string[];
+  exclude?: string[];
+  config?: string;
+  check?: boolean;
+  placeholder?: string;
+  showSecrets?: boolean;
+  allowLeaks?: boolean;
+  importMeta?: boolean;
+  mode?: string;
+  expand?: boolean;
+  unified?: boolean;
+  format?: MatrixFormat;
+  onlyProblems?: boolean;
+  prefix?: string;
+  planOut?: string;
+  answers?: string;
+  operands?: string[]; // positional file arguments, for `diff` and `apply`
+  commandArgs?: string[]; // everything after `--`, for `run`
 }
 
 interface ParsedArgs {
@@ -45,7 +75,24 @@ type FlagKey =
   | 'FORCE'
   | 'DRY_RUN'
   | 'VERBOSE'
-  | 'JSON';
+  | 'JSON'
+  | 'PLACEMENT'
+  | 'INCLUDE'
+  | 'EXCLUDE'
+  | 'CONFIG'
+  | 'CHECK'
+  | 'PLACEHOLDER'
+  | 'SHOW_SECRETS'
+  | 'ALLOW_LEAKS'
+  | 'IMPORT_META'
+  | 'MODE'
+  | 'EXPAND'
+  | 'UNIFIED'
+  | 'FORMAT'
+  | 'ONLY_PROBLEMS'
+  | 'PREFIX'
+  | 'PLAN_OUT'
+  | 'ANSWERS';
 
 const CLI_FLAGS: Record<FlagKey, readonly string[]> = {
   SOURCE: ['--source', '--src'],
@@ -63,8 +110,27 @@ const CLI_FLAGS: Record<FlagKey, readonly string[]> = {
   DRY_RUN: ['--dry-run', '--simulate'],
   VERBOSE: ['--verbose', '-V'],
   JSON: ['--json'],
+  PLACEMENT: ['--placement'],
+  INCLUDE: ['--include'],
+  EXCLUDE: ['--exclude'],
+  CONFIG: ['--config', '-c'],
+  CHECK: ['--check'],
+  PLACEHOLDER: ['--placeholder'],
+  SHOW_SECRETS: ['--show-secrets'],
+  ALLOW_LEAKS: ['--allow-leaks'],
+  IMPORT_META: ['--import-meta'],
+  MODE: ['--mode'],
+  EXPAND: ['--expand'],
+  UNIFIED: ['--unified', '-u'],
+  FORMAT: ['--format'],
+  ONLY_PROBLEMS: ['--only-problems'],
+  PREFIX: ['--prefix'],
+  PLAN_OUT: ['--plan-out'],
+  ANSWERS: ['--answers'],
 } as const;
 
+const KEY_PLACEMENTS: readonly KeyPlacement[] = ['mirror', 'block'];
+
 // ============================================================================
 // ARGUMENT PARSING
 // ============================================================================
@@ -88,6 +154,12 @@ function parseArgs(): ParsedArgs {
     const arg = args[i];
     const nextArg = args[i + 1];
 
+    // Everything after `--` belongs to the program started by `run`
+    if (arg === '--') {
+      params.commandArgs = args.slice(i + 1);
+      break;
+    }
+
     switch (true) {
       case CLI_FLAGS.SOURCE.includes(arg):
         if (!nextArg || nextArg.startsWith('-')) {
@@ -164,9 +236,125 @@ function parseArgs(): ParsedArgs {
         params.json = true;
         break;
 
+      case CLI_FLAGS.SHOW_SECRETS.includes(arg):
+        params.showSecrets = true;
+        break;
+
+      case CLI_FLAGS.ALLOW_LEAKS.includes(arg):
+        params.allowLeaks = true;
+        break;
+
+      case CLI_FLAGS.CHECK.includes(arg):
+        params.check = true;
+        break;
+
+      case CLI_FLAGS.IMPORT_META.includes(arg):
+        params.importMeta = true;
+        break;
+
+      case CLI_FLAGS.EXPAND.includes(arg):
+        params.expand = true;
+        break;
+
+      case CLI_FLAGS.UNIFIED.includes(arg):
+        params.unified = true;
+        break;
+
+      case CLI_FLAGS.ONLY_PROBLEMS.includes(arg):
+        params.onlyProblems = true;
+        break;
+
+      case CLI_FLAGS.PLACEMENT.includes(arg):
+        if (!nextArg || nextArg.startsWith('-')) {
+          throw new Error(`Missing value for ${arg} argument`);
+        }
+        if (!KEY_PLACEMENTS.includes(nextArg as KeyPlacement)) {
+          throw new Error(`Invalid value for ${arg}: must be one of ${KEY_PLACEMENTS.join(', ')}`);
+        }
+        params.placement = nextArg as KeyPlacement;
+        i++;
+        break;
+
+      case CLI_FLAGS.INCLUDE.includes(arg):
+        if (!nextArg || nextArg.startsWith('-')) {
+          throw new Error(`Missing value for ${arg} argument`);
+        }
+        params.include = [...(params.include || []), nextArg];
+        i++;
+        break;
+
+      case CLI_FLAGS.EXCLUDE.includes(arg):
+        if (!nextArg || nextArg.startsWith('-')) {
+          throw new Error(`Missing value for ${arg} argument`);
+        }
+        params.exclude = [...(params.exclude || []), nextArg];
+        i++;
+        break;
+
+      case CLI_FLAGS.PLACEHOLDER.includes(arg):
+        if (!nextArg || nextArg.startsWith('-')) {
+          throw new Error(`Missing value for ${arg} argument`);
+        }
+        params.placeholder = nextArg;
+        i++;
+        break;
+
+      case CLI_FLAGS.FORMAT.includes(arg):
+        if (!nextArg || nextArg.startsWith('-')) {
+          throw new Error(`Missing value for ${arg} argument`);
+        }
+        if (!MATRIX_FORMATS.includes(nextArg as MatrixFormat)) {
+          throw new Error(`Invalid value for ${arg}: must be one of ${MATRIX_FORMATS.join(', ')}`);
+        }
+        params.format = nextArg as MatrixFormat;
+        i++;
+        break;
+
+      case CLI_FLAGS.PREFIX.includes(arg):
+        if (!nextArg || nextArg.startsWith('-')) {
+          throw new Error(`Missing value for ${arg} argument`);
+        }
+        params.prefix = nextArg;
+        i++;
+        break;
+
+      case CLI_FLAGS.PLAN_OUT.includes(arg):
+        if (!nextArg || nextArg.startsWith('-')) {
+          throw new Error(`Missing value for ${arg} argument`);
+        }
+        params.planOut = nextArg;
+        i++;
+        break;
+
+      case CLI_FLAGS.ANSWERS.includes(arg):
+        if (!nextArg || nextArg.startsWith('-')) {
+          throw new Error(`Missing value for ${arg} argument`);
+        }
+        params.answers = nextArg;
+        i++;
+        break;
+
+      case CLI_FLAGS.MODE.includes(arg):
+        if (!nextArg || nextArg.startsWith('-')) {
+          throw new Error(`Missing value for ${arg} argument`);
+        }
+        params.mode = nextArg;
+        i++;
+        break;
+
+      case CLI_FLAGS.CONFIG.includes(arg):
+        if (!nextArg || nextArg.startsWith('-')) {
+          throw new Error(`Missing value for ${arg} argument`);
+        }
+        params.config = nextArg;
+        i++;
+        break;
+
       default:
         if (arg.startsWith('-')) {
           throw new Error(`Unknown option '${arg}'`);
+        } else if (command === 'diff' || command === 'apply') {
+          params.operands = [...(params.operands || []), arg];
         } else if (command === 'restore') {
           if (!params.timestamp) {
             params.timestamp = arg;
@@ -198,15 +386,41 @@ Usage: env-twin [command] [options]
 
 Commands:
   sync                  Synchronize environment variable keys across all .env* files
+  check                 Report drift between .env* files without changing them (same as sync --check)
+  apply <plan-file>     Apply a plan saved with sync --plan-out, if the files it was made from
+                        are unchanged
+  scan                  Look for real secrets in .env.example (exit code 2 when found)
+  validate              Check .env* files against .env.schema.json and .env.example annotations (exit 2 on errors)
+  types                 Generate env.d.ts for process.env (--out <file>, --import-meta for Vite,
+                        --check exits 2 when the file is out of date)
+  diff <a> <b>          Compare two env files key by key without printing values; operands may be
+                        backups (backup:<timestamp>/.env). --unified for a masked unified diff
+  status, matrix        Table of keys by file: present, missing, empty, placeholder or different
+                        from the source. --only-problems, --prefix <P>, --format
+                        <text|markdown|csv|html> and --out <file> for PR comments and docs
+  usage                 Compare keys read in source code with .env.example: used but undeclared
+                        and declared but unused keys, with file:line (exit code 2)
+  refs                  Check \${VAR} references for undefined names and cycles (exit code 2);
+                        --expand prints resolved values with secrets masked
+  run -- <command>      Run a command with .env, .env.local, .env.[mode] and .env.[mode].local
+                        loaded, later files winning (--mode <mode>, default: NODE_ENV)
   restore [timestamp]   Restore .env* files from a backup (auto-selects most recent if no timestamp)
   clean-backups         Delete old backups, keeping the most recent ones
 
 Options:
   --source, --src       Source .env file path (default: .env)
   --dest, --destination Destination .env.example file path (default: .env.example)
+  --placeholder <tmpl>  Placeholder template (default: input_{key_lower}). Variables: {key},
+                        {key_lower}, {key_upper}, {type}, {source_file}
+  --config, -c <path>   Use a specific config file instead of searching for one
   --help, -h            Display this help message
   --version, -v         Display version information
 
+Configuration:
+  Settings are read from .env-twinrc.json, .env-twinrc.yaml, env-twin.config.ts/js
+  or the "env-twin" field in package.json. Precedence: CLI flags, then ENV_TWIN_*
+  environment variables, then the config file, then defaults.
+
 Enhanced Restore Features:
   ✅ Automatic backup discovery - no timestamp needed!
   ✅ Backup validation and integrity checks
@@ -218,9 +432,19 @@ Enhanced Restore Features:
 Examples:
   env-twin --src .env.development --destination .env.dev.example
   env-twin sync
+  env-twin sync --plan-out plan.json && env-twin apply plan.json
   env-twin restore                    # Automatically restore most recent backup
   env-twin restore 20241125-143022   # Restore specific backup
   env-twin clean-backups --keep 5
+  env-twin scan
+  env-twin validate --json
+  env-twin types --import-meta --out src/env.d.ts
+  env-twin diff .env backup:latest/.env
+  env-twin status --only-problems
+  env-twin matrix --format markdown --out docs/env-matrix.md
+  env-twin usage
+  env-twin refs --expand
+  env-twin run --mode staging -- node server.js
 `
   );
 }
@@ -237,13 +461,32 @@ Options:
   --yes, -y             Skip confirmation prompts (auto-accept non-destructive actions)
   --source, --src       Specify the "Source of Truth" file (keys synced FROM this file)
   --json                Output analysis report in JSON format (AI friendly)
+  --check               Only report missing keys, orphans and parse errors, then exit non-zero
+                        on drift: 2 = missing keys, 4 = orphans, 8 = parse errors (added together).
+                        Never prompts, writes files, creates backups or touches .gitignore
+  --placement <mode>    Where new keys go: 'mirror' (default) places them like the Source of Truth,
+                        'block' appends them under a '# Added by env-twin' comment
+  --placeholder <tmpl>  Template for .env.example placeholders (default: input_{key_lower})
+  --include <glob>      Also sync files matching this pattern (repeatable, e.g. 'env/*.env')
+  --exclude <glob>      Skip files matching this pattern (repeatable, e.g. '.env.*.local')
+  --show-secrets        Print secret values instead of masking them in the plan, prompts and JSON
+  --allow-leaks         Write values that look like real secrets to .env.example without asking
+  --plan-out <file>     Save the planned changes with hashes of the files they were made from,
+                        instead of applying them. Apply later with: env-twin apply <file>
+  --answers <file>      Decide missing keys from a JSON or YAML answers file instead of asking:
+                        rules map key and file globs to empty, copy, skip, value or template
   --help, -h            Display this help message
 
 The sync command will:
-  - Detect all .env* files (.env, .env.local, .env.development, .env.testing, .env.staging, .env.example)
+  - Detect the well-known .env files in the current directory, plus any --include patterns
   - Analyze differences between files
-  - Interactively ask how to resolve missing keys (Add Empty, Copy Value, Skip)
+  - Interactively ask how to resolve missing keys (Add Empty, Copy Value, Enter Value, Skip):
+    arrow keys and type-to-filter in a terminal, a checkbox list to pick which keys to add,
+    and masked input for secret values; numbered prompts when stdin is not a TTY
+  - Offer to promote, comment out or remove keys that are missing from the Source of Truth
+  - Refresh stale generated placeholders in .env.example
   - Ensure .env.example contains all keys with placeholder values
+  - Refuse to write values that look like real secrets to .env.example
   - Preserve existing values and file structure
   - Create a backup in .env-twin/ before modifying files
 
@@ -251,7 +494,12 @@ Examples:
   env-twin sync
   env-twin sync --source .env.example
   env-twin sync --json
+  env-twin sync --check               # Fail CI when env files drift
   env-twin sync --yes
+  env-twin sync --plan-out plan.json  # Review, then: env-twin apply plan.json
+  env-twin sync --answers ci/env-answers.yaml
+  env-twin sync --placement block
+  env-twin sync --include 'env/*.env' --exclude '.env.*.local'
 `
   );
 }
@@ -277,6 +525,7 @@ Options:
   --force, -f            Force restore without checking for changes
   --dry-run, --simulate  Show what would be restored without making changes
   --verbose, -V          Enable verbose logging
+  --show-secrets         Do not mask secret values in log output
   --help, -h             Display this help message
 
 Enhanced Features:
@@ -335,11 +584,30 @@ function getVersion(): string {
   }
 }
 
+/**
+ * Combine settings by precedence: CLI flags, then ENV_TWIN_* variables,
+ * then the project config file, then built-in defaults.
+ */
+async function resolveConfig(options: CliOptions): Promise<EnvTwinConfig> {
+  const cwd = process.cwd();
+  const { config } = await loadConfigFile(cwd, options.config || process.env.ENV_TWIN_CONFIG);
+  const cliConfig: EnvTwinConfig = {
+    source: options.source,
+    include: options.include,
+    exclude: options.exclude,
+    placement: options.placement,
+    placeholder: { template: options.placeholder },
+    backup: { enabled: options.noBackup ? false : undefined, keep: options.keep },
+  };
+
+  return mergeConfigs(cliConfig, readConfigFromEnv(), config, DEFAULT_CONFIG);
+}
+
 // ============================================================================
 // DEFAULT COMMAND (copy .env to .env.example)
 // ============================================================================
 
-function runDefaultCommand(options: CliOptions): void {
+function runDefaultCommand(options: CliOptions, config: EnvTwinConfig): void {
   const envPath: string = path.resolve(process.cwd(), options.source || '.env');
   const examplePath: string = path.resolve(process.cwd(), options.dest || '.env.example');
 
@@ -362,18 +630,25 @@ function runDefaultCommand(options: CliOptions): void {
   }
 
   // Process content
-  const exampleContent: string = envContent
-    .split('\n')
-    .map((line: string): string => {
+  // Multiline values collapse into their first line so the placeholder replaces the whole value
+  const exampleContent: string = parseEnvContent(envContent)
+    .map(entry => {
+      const line = entry.originalLine.split('\n')[0];
       if (line.trim() === '' || line.trim().startsWith('#')) {
         return line;
       }
-      const [key] = line.split('=');
-      if (!key) return line;
-
-      // Convert key to lowercase and replace underscores
-      const inputValue = `input_${key.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
-      return `${key}="${inputValue}"`;
+      if (!entry.key) return line;
+
+      const value = renderPlaceholder(
+        { key: entry.key, value: entry.unquotedValue, sourceFile: path.basename(envPath) },
+        config.placeholder
+      );
+      // Placeholders are double-quoted unless the value itself requires other quoting
+      const quoted = /["\n]/.test(value) ? formatEnvValue(value) : `"${value}"`;
+      const prefix = line.substring(0, line.indexOf('=')).trimEnd();
+      // Keep inline comments as documentation for the placeholder
+      const comment = entry.inlineComment ? ` # ${entry.inlineComment}` : '';
+      return `${prefix}=${quoted}${comment}`;
     })
     .join('\n');
 
@@ -389,7 +664,9 @@ function runDefaultCommand(options: CliOptions): void {
     console.log(
       `Success: Generated '${path.basename(examplePath)}' from '${path.basename(envPath)}'`
     );
-    console.log('Note: All environment variable values have been removed for security.');
+    if (!config.placeholder?.keepValues) {
+      console.log('Note: All environment variable values have been removed for security.');
+    }
   } catch (error) {
     console.error(`Error: Failed to write to '${examplePath}'`);
     console.error(error instanceof Error ? error.message : String(error));
@@ -407,7 +684,7 @@ try {
 
   // Handle --help flag
   if (options.help) {
-    if (command === 'sync') {
+    if (command === 'sync' || command === 'check') {
       printSyncUsage();
     } else if (command === 'restore') {
       printRestoreUsage();
@@ -426,36 +703,180 @@ try {
   }
 
   // Dispatch to appropriate command
-  if (command === 'sync') {
+  if (command === 'check' || (command === 'sync' && options.check)) {
+    // Read-only drift check; the exit code reports what is out of sync
+    const { runSyncCheck } = await import('./commands/sync/check.js');
+    const config = await resolveConfig(options);
+    process.exit(
+      runSyncCheck({
+        json: options.json,
+        source: config.source,
+        include: config.include,
+        exclude: config.exclude,
+        ignoreKeys: config.keys?.ignore,
+      })
+    );
+  } else if (command === 'sync') {
     // Import and run sync command
     const { runSync } = await import('./commands/sync.js');
+    const config = await resolveConfig(options);
     await runSync({
-      noBackup: options.noBackup,
+      noBackup: config.backup?.enabled === false,
+      yes: options.yes,
+      json: options.json,
+      source: config.source,
+      placement: config.placement,
+      include: config.include,
+      exclude: config.exclude,
+      placeholder: config.placeholder,
+      ignoreKeys: config.keys?.ignore,
+      showSecrets: options.showSecrets,
+      allowLeaks: options.allowLeaks,
+      planOut: options.planOut,
+      answers: options.answers,
+    });
+  } else if (command === 'apply') {
+    // Applies a reviewed plan; refuses when the files changed after it was made
+    const { runApply } = await import('./commands/apply.js');
+    const config = await resolveConfig(options);
+    await runApply({
+      operands: options.operands || [],
+      noBackup: config.backup?.enabled === false,
       yes: options.yes,
+      placement: config.placement,
+      placeholder: config.placeholder,
+      showSecrets: options.showSecrets,
+      allowLeaks: options.allowLeaks,
+    });
+  } else if (command === 'scan') {
+    // Read-only; exits non-zero when .env.example holds possible secrets
+    const { runScan } = await import('./commands/scan.js');
+    const config = await resolveConfig(options);
+    process.exit(
+      runScan({
+        json: options.json,
+        include: config.include,
+        exclude: config.exclude,
+        placeholder: config.placeholder,
+      })
+    );
+  } else if (command === 'validate') {
+    // Read-only; exits non-zero when values break the env schema
+    const { runValidate } = await import('./commands/validate.js');
+    const config = await resolveConfig(options);
+    process.exit(
+      runValidate({
+        json: options.json,
+        include: config.include,
+        exclude: config.exclude,
+        schema: config.schema,
+      })
+    );
+  } else if (command === 'types') {
+    // Writes a declaration file; with --check, exits non-zero when it is out of date
+    const { runTypes } = await import('./commands/types.js');
+    const config = await resolveConfig(options);
+    process.exit(
+      runTypes({
+        output: options.dest || config.types?.output,
+        check: options.check,
+        importMeta: options.importMeta || config.types?.importMeta,
+        source: config.source,
+        include: config.include,
+        exclude: config.exclude,
+        ignoreKeys: config.keys?.ignore,
+        schema: config.schema,
+      })
+    );
+  } else if (command === 'diff') {
+    // Read-only; exits non-zero when the files differ in more than formatting
+    const { runDiff } = await import('./commands/diff.js');
+    process.exit(
+      runDiff({
+        operands: options.operands || [],
+        json: options.json,
+        unified: options.unified,
+        showSecrets: options.showSecrets,
+      })
+    );
+  } else if (command === 'status' || command === 'matrix') {
+    // Read-only view of every key against every discovered file
+    const { runStatus } = await import('./commands/status.js');
+    const config = await resolveConfig(options);
+    runStatus({
+      format: options.format,
       json: options.json,
-      source: options.source,
+      output: options.dest,
+      onlyProblems: options.onlyProblems,
+      prefix: options.prefix,
+      source: config.source,
+      include: config.include,
+      exclude: config.exclude,
+      ignoreKeys: config.keys?.ignore,
+      placeholder: config.placeholder?.template,
     });
+  } else if (command === 'usage') {
+    // Read-only; exits non-zero when declared and used keys differ
+    const { runUsage } = await import('./commands/usage.js');
+    const config = await resolveConfig(options);
+    process.exit(
+      runUsage({
+        json: options.json,
+        include: config.usage?.include,
+        exclude: config.usage?.exclude,
+        ignoreKeys: config.keys?.ignore,
+      })
+    );
+  } else if (command === 'refs') {
+    // Read-only; exits non-zero on undefined, self or cyclic references
+    const { runRefs } = await import('./commands/refs.js');
+    const config = await resolveConfig(options);
+    process.exit(
+      runRefs({
+        json: options.json,
+        expand: options.expand,
+        showSecrets: options.showSecrets,
+        include: config.include,
+        exclude: config.exclude,
+      })
+    );
+  } else if (command === 'run') {
+    // Exits with the exit code of the program it started
+    const { runWithEnv } = await import('./commands/run.js');
+    process.exit(
+      await runWithEnv({
+        command: options.commandArgs || [],
+        mode: options.mode,
+        verbose: options.verbose,
+      })
+    );
   } else if (command === 'restore') {
     // Import and run enhanced restore command
     const { runEnhancedRestore } = await import('./commands/restore.js');
-    await runEnhancedRestore({
-      timestamp: options.timestamp,
-      yes: options.yes,
-      list: options.list,
-      preservePermissions: options.preservePermissions,
-      preserveTimestamps: options.preserveTimestamps,
-      createRollback: options.createRollback,
-      force: options.force,
-      dryRun: options.dryRun,
-      verbose: options.verbose,
-    });
+    process.exit(
+      await runEnhancedRestore({
+        timestamp: options.timestamp,
+        yes: options.yes,
+        list: options.list,
+        preservePermissions: options.preservePermissions,
+        preserveTimestamps: options.preserveTimestamps,
+        createRollback: options.createRollback,
+        force: options.force,
+        dryRun: options.dryRun,
+        verbose: options.verbose,
+        showSecrets: options.showSecrets,
+      })
+    );
   } else if (command === 'clean-backups') {
     // Import and run clean-backups command
     const { runCleanBackups } = await import('./commands/clean-backups.js');
-    await runCleanBackups({
-      keep: options.keep,
-      yes: options.yes,
-    });
+    const config = await resolveConfig(options);
+    process.exit(
+      await runCleanBackups({
+        keep: config.backup?.keep,
+        yes: options.yes,
+      })
+    );
   } else if (!command) {
     // Show usage if no arguments provided and no default files exist
     if (!options.source && !options.dest && !fs.existsSync('.env')) {
@@ -464,7 +885,8 @@ try {
     }
 
     // Run default command
-    runDefaultCommand(options);
+    // Only placeholder settings apply here; --source names the file to copy from
+    runDefaultCommand(options, await resolveConfig({ ...options, source: undefined }));
   } else {
     console.error(`Error: Unknown command '${command}'`);
     printUsage();
@@ -0,0 +1,46 @@
+// Library entry point (`env-twin`).
+export {
+  analyze,
+  applyPlan,
+  cleanBackups,
+  listBackups,
+  loadPlanFile,
+  planSync,
+  restore,
+  type AnalyzeOptions,
+  type ApplyPlanOptions,
+  type BackupCleanupOptions,
+  type BackupCleanupResult,
+  type BackupOptions,
+  type LoadPlanOptions,
+  type PlanSyncOptions,
+  type RestoreBackupOptions,
+  type RestoreBackupResult,
+} from './modules/api.js';
+export { createPlanFile, parsePlanFile, serializePlanFile } from './commands/sync/plan-file.js';
+export {
+  createAnswerPrompts,
+  loadAnswersFile,
+  validateAnswers,
+  type AnswerAction,
+  type AnswerRule,
+  type SyncAnswers,
+} from './commands/sync/answers.js';
+export type {
+  KeyPlacement,
+  LoggerApi,
+  PendingAction,
+  PromptApi,
+  PromptChoice,
+  PromptContext,
+  PromptTopic,
+  SyncActionType,
+  SyncApplyResult,
+  SyncPlan,
+  SyncPlanFile,
+} from './commands/sync/types.js';
+export type { RestoreProgress } from './modules/file-restoration.js';
+export type { EnvAnalysisReport, EnvFileInfo, ParsedEnvLine } from './modules/sync-logic.js';
+export type { BackupInfo } from './utils/backup.js';
+export type { PlaceholderConfig } from './utils/config.js';
+export { MemoryFs, nodeFs, type EnvFs, type EnvFsDirent, type EnvFsStats } from './utils/env-fs.js';
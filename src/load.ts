@@ -0,0 +1,9 @@
+// Loader entry point (`env-twin/load`).
+export {
+  envFilesFor,
+  loadEnv,
+  populateEnv,
+  PROCESS_ENV_SOURCE,
+  type LoadedEnv,
+  type LoadEnvOptions,
+} from './modules/env-loader.js';
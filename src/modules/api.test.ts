@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LoggerApi, PromptApi } from '../commands/sync/types.js';
+import { MemoryFs } from '../utils/env-fs.js';
+import { analyze, applyPlan, cleanBackups, listBackups, planSync, restore } from './api.js';
+
+let tempDir = '';
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-twin-api-'));
+});
+
+afterEach(() => {
+  if (tempDir && fs.existsSync(tempDir)) {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+const write = (name: string, content: string) =>
+  fs.writeFileSync(path.join(tempDir, name), content);
+const read = (name: string) => fs.readFileSync(path.join(tempDir, name), 'utf-8');
+
+const writeBackup = (timestamp: string, name: string, content: string) => {
+  fs.mkdirSync(path.join(tempDir, '.env-twin'), { recursive: true });
+  fs.writeFileSync(path.join(tempDir, '.env-twin', `${name}.${timestamp}`), content);
+};
+
+describe('api', () => {
+  it('plans and applies a sync without printing or prompting', async () => {
+    write('.env', 'PORT=3000\nAPI_TOKEN=abc\n');
+    write('.env.example', 'PORT=\n');
+
+    const originalLog = console.log;
+    const printed: string[] = [];
+    console.log = (message?: unknown) => printed.push(String(message));
+    try {
+      expect(analyze({ cwd: tempDir }).orphanKeys).toEqual({ '.env': ['API_TOKEN'] });
+
+      const plan = await planSync({ cwd: tempDir, source: '.env' });
+      expect(plan.sourceOfTruth).toBe('.env');
+      expect(plan.actions).toEqual([
+        { file: '.env.example', key: 'API_TOKEN', action: 'add', value: '' },
+      ]);
+
+      const result = await applyPlan(plan, { noBackup: true });
+      expect(result).toEqual({
+        applied: true,
+        backupTimestamp: null,
+        updatedFiles: ['.env.example'],
+        failures: [],
+      });
+    } finally {
+      console.log = originalLog;
+    }
+
+    expect(printed).toEqual([]);
+    expect(read('.env.example')).toBe('PORT=\nAPI_TOKEN=\n');
+  });
+
+  it('uses injected prompts and logger', async () => {
+    write('.env', 'A=1\nB=2\n');
+    write('.env.local', 'A=3\n');
+
+    const questions: string[] = [];
+    const prompts: PromptApi = {
+      confirm: async message => {
+        questions.push(message);
+        return false;
+      },
+      select: async <T>(message: string) => {
+        questions.push(message);
+        return 'copy' as T;
+      },
+    };
+    const messages: string[] = [];
+    const logger: LoggerApi = { log: message => messages.push(message), error: () => {} };
+
+    const plan = await planSync({ cwd: tempDir, source: '.env', prompts, logger });
+    expect(plan.actions).toEqual([{ file: '.env.local', key: 'B', action: 'add', value: '2' }]);
+    expect(questions).toEqual([
+      expect.stringContaining('to .env.local?'),
+      'Do you want to create .env.example with all found keys?',
+    ]);
+    expect(messages.some(message => message.includes('.env.local is missing 1 keys'))).toBe(true);
+  });
+
+  it('refuses possible leaks without prompts unless allowed', async () => {
+    write('.env', 'API_TOKEN=prod-token-12345\n');
+    const plan = {
+      cwd: tempDir,
+      report: analyze({ cwd: tempDir, source: '.env' }),
+      sourceOfTruth: '.env',
+      actions: [
+        {
+          file: '.env.example',
+          key: 'API_TOKEN',
+          action: 'add' as const,
+          value: 'prod-token-12345',
+        },
+      ],
+    };
+
+    await expect(applyPlan(plan, { noBackup: true })).rejects.toThrow(/allow-leaks/);
+    expect(fs.existsSync(path.join(tempDir, '.env.example'))).toBe(false);
+    expect((await applyPlan(plan, { noBackup: true, allowLeaks: true })).updatedFiles).toEqual([
+      '.env.example',
+    ]);
+  });
+
+  it('plans, applies and restores against an in-memory file system', async () => {
+    const cwd = path.join(tempDir, 'virtual');
+    const memory = new MemoryFs({
+      [path.join(cwd, '.env')]: 'PORT=3000\nAPI_TOKEN=abc\n',
+      [path.join(cwd, '.env.example')]: 'PORT=\n',
+    });
+
+    const plan = await planSync({ cwd, source: '.env', fs: memory });
+    const result = await applyPlan(plan, { fs: memory });
+    expect(result.updatedFiles).toEqual(['.env.example']);
+    expect(memory.readFile(path.join(cwd, '.env.example'))).toBe('PORT=\nAPI_TOKEN=\n');
+    expect(fs.existsSync(cwd)).toBe(false);
+
+    expect(listBackups({ cwd, fs: memory }).map(backup => backup.timestamp)).toEqual([
+      result.backupTimestamp,
+    ]);
+    const restored = await restore({ cwd, fs: memory, createRollback: true });
+    expect(restored).toMatchObject({ success: true, restored: ['.env.example'] });
+    expect(memory.readFile(path.join(cwd, '.env.example'))).toBe('PORT=\n');
+  });
+
+  it('lists, restores and cleans backups', async () => {
+    write('.env', 'A=changed\n');
+    writeBackup('20240101-000000', '.env', 'A=old\n');
+    writeBackup('20240102-000000', '.env', 'A=newer\n');
+    const older = path.join(tempDir, '.env-twin', '.env.20240101-000000');
+    fs.utimesSync(older, new Date('2024-01-01'), new Date('2024-01-01'));
+
+    expect(listBackups({ cwd: tempDir }).map(backup => backup.timestamp)).toEqual([
+      '20240102-000000',
+      '20240101-000000',
+    ]);
+
+    const dryRun = await restore({ cwd: tempDir, dryRun: true });
+    expect(dryRun).toMatchObject({ success: true, dryRun: true, timestamp: '20240102-000000' });
+    expect(read('.env')).toBe('A=changed\n');
+
+    const result = await restore({ cwd: tempDir, timestamp: '20240101-000000' });
+    expect(result).toMatchObject({ success: true, restored: ['.env'], failures: [] });
+    expect(read('.env')).toBe('A=old\n');
+    await expect(restore({ cwd: tempDir, timestamp: '20990101-000000' })).rejects.toThrow(
+      /not found/
+    );
+
+    expect(cleanBackups({ cwd: tempDir, keep: 1, dryRun: true })).toEqual({
+      deleted: ['20240101-000000'],
+      kept: ['20240102-000000'],
+    });
+    expect(listBackups({ cwd: tempDir })).toHaveLength(2);
+    expect(cleanBackups({ cwd: tempDir, keep: 1 }).deleted).toEqual(['20240101-000000']);
+    expect(listBackups({ cwd: tempDir })).toHaveLength(1);
+    expect(() => cleanBackups({ cwd: tempDir, keep: -1 })).toThrow(/keep count/);
+  });
+});
@@ -0,0 +1,353 @@
+import path from 'path';
+import { planExampleAndOrphanActions } from '../commands/sync/example-orphans-planner.js';
+import { applySyncActions } from '../commands/sync/executor.js';
+import { planMissingKeyActions } from '../commands/sync/missing-keys-planner.js';
+import { findChangedFiles } from '../commands/sync/plan-file.js';
+import { resolveSourceOfTruth } from '../commands/sync/source-of-truth.js';
+import {
+  KeyPlacement,
+  LoggerApi,
+  PromptApi,
+  SyncApplyResult,
+  SyncPlan,
+  SyncPlanFile,
+} from '../commands/sync/types.js';
+import {
+  BackupInfo,
+  cleanOldBackups,
+  DEFAULT_BACKUP_KEEP,
+  listBackups as listBackupSets,
+} from '../utils/backup.js';
+import { PlaceholderConfig } from '../utils/config.js';
+import { EnvFs, nodeFs } from '../utils/env-fs.js';
+import { colors } from '../utils/ui.js';
+import { BackupDiscovery } from './backup-discovery.js';
+import { FileRestorer, ProgressCallback } from './file-restoration.js';
+import { RollbackManager, RollbackSnapshot } from './rollback-manager.js';
+import { compareEnvFiles, EnvAnalysisReport, EnvFileAnalysis, loadEnvFile } from './sync-logic.js';
+
+/**
+ * Library API
+ *
+ * The operations behind `sync`, `restore` and `clean-backups`, without printing or exiting.
+ * Every call works on `cwd` (default: process.cwd()) and returns a typed result. Nothing is
+ * asked or logged unless `prompts` or `logger` implementations are passed in.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AnalyzeOptions {
+  cwd?: string;
+  source?: string; // Source of Truth file name; default: .env.example when present
+  include?: string[];
+  exclude?: string[];
+  ignoreKeys?: string[];
+  fs?: EnvFs; // default: the real file system
+}
+
+export interface PlanSyncOptions extends AnalyzeOptions {
+  placeholder?: PlaceholderConfig;
+  showSecrets?: boolean; // show secret values in prompt choices
+  yes?: boolean; // take the non-interactive defaults even when `prompts` is given
+  prompts?: PromptApi; // without prompts, planning takes the non-interactive defaults
+  logger?: LoggerApi;
+}
+
+export interface ApplyPlanOptions {
+  noBackup?: boolean;
+  placement?: KeyPlacement;
+  placeholder?: PlaceholderConfig;
+  allowLeaks?: boolean; // write secret-looking values to .env.example
+  prompts?: PromptApi; // without prompts, possible leaks throw unless `allowLeaks`
+  logger?: LoggerApi;
+  fs?: EnvFs; // must be the file system the plan was made from
+}
+
+export interface LoadPlanOptions {
+  cwd?: string;
+  fs?: EnvFs;
+}
+
+export interface BackupOptions {
+  cwd?: string;
+  fs?: EnvFs;
+}
+
+export interface RestoreBackupOptions extends BackupOptions {
+  timestamp?: string; // default: the most recent valid backup
+  dryRun?: boolean;
+  force?: boolean;
+  preservePermissions?: boolean; // default: true
+  preserveTimestamps?: boolean; // default: true
+  createRollback?: boolean; // snapshot current files and roll back if the restore fails
+  onProgress?: ProgressCallback;
+}
+
+export interface RestoreBackupResult {
+  success: boolean;
+  timestamp: string;
+  dryRun: boolean;
+  files: string[]; // files in the backup
+  restored: string[];
+  failures: Array<{ file: string; error: string }>;
+  warnings: string[];
+  snapshotId?: string;
+  rolledBack: boolean;
+}
+
+export interface BackupCleanupOptions extends BackupOptions {
+  keep?: number; // default: 10
+  dryRun?: boolean;
+}
+
+export interface BackupCleanupResult {
+  deleted: string[]; // timestamps
+  kept: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SILENT_LOGGER: LoggerApi = {
+  log: () => {},
+  error: () => {},
+};
+
+/** Stands in when no prompts are given; the planners never ask in non-interactive mode. */
+const NO_PROMPTS: PromptApi = {
+  confirm: async message => {
+    throw new Error(`Cannot ask "${message}" without a prompts implementation`);
+  },
+  select: async message => {
+    throw new Error(`Cannot ask "${message}" without a prompts implementation`);
+  },
+};
+
+// ============================================================================
+// ANALYSIS AND SYNC
+// ============================================================================
+
+/**
+ * Read every env file and report missing and orphan keys against the Source of Truth.
+ */
+export function analyze(options: AnalyzeOptions = {}): EnvAnalysisReport {
+  return createAnalyzer(options).analyze({ sourceOfTruth: options.source });
+}
+
+/**
+ * Decide which keys to add, update, comment out or remove. Nothing is written; pass the
+ * result to `applyPlan`. Without `prompts`, missing keys are added empty, .env.example is
+ * created or refreshed and orphans are left alone, as with `sync --yes`.
+ */
+export async function planSync(options: PlanSyncOptions = {}): Promise<SyncPlan> {
+  const cwd = resolveCwd(options.cwd);
+  const logger = options.logger || SILENT_LOGGER;
+  const prompts = options.prompts || NO_PROMPTS;
+  const yes = options.yes || !options.prompts;
+  const analyzer = createAnalyzer({ ...options, cwd });
+  const report = analyzer.analyze({ sourceOfTruth: options.source });
+
+  if (report.files.length === 0) {
+    logger.log(colors.yellow('No .env* files found in the current directory.'));
+    return { cwd, report, sourceOfTruth: report.sourceOfTruth, actions: [] };
+  }
+
+  logger.log(colors.bold(`Found ${report.files.length} .env* file(s):`));
+  report.files.forEach(file => logger.log(`  - ${file.fileName}`));
+  logger.log('');
+
+  const resolution = await resolveSourceOfTruth({ report, analyzer, yes, prompts });
+  const sourceOfTruth = resolution.sourceOfTruth;
+  logger.log(
+    `${colors.blue('Source of Truth:')} ${colors.bold(sourceOfTruth || 'Union of all files')}`
+  );
+  logger.log('');
+
+  const actions = [
+    ...(await planMissingKeyActions({
+      report: resolution.report,
+      sourceOfTruth,
+      yes,
+      showSecrets: options.showSecrets,
+      prompts,
+      logger,
+    })),
+    ...(await planExampleAndOrphanActions({
+      report: resolution.report,
+      sourceOfTruth,
+      yes,
+      placeholder: options.placeholder,
+      prompts,
+      logger,
+    })),
+  ];
+
+  return { cwd, report: resolution.report, sourceOfTruth, actions };
+}
+
+/**
+ * Write a plan: back up the affected files (unless `noBackup`), then update each file in
+ * place. Values that look like real secrets are not written to .env.example unless allowed.
+ */
+export function applyPlan(
+  plan: SyncPlan,
+  options: ApplyPlanOptions = {}
+): Promise<SyncApplyResult> {
+  return applySyncActions({
+    cwd: plan.cwd,
+    report: plan.report,
+    actions: plan.actions,
+    options: {
+      noBackup: options.noBackup,
+      yes: !options.prompts,
+      placement: options.placement,
+      placeholder: options.placeholder,
+      allowLeaks: options.allowLeaks,
+    },
+    prompts: options.prompts || NO_PROMPTS,
+    logger: options.logger || SILENT_LOGGER,
+    fs: options.fs,
+  });
+}
+
+/**
+ * Turn a plan file back into a plan for `applyPlan`. Throws when any file the plan was made
+ * from has changed since, so a reviewed plan is never applied to different content.
+ */
+export function loadPlanFile(planFile: SyncPlanFile, options: LoadPlanOptions = {}): SyncPlan {
+  const cwd = resolveCwd(options.cwd);
+  const fs = options.fs || nodeFs;
+  const changed = findChangedFiles(planFile, cwd, fs);
+  if (changed.length > 0) {
+    throw new Error(
+      `Plan is out of date: ${changed.join(', ')} changed since it was created. Run sync --plan-out again`
+    );
+  }
+
+  const files = Object.entries(planFile.files)
+    .filter(([, hash]) => hash !== null)
+    .map(([fileName]) => ({ ...loadEnvFile(path.join(cwd, fileName), fs), fileName }));
+  return {
+    cwd,
+    report: compareEnvFiles(files, planFile.sourceOfTruth),
+    sourceOfTruth: planFile.sourceOfTruth,
+    actions: planFile.actions,
+  };
+}
+
+function createAnalyzer(options: AnalyzeOptions): EnvFileAnalysis {
+  return new EnvFileAnalysis(resolveCwd(options.cwd), {
+    include: options.include,
+    exclude: options.exclude,
+    ignoreKeys: options.ignoreKeys,
+    fs: options.fs,
+  });
+}
+
+function resolveCwd(cwd?: string): string {
+  return path.resolve(cwd || process.cwd());
+}
+
+// ============================================================================
+// BACKUPS
+// ============================================================================
+
+/**
+ * Backup sets in .env-twin/, most recent first.
+ */
+export function listBackups(options: BackupOptions = {}): BackupInfo[] {
+  return listBackupSets(resolveCwd(options.cwd), options.fs);
+}
+
+/**
+ * Restore the files of one backup set. Throws when no matching valid backup exists;
+ * per-file failures are reported in the result.
+ */
+export async function restore(options: RestoreBackupOptions = {}): Promise<RestoreBackupResult> {
+  const cwd = resolveCwd(options.cwd);
+  const validBackups = new BackupDiscovery(cwd, options.fs)
+    .discoverAndValidateBackups()
+    .validatedBackups.filter(backup => backup.isValid)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const backup = options.timestamp
+    ? validBackups.find(candidate => candidate.timestamp === options.timestamp)
+    : validBackups[0];
+  if (!backup) {
+    throw new Error(
+      options.timestamp
+        ? `Backup with timestamp '${options.timestamp}' not found or invalid`
+        : 'No valid backups found in .env-twin/ directory'
+    );
+  }
+
+  const warnings: string[] = [];
+  const rollbackManager = new RollbackManager(cwd, undefined, options.fs);
+  let snapshot: RollbackSnapshot | undefined;
+  if (options.createRollback && !options.dryRun) {
+    try {
+      snapshot = await rollbackManager.createSnapshot(backup.files, {
+        includeContent: true,
+        includePermissions: true,
+        maxSize: 1024 * 1024, // 1MB limit per file
+      });
+    } catch (error) {
+      warnings.push(
+        `Failed to create rollback snapshot: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  const restorer = new FileRestorer(cwd, options.fs);
+  if (options.onProgress) restorer.setProgressCallback(options.onProgress);
+  const outcome = await restorer.restoreFiles(backup, {
+    preservePermissions: options.preservePermissions !== false,
+    preserveTimestamps: options.preserveTimestamps !== false,
+    createBackup: false, // the rollback snapshot above covers this
+    force: options.force,
+    dryRun: options.dryRun,
+  });
+  warnings.push(...outcome.warnings);
+
+  let rolledBack = false;
+  if (!outcome.success && snapshot) {
+    try {
+      const rollback = await rollbackManager.rollbackToSnapshot(snapshot.id);
+      rolledBack = rollback.success;
+      if (!rollback.success) warnings.push(`Rollback failed: ${rollback.error}`);
+    } catch (error) {
+      warnings.push(`Rollback failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return {
+    success: outcome.success,
+    timestamp: backup.timestamp,
+    dryRun: Boolean(options.dryRun),
+    files: backup.files,
+    restored: outcome.restoredFiles,
+    failures: Array.from(outcome.errors, ([file, error]) => ({ file, error })),
+    warnings,
+    snapshotId: snapshot?.id,
+    rolledBack,
+  };
+}
+
+/**
+ * Delete all but the `keep` most recent backup sets.
+ */
+export function cleanBackups(options: BackupCleanupOptions = {}): BackupCleanupResult {
+  const cwd = resolveCwd(options.cwd);
+  const keep = options.keep ?? DEFAULT_BACKUP_KEEP;
+  if (!Number.isInteger(keep) || keep < 0) {
+    throw new Error(`Invalid keep count '${keep}'. Must be a non-negative integer`);
+  }
+
+  if (options.dryRun) {
+    const timestamps = listBackupSets(cwd, options.fs).map(backup => backup.timestamp);
+    return { deleted: timestamps.slice(keep), kept: timestamps.slice(0, keep) };
+  }
+  return cleanOldBackups(cwd, keep, options.fs);
+}
@@ -1,6 +1,6 @@
-import fs from 'fs';
 import path from 'path';
 import { listBackups, BackupInfo } from '../utils/backup.js';
+import { ACCESS_READ, ACCESS_WRITE, EnvFs, EnvFsStats, nodeFs } from '../utils/env-fs.js';
 
 /**
  * Backup Discovery Module
@@ -14,7 +14,7 @@ export interface ValidatedBackup extends BackupInfo {
   isValid: boolean;
   errors: string[];
   warnings: string[];
-  fileStats: Map<string, fs.Stats>;
+  fileStats: Map<string, EnvFsStats>;
 }
 
 /**
@@ -33,9 +33,11 @@ export interface BackupValidationResult {
 export class BackupDiscovery {
   private cwd: string;
   private backupDir: string;
+  private fs: EnvFs;
 
-  constructor(cwd: string = process.cwd()) {
+  constructor(cwd: string = process.cwd(), fs: EnvFs = nodeFs) {
     this.cwd = path.resolve(cwd);
+    this.fs = fs;
     this.backupDir = path.join(this.cwd, '.env-twin');
   }
 
@@ -52,7 +54,7 @@ export class BackupDiscovery {
 
     try {
       // Check if backup directory exists
-      if (!fs.existsSync(this.backupDir)) {
+      if (!this.fs.exists(this.backupDir)) {
         result.errors.push('Backup directory .env-twin/ not found');
         result.isValid = false;
         return result;
@@ -60,7 +62,7 @@ export class BackupDiscovery {
 
       // Check if backup directory is readable
       try {
-        fs.accessSync(this.backupDir, fs.constants.R_OK);
+        this.fs.access(this.backupDir, ACCESS_READ);
       } catch (error) {
         result.errors.push(
           `Backup directory not readable: ${error instanceof Error ? error.message : String(error)}`
@@ -70,7 +72,7 @@ export class BackupDiscovery {
       }
 
       // Get list of backups
-      const backups = listBackups(this.cwd);
+      const backups = listBackups(this.cwd, this.fs);
 
       if (backups.length === 0) {
         result.warnings.push('No backups found in .env-twin/ directory');
@@ -145,19 +147,19 @@ export class BackupDiscovery {
         const filePath = path.join(this.backupDir, `${fileName}.${backup.timestamp}`);
 
         // Check if file exists
-        if (!fs.existsSync(filePath)) {
+        if (!this.fs.exists(filePath)) {
           validatedBackup.errors.push(`File ${fileName} is missing from backup`);
           validatedBackup.isValid = false;
           continue;
         }
 
         // Get file stats
-        const stats = fs.statSync(filePath);
+        const stats = this.fs.stat(filePath);
         validatedBackup.fileStats.set(fileName, stats);
 
         // Check if file is readable
         try {
-          fs.accessSync(filePath, fs.constants.R_OK);
+          this.fs.access(filePath, ACCESS_READ);
         } catch (error) {
           validatedBackup.errors.push(
             `File ${fileName} is not readable: ${error instanceof Error ? error.message : String(error)}`
@@ -200,7 +202,7 @@ export class BackupDiscovery {
    */
   checkBackupDirectoryWriteAccess(): boolean {
     try {
-      fs.accessSync(this.backupDir, fs.constants.W_OK);
+      this.fs.access(this.backupDir, ACCESS_WRITE);
       return true;
     } catch (error) {
       return false;
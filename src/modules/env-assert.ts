@@ -0,0 +1,135 @@
+import path from 'path';
+import { EnvSchema, isRequiredIn, loadProjectSchema } from './env-schema.js';
+import { validateValue } from './env-validator.js';
+import { loadEnvFile } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AssertEnvOptions {
+  /** Template listing the expected keys; false skips it (default: .env.example) */
+  example?: string | false;
+  /** Schema file path or inline schema (default: .env.schema.json when present) */
+  schema?: string | EnvSchema;
+  /** Values to check (default: process.env) */
+  env?: Record<string, string | undefined>;
+  /** Environment for `requiredIn` (default: env.NODE_ENV) */
+  environment?: string;
+  /** Directory the example and schema paths are relative to (default: process.cwd()) */
+  cwd?: string;
+}
+
+export type EnvProblem = 'missing' | 'empty' | 'invalid';
+
+/** One failed key. Never carries the value, so it is safe to log. */
+export interface EnvIssue {
+  key: string;
+  problem: EnvProblem;
+  message: string;
+}
+
+/**
+ * Thrown by `assertEnv` with every failed key at once. The message and `issues` name
+ * keys and expectations only; values are never included.
+ */
+export class EnvValidationError extends Error {
+  readonly issues: EnvIssue[];
+
+  constructor(issues: EnvIssue[]) {
+    super(
+      [
+        `Environment validation failed (${issues.length} problem(s)):`,
+        ...issues.map(issue => `  - ${issue.key} ${issue.message}`),
+      ].join('\n')
+    );
+    this.name = 'EnvValidationError';
+    this.issues = issues;
+  }
+
+  get missing(): string[] {
+    return this.keysWith('missing');
+  }
+
+  get empty(): string[] {
+    return this.keysWith('empty');
+  }
+
+  get invalid(): string[] {
+    return this.keysWith('invalid');
+  }
+
+  private keysWith(problem: EnvProblem): string[] {
+    return this.issues.filter(issue => issue.problem === problem).map(issue => issue.key);
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_EXAMPLE = '.env.example';
+
+// ============================================================================
+// ASSERTION
+// ============================================================================
+
+/**
+ * Check the environment against the keys of `.env.example` and the env schema, and throw
+ * an `EnvValidationError` listing every missing, empty or invalid key. Keys the schema
+ * describes are only required when it says so; other template keys are always required.
+ */
+export function assertEnv(options: AssertEnvOptions = {}): void {
+  const issues = checkEnv(options);
+  if (issues.length > 0) {
+    throw new EnvValidationError(issues);
+  }
+}
+
+/**
+ * Same checks as `assertEnv`, returning the issues instead of throwing.
+ */
+export function checkEnv(options: AssertEnvOptions = {}): EnvIssue[] {
+  const cwd = options.cwd || process.cwd();
+  const env = options.env || process.env;
+  const environment = options.environment ?? env.NODE_ENV;
+
+  const examplePath =
+    options.example === false ? undefined : path.resolve(cwd, options.example || DEFAULT_EXAMPLE);
+  const example = examplePath ? loadEnvFile(examplePath) : undefined;
+  if (options.example && !example?.exists) {
+    throw new Error(`Example file '${options.example}' not found`);
+  }
+
+  const template = example?.exists ? example : undefined;
+  const schema = loadProjectSchema(cwd, template, options.schema)?.schema;
+  if (!template && !schema) {
+    throw new Error(`Nothing to check against: no ${DEFAULT_EXAMPLE} or env schema found`);
+  }
+
+  const keys = new Set([...(template?.keys || []), ...Object.keys(schema?.keys || {})]);
+  const issues: EnvIssue[] = [];
+
+  for (const key of keys) {
+    const keySchema = schema?.keys[key];
+    const required = keySchema ? isRequiredIn(keySchema, environment) : true;
+    const value = env[key];
+
+    if (value === undefined) {
+      if (required && keySchema?.default === undefined) {
+        issues.push({ key, problem: 'missing', message: 'is missing' });
+      }
+    } else if (value === '') {
+      if (required) {
+        issues.push({ key, problem: 'empty', message: 'is empty' });
+      }
+    } else if (keySchema) {
+      const problem = validateValue(value, keySchema, required);
+      if (problem) {
+        issues.push({ key, problem: 'invalid', message: problem });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,192 @@
+import { maskParsedLine } from './secrets.js';
+import { entryLineNumbers, ParsedEnvLine } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type KeyChange = 'added' | 'removed' | 'changed' | 'reformatted' | 'unchanged';
+
+/** How two values compare, without revealing either. */
+export type ValueComparison = 'same' | 'different' | 'empty-vs-set' | 'set-vs-empty';
+
+export interface KeyDiff {
+  key: string;
+  change: KeyChange;
+  value?: ValueComparison; // for keys present on both sides
+  lineA?: number;
+  lineB?: number;
+}
+
+export interface EnvDiff {
+  a: string;
+  b: string;
+  keys: KeyDiff[];
+}
+
+export interface DiffSide {
+  label: string;
+  parsedLines: ParsedEnvLine[];
+}
+
+interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  indexA?: number;
+  indexB?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Unchanged lines shown around each change in unified output. */
+const UNIFIED_CONTEXT = 3;
+
+// ============================================================================
+// KEY-LEVEL DIFF
+// ============================================================================
+
+/**
+ * Compare two env files key by key. A key whose value is equal but whose line is written
+ * differently (quotes, spacing, `export`, inline comment) is 'reformatted'. When a key is
+ * defined twice, the last definition counts, as when the file is loaded.
+ */
+export function diffEnvFiles(a: DiffSide, b: DiffSide): EnvDiff {
+  const entriesA = lastEntries(a.parsedLines);
+  const entriesB = lastEntries(b.parsedLines);
+  const keys: KeyDiff[] = [];
+
+  entriesA.forEach((entryA, key) => {
+    const entryB = entriesB.get(key);
+    if (!entryB) {
+      keys.push({ key, change: 'removed', lineA: entryA.line });
+      return;
+    }
+
+    const valueA = entryA.parsed.unquotedValue;
+    const valueB = entryB.parsed.unquotedValue;
+    const value: ValueComparison =
+      valueA === valueB
+        ? 'same'
+        : !valueA
+          ? 'empty-vs-set'
+          : !valueB
+            ? 'set-vs-empty'
+            : 'different';
+    const change: KeyChange =
+      value !== 'same'
+        ? 'changed'
+        : entryA.parsed.originalLine.trim() !== entryB.parsed.originalLine.trim()
+          ? 'reformatted'
+          : 'unchanged';
+    keys.push({ key, change, value, lineA: entryA.line, lineB: entryB.line });
+  });
+
+  entriesB.forEach((entryB, key) => {
+    if (!entriesA.has(key)) {
+      keys.push({ key, change: 'added', lineB: entryB.line });
+    }
+  });
+
+  return { a: a.label, b: b.label, keys };
+}
+
+function lastEntries(
+  parsedLines: ParsedEnvLine[]
+): Map<string, { parsed: ParsedEnvLine; line: number }> {
+  const lines = entryLineNumbers(parsedLines);
+  const entries = new Map<string, { parsed: ParsedEnvLine; line: number }>();
+  parsedLines.forEach((parsed, index) => {
+    if (!parsed.key) return;
+    entries.delete(parsed.key); // keep file order of the last definition
+    entries.set(parsed.key, { parsed, line: lines[index] });
+  });
+  return entries;
+}
+
+/** True when the files differ in more than formatting. */
+export function hasSemanticChanges(diff: EnvDiff): boolean {
+  return diff.keys.some(key => key.change !== 'unchanged' && key.change !== 'reformatted');
+}
+
+// ============================================================================
+// UNIFIED DIFF
+// ============================================================================
+
+/**
+ * Render a unified diff of two env files. Entries are compared by their real text but
+ * printed with secret values masked unless `showSecrets`, so a changed secret shows as a
+ * removed and an added masked line.
+ */
+export function unifiedDiff(a: DiffSide, b: DiffSide, showSecrets = false): string {
+  const display = (parsed: ParsedEnvLine) =>
+    (showSecrets ? parsed : maskParsedLine(parsed)).originalLine.split('\n');
+  const linesA = entryLineNumbers(a.parsedLines);
+  const linesB = entryLineNumbers(b.parsedLines);
+  const ops = diffSequences(
+    a.parsedLines.map(parsed => parsed.originalLine),
+    b.parsedLines.map(parsed => parsed.originalLine)
+  );
+  if (ops.every(op => op.type === 'equal')) return '';
+
+  const output = [`--- ${a.label}`, `+++ ${b.label}`];
+  const changed = ops.map((op, index) => (op.type !== 'equal' ? index : -1)).filter(i => i >= 0);
+
+  let start = 0;
+  while (start < changed.length) {
+    // Group changes whose context overlaps into one hunk
+    let end = start;
+    while (end + 1 < changed.length && changed[end + 1] - changed[end] <= UNIFIED_CONTEXT * 2) {
+      end++;
+    }
+    const from = Math.max(0, changed[start] - UNIFIED_CONTEXT);
+    const to = Math.min(ops.length - 1, changed[end] + UNIFIED_CONTEXT);
+    const hunk = ops.slice(from, to + 1);
+
+    const body: string[] = [];
+    let countA = 0;
+    let countB = 0;
+    for (const op of hunk) {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+      const parsed = op.type === 'insert' ? b.parsedLines[op.indexB!] : a.parsedLines[op.indexA!];
+      const lines = display(parsed);
+      if (op.type !== 'insert') countA += lines.length;
+      if (op.type !== 'delete') countB += lines.length;
+      body.push(...lines.map(line => `${prefix}${line}`));
+    }
+
+    const firstA = hunk.find(op => op.indexA !== undefined)?.indexA;
+    const firstB = hunk.find(op => op.indexB !== undefined)?.indexB;
+    const startA = firstA === undefined ? 0 : linesA[firstA];
+    const startB = firstB === undefined ? 0 : linesB[firstB];
+    output.push(`@@ -${startA},${countA} +${startB},${countB} @@`, ...body);
+    start = end + 1;
+  }
+
+  return output.join('\n');
+}
+
+/** Longest-common-subsequence diff; env files are small enough for the quadratic table. */
+function diffSequences(a: string[], b: string[]): DiffOp[] {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] =
+        a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: 'equal', indexA: i++, indexB: j++ });
+    } else if (i < a.length && (j === b.length || table[i + 1][j] >= table[i][j + 1])) {
+      ops.push({ type: 'delete', indexA: i++ });
+    } else {
+      ops.push({ type: 'insert', indexB: j++ });
+    }
+  }
+  return ops;
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { discoverEnvFiles } from './env-discovery.js';
+
+let tempDir = '';
+
+function touch(relativePath: string): void {
+  const filePath = path.join(tempDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, 'KEY=value\n', 'utf-8');
+}
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-twin-discovery-'));
+});
+
+afterEach(() => {
+  if (tempDir && fs.existsSync(tempDir)) {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+describe('env-discovery', () => {
+  it('finds only the well-known env files in preferred order by default', () => {
+    ['.env.example', '.env.ci', '.env', '.env.vault', '.env.local', '.envrc'].forEach(touch);
+    touch('env/prod.env');
+
+    const files = discoverEnvFiles(tempDir);
+
+    expect(files.map(file => file.fileName)).toEqual(['.env', '.env.local', '.env.example']);
+    expect(files[0]).toEqual({
+      filePath: path.join(tempDir, '.env'),
+      fileName: '.env',
+      matchedPattern: '.env',
+    });
+  });
+
+  it('opts in to other .env.* files through include patterns', () => {
+    ['.env.example', '.env.ci', '.env', '.env.development.local', '.env.local'].forEach(touch);
+    touch('.env.swp');
+    touch('.env.schema.json');
+
+    const files = discoverEnvFiles(tempDir, { include: ['.env.*'] });
+
+    expect(files.map(file => file.fileName)).toEqual([
+      '.env',
+      '.env.local',
+      '.env.example',
+      '.env.ci',
+      '.env.development.local',
+    ]);
+    expect(files[1].matchedPattern).toBe('.env.local');
+    expect(files[3].matchedPattern).toBe('.env.*');
+  });
+
+  it('applies include and exclude patterns and records the matching pattern', () => {
+    touch('.env');
+    touch('.env.local');
+    touch('env/prod.env');
+    touch('node_modules/pkg/app.env');
+    touch('.env-twin/.env.20240101-000000');
+
+    const files = discoverEnvFiles(tempDir, { include: ['**/*.env'], exclude: ['*.local'] });
+
+    expect(files.map(file => [file.fileName, file.matchedPattern])).toEqual([
+      ['.env', '.env'],
+      ['env/prod.env', '**/*.env'],
+    ]);
+  });
+});
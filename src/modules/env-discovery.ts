@@ -0,0 +1,89 @@
+import path from 'path';
+import { BACKUP_DIR } from '../utils/backup.js';
+import { EnvFs } from '../utils/env-fs.js';
+import { globToRegExp, listFilesForPatterns } from '../utils/glob.js';
+import { SCHEMA_FILE } from './env-schema.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EnvDiscoveryOptions {
+  include?: string[]; // added to DEFAULT_INCLUDE
+  exclude?: string[]; // added to DEFAULT_EXCLUDE
+  fs?: EnvFs; // default: the real file system
+}
+
+export interface DiscoveredEnvFile {
+  filePath: string;
+  fileName: string; // '/'-separated path relative to cwd
+  matchedPattern: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** The well-known env files, in their traditional order. Include patterns opt in to more. */
+export const DEFAULT_INCLUDE: readonly string[] = [
+  '.env',
+  '.env.local',
+  '.env.development',
+  '.env.test',
+  '.env.testing',
+  '.env.staging',
+  '.env.production',
+  '.env.example',
+];
+
+/** Editor and tooling leftovers that look like env files but are not. */
+export const DEFAULT_EXCLUDE: readonly string[] = ['*.tmp', '*.bak', '*.swp', '*~'];
+
+/** env-twin's own files that an include pattern such as `.env.*` matches but hold no variables. */
+const RESERVED_FILES: readonly string[] = [SCHEMA_FILE];
+
+const IGNORED_DIRS: readonly string[] = ['node_modules', '.git', BACKUP_DIR];
+
+/** Well-known files keep their traditional order; anything else follows alphabetically. */
+const PREFERRED_ORDER = DEFAULT_INCLUDE;
+
+// ============================================================================
+// DISCOVERY
+// ============================================================================
+
+export function discoverEnvFiles(
+  cwd: string,
+  options: EnvDiscoveryOptions = {}
+): DiscoveredEnvFile[] {
+  const include = [...DEFAULT_INCLUDE, ...(options.include || [])];
+  const exclude = [...DEFAULT_EXCLUDE, ...RESERVED_FILES, ...(options.exclude || [])].map(
+    globToRegExp
+  );
+  const includeMatchers = include.map(pattern => ({ pattern, regex: globToRegExp(pattern) }));
+  const discovered: DiscoveredEnvFile[] = [];
+
+  for (const fileName of listFilesForPatterns(cwd, include, IGNORED_DIRS, options.fs)) {
+    if (exclude.some(regex => regex.test(fileName) || regex.test(path.posix.basename(fileName)))) {
+      continue;
+    }
+
+    const match = includeMatchers.find(matcher => matcher.regex.test(fileName));
+    if (match) {
+      discovered.push({
+        filePath: path.join(cwd, fileName),
+        fileName,
+        matchedPattern: match.pattern,
+      });
+    }
+  }
+
+  return discovered.sort(compareEnvFiles);
+}
+
+function compareEnvFiles(a: DiscoveredEnvFile, b: DiscoveredEnvFile): number {
+  const rank = (fileName: string) => {
+    const index = PREFERRED_ORDER.indexOf(fileName);
+    return index === -1 ? PREFERRED_ORDER.length : index;
+  };
+  return rank(a.fileName) - rank(b.fileName) || a.fileName.localeCompare(b.fileName);
+}
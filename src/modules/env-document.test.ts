@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'bun:test';
+import { EnvDocument } from './env-document.js';
+
+describe('env-document', () => {
+  describe('round-trip', () => {
+    const samples: Record<string, string> = {
+      lf: '# Header\nA=1\n\nB="two" # note\n',
+      crlf: "# Header\r\nA=1\r\n\r\nB='two'\r\n",
+      bom: '\uFEFFA=1\nB=2',
+      mixed: 'A=1\r\nB=2\nC=3\r\n',
+      multiline: 'CERT="-----BEGIN-----\r\nabc\r\n-----END-----"\r\nNEXT=1\r\n',
+      empty: '',
+    };
+
+    for (const [name, content] of Object.entries(samples)) {
+      it(`renders ${name} content byte-for-byte`, () => {
+        expect(EnvDocument.parse(content).toString()).toBe(content);
+      });
+    }
+  });
+
+  it('detects BOM and line endings', () => {
+    const document = EnvDocument.parse('\uFEFFA=1\r\nB=2\r\n');
+    expect(document.bom).toBe(true);
+    expect(document.eol).toBe('\r\n');
+    expect(document.keys()).toEqual(['A', 'B']);
+  });
+
+  it('appends before the trailing newline using the file line ending', () => {
+    const document = EnvDocument.parse('A=1\r\n');
+    document.append('B', '#two', 'added');
+    expect(document.toString()).toBe("A=1\r\nB='#two' # added\r\n");
+  });
+
+  it('inserts after an anchor key or at the top', () => {
+    const document = EnvDocument.parse('A=1\nC=3\n');
+    document.insertAfter('A', 'B', '2');
+    document.insertAfter(null, 'FIRST', '0');
+    expect(document.toString()).toBe('FIRST=0\nA=1\nB=2\nC=3\n');
+  });
+
+  it('updates values in place keeping quotes, spacing and comments', () => {
+    const document = EnvDocument.parse('export A = "old" # keep me\nB=plain\n');
+    document.updateValue('A', 'new');
+    document.updateValue('B', 'has # hash');
+    expect(document.toString()).toBe('export A = "new" # keep me\nB=\'has # hash\'\n');
+    expect(document.get('B')?.unquotedValue).toBe('has # hash');
+  });
+
+  it('drops the original quote when the value contains it', () => {
+    const document = EnvDocument.parse('A="x"\n');
+    document.updateValue('A', 'say "hi"');
+    expect(document.toString()).toBe('A=say "hi"\n');
+  });
+
+  it('removes, moves and renames entries', () => {
+    const document = EnvDocument.parse('A=1\nB=2 # b\nexport C=3\n');
+    expect(document.remove('A')).toBe(true);
+    expect(document.remove('MISSING')).toBe(false);
+    document.move('C', null);
+    document.rename('C', 'SEE');
+    expect(document.toString()).toBe('export SEE=3\nB=2 # b\n');
+  });
+
+  it('comments out every line of an entry', () => {
+    const document = EnvDocument.parse('A=1\nCERT="line1\nline2"\n');
+    expect(document.commentOut('CERT')).toBe(true);
+    expect(document.commentOut('MISSING')).toBe(false);
+    expect(document.toString()).toBe('A=1\n# CERT="line1\n# line2"\n');
+    expect(document.keys()).toEqual(['A']);
+  });
+
+  it('rejects edits on unknown keys and rename collisions', () => {
+    const document = EnvDocument.parse('A=1\nB=2\n');
+    expect(() => document.updateValue('MISSING', 'x')).toThrow(/not found/);
+    expect(() => document.rename('A', 'B')).toThrow(/already exists/);
+  });
+
+  describe('insertMirroring', () => {
+    const source = EnvDocument.parse(
+      '# Database\nDB_HOST=\nDB_PORT=\nDB_USER=\n\n# API\nAPI_URL=\nAPI_KEY=\n'
+    );
+
+    it('inserts after the nearest preceding neighbour from the source', () => {
+      const target = EnvDocument.parse('# Database\nDB_HOST=db\nDB_USER=me\nLOCAL=1\n');
+      target.insertMirroring(source, 'DB_PORT', '5432');
+      expect(target.toString()).toBe('# Database\nDB_HOST=db\nDB_PORT=5432\nDB_USER=me\nLOCAL=1\n');
+    });
+
+    it('places the first key of a section below an existing header', () => {
+      const target = EnvDocument.parse('DB_HOST=db\n\n# API\nAPI_KEY=k\n');
+      target.insertMirroring(source, 'API_URL', 'http://api');
+      expect(target.toString()).toBe('DB_HOST=db\n\n# API\nAPI_URL=http://api\nAPI_KEY=k\n');
+    });
+
+    it('brings a missing section header along', () => {
+      const target = EnvDocument.parse('# Database\nDB_HOST=db\nDB_PORT=1\nDB_USER=me\n');
+      target.insertMirroring(source, 'API_URL', 'u');
+      target.insertMirroring(source, 'API_KEY', 'k');
+      expect(target.toString()).toBe(
+        '# Database\nDB_HOST=db\nDB_PORT=1\nDB_USER=me\n\n# API\nAPI_URL=u\nAPI_KEY=k\n'
+      );
+    });
+
+    it('starts an empty document with the source layout', () => {
+      const target = EnvDocument.parse('');
+      target.insertMirroring(source, 'DB_HOST', '');
+      target.insertMirroring(source, 'DB_PORT', '');
+      expect(target.toString()).toBe('# Database\nDB_HOST=\nDB_PORT=\n');
+    });
+
+    it('appends keys unknown to the source', () => {
+      const target = EnvDocument.parse('DB_HOST=db\n');
+      target.insertMirroring(source, 'OTHER', '1');
+      expect(target.toString()).toBe('DB_HOST=db\nOTHER=1\n');
+    });
+  });
+
+  it('appends keys under a single "Added by env-twin" block', () => {
+    const document = EnvDocument.parse('A=1\n');
+    document.appendToAddedBlock('B', '2');
+    document.appendToAddedBlock('C', '3');
+    expect(document.toString()).toBe('A=1\n\n# Added by env-twin\nB=2\nC=3\n');
+  });
+});
@@ -0,0 +1,295 @@
+import { formatEnvValue, parseEnvContent, ParsedEnvLine } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LineEnding = '\n' | '\r\n';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const BOM = '\uFEFF';
+
+export const ADDED_BLOCK_MARKER = '# Added by env-twin';
+
+// ============================================================================
+// DOCUMENT MODEL
+// ============================================================================
+
+/**
+ * Lossless model of an env file: an ordered list of parsed entries (keys, comments,
+ * blank lines) that renders back to the exact original bytes until it is edited.
+ * Edits only rewrite the entries they touch, so quoting style, spacing, inline
+ * comments, line endings and the BOM of everything else are kept as-is.
+ */
+export class EnvDocument {
+  private nodes: ParsedEnvLine[];
+  public readonly bom: boolean;
+  public readonly eol: LineEnding;
+
+  private constructor(nodes: ParsedEnvLine[], bom: boolean, eol: LineEnding) {
+    this.nodes = nodes;
+    this.bom = bom;
+    this.eol = eol;
+  }
+
+  public static parse(content: string): EnvDocument {
+    const bom = content.startsWith(BOM);
+    let body = bom ? content.substring(BOM.length) : content;
+
+    // Only normalize when every line break is CRLF; mixed files keep their '\r' verbatim
+    const lineBreaks = body.split('\n').length - 1;
+    const crlfBreaks = body.split('\r\n').length - 1;
+    const eol: LineEnding = lineBreaks > 0 && crlfBreaks === lineBreaks ? '\r\n' : '\n';
+    if (eol === '\r\n') {
+      body = body.replace(/\r\n/g, '\n');
+    }
+
+    return new EnvDocument(parseEnvContent(body), bom, eol);
+  }
+
+  public get entries(): readonly ParsedEnvLine[] {
+    return this.nodes;
+  }
+
+  public keys(): string[] {
+    return this.nodes.filter(node => node.key).map(node => node.key);
+  }
+
+  public indexOf(key: string): number {
+    return this.nodes.findIndex(node => node.key === key);
+  }
+
+  public has(key: string): boolean {
+    return this.indexOf(key) !== -1;
+  }
+
+  public get(key: string): ParsedEnvLine | undefined {
+    return this.nodes.find(node => node.key === key);
+  }
+
+  /**
+   * Insert a new `KEY=value` entry directly after `anchorKey`.
+   * A `null` anchor inserts at the top of the file.
+   */
+  public insertAfter(anchorKey: string | null, key: string, value: string, comment?: string): void {
+    const index = anchorKey === null ? 0 : this.requireIndex(anchorKey) + 1;
+    this.nodes.splice(index, 0, buildEntry(key, value, comment));
+  }
+
+  /**
+   * Append a new entry after the last line, keeping the file's trailing newline in place.
+   */
+  public append(key: string, value: string, comment?: string): void {
+    this.nodes.splice(this.endIndex(), 0, buildEntry(key, value, comment));
+  }
+
+  /**
+   * Insert a key where it sits in `source`: after its nearest preceding neighbour from the
+   * same section, or right below the section header. When the section is new to this
+   * document it is added after the section of the nearest earlier key, bringing the
+   * source's header comment along. Keys unknown to `source` are appended.
+   */
+  public insertMirroring(source: EnvDocument, key: string, value: string, comment?: string): void {
+    const sourceIndex = source.indexOf(key);
+    if (sourceIndex === -1) {
+      this.append(key, value, comment);
+      return;
+    }
+
+    const entry = buildEntry(key, value, comment);
+    const sectionStart = source.runStart(sourceIndex);
+
+    for (let i = sourceIndex - 1; i >= sectionStart; i--) {
+      const neighbour = source.nodes[i].key;
+      if (neighbour && this.has(neighbour)) {
+        this.nodes.splice(this.indexOf(neighbour) + 1, 0, entry);
+        return;
+      }
+    }
+
+    const header: ParsedEnvLine[] = [];
+    for (let i = sectionStart; i < sourceIndex && source.nodes[i].isComment; i++) {
+      header.push(source.nodes[i]);
+    }
+
+    const headerIndex = header.length
+      ? this.nodes.findIndex(
+          node => node.isComment && node.originalLine.trim() === header[0].originalLine.trim()
+        )
+      : -1;
+    if (headerIndex !== -1) {
+      let index = headerIndex;
+      while (index < this.nodes.length && this.nodes[index].isComment) index++;
+      this.nodes.splice(index, 0, entry);
+      return;
+    }
+
+    for (let i = sectionStart - 1; i >= 0; i--) {
+      const earlier = source.nodes[i].key;
+      if (earlier && this.has(earlier)) {
+        const index = this.runEnd(this.indexOf(earlier));
+        this.nodes.splice(index, 0, parseEntry(''), ...header, entry);
+        return;
+      }
+    }
+
+    if (this.nodes.every(node => node.isEmpty)) {
+      this.nodes.splice(this.endIndex(), 0, ...header, entry);
+    } else {
+      this.nodes.splice(0, 0, ...header, entry, parseEntry(''));
+    }
+  }
+
+  /**
+   * Append a key to the block below the `# Added by env-twin` marker, creating the block
+   * at the end of the file when it does not exist yet.
+   */
+  public appendToAddedBlock(key: string, value: string, comment?: string): void {
+    const entry = buildEntry(key, value, comment);
+    const markerIndex = this.nodes.findIndex(
+      node => node.isComment && node.originalLine.trim() === ADDED_BLOCK_MARKER
+    );
+
+    if (markerIndex !== -1) {
+      this.nodes.splice(this.runEnd(markerIndex), 0, entry);
+      return;
+    }
+
+    const marker = parseEntry(ADDED_BLOCK_MARKER);
+    const hasContent = this.nodes.some(node => !node.isEmpty);
+    this.nodes.splice(
+      this.endIndex(),
+      0,
+      ...(hasContent ? [parseEntry(''), marker, entry] : [marker, entry])
+    );
+  }
+
+  /**
+   * Replace the value of an existing key. The original quote character is reused when
+   * the new value can be expressed with it; the inline comment is kept.
+   */
+  public updateValue(key: string, value: string): void {
+    const index = this.requireIndex(key);
+    const node = this.nodes[index];
+    const line = node.originalLine;
+    const eqIndex = line.indexOf('=');
+    const valueText = line.substring(eqIndex + 1);
+    const rawStart = valueText.length - valueText.trimStart().length;
+    const rawEnd = rawStart + node.rawValue.length;
+
+    const text =
+      line.substring(0, eqIndex + 1) +
+      valueText.substring(0, rawStart) +
+      formatWithQuote(value, node.quote) +
+      valueText.substring(rawEnd);
+    this.nodes[index] = parseEntry(text);
+  }
+
+  /**
+   * Remove a key. Returns false when the key is not present.
+   */
+  public remove(key: string): boolean {
+    const index = this.indexOf(key);
+    if (index === -1) return false;
+    this.nodes.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Turn an entry into a comment, prefixing every physical line of multiline values.
+   * Returns false when the key is not present.
+   */
+  public commentOut(key: string): boolean {
+    const index = this.indexOf(key);
+    if (index === -1) return false;
+    const commented = this.nodes[index].originalLine.split('\n').map(line => `# ${line}`);
+    this.nodes.splice(index, 1, ...commented.map(line => parseEntry(line)));
+    return true;
+  }
+
+  /**
+   * Move an entry after `anchorKey` (or to the top for `null`), keeping its text untouched.
+   */
+  public move(key: string, anchorKey: string | null): void {
+    if (key === anchorKey) return;
+    const [node] = this.nodes.splice(this.requireIndex(key), 1);
+    const index = anchorKey === null ? 0 : this.requireIndex(anchorKey) + 1;
+    this.nodes.splice(index, 0, node);
+  }
+
+  /**
+   * Rename a key in place, keeping any `export` prefix, spacing, value and comment.
+   */
+  public rename(key: string, newKey: string): void {
+    if (this.has(newKey)) {
+      throw new Error(`Cannot rename '${key}': key '${newKey}' already exists`);
+    }
+
+    const index = this.requireIndex(key);
+    const line = this.nodes[index].originalLine;
+    const eqIndex = line.indexOf('=');
+    const keyStart = line.lastIndexOf(key, eqIndex);
+    this.nodes[index] = parseEntry(
+      line.substring(0, keyStart) + newKey + line.substring(keyStart + key.length)
+    );
+  }
+
+  public toString(): string {
+    const body = this.nodes.map(node => node.originalLine).join('\n');
+    return (this.bom ? BOM : '') + (this.eol === '\n' ? body : body.replace(/\n/g, this.eol));
+  }
+
+  private requireIndex(key: string): number {
+    const index = this.indexOf(key);
+    if (index === -1) {
+      throw new Error(`Key '${key}' not found in document`);
+    }
+    return index;
+  }
+
+  /** First index of the run of non-blank lines containing `index`. */
+  private runStart(index: number): number {
+    let start = index;
+    while (start > 0 && !this.nodes[start - 1].isEmpty) start--;
+    return start;
+  }
+
+  /** Index just past the run of non-blank lines containing `index`. */
+  private runEnd(index: number): number {
+    let end = index + 1;
+    while (end < this.nodes.length && !this.nodes[end].isEmpty) end++;
+    return end;
+  }
+
+  /** Index after the last line, ignoring the empty string left by a trailing newline. */
+  private endIndex(): number {
+    const last = this.nodes[this.nodes.length - 1];
+    return last && last.originalLine === '' ? this.nodes.length - 1 : this.nodes.length;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function parseEntry(text: string): ParsedEnvLine {
+  const entries = parseEnvContent(text);
+  if (entries.length !== 1) {
+    throw new Error(`Generated entry spans ${entries.length} entries: ${text}`);
+  }
+  return entries[0];
+}
+
+function buildEntry(key: string, value: string, comment?: string): ParsedEnvLine {
+  const line = `${key}=${formatEnvValue(value)}`;
+  return parseEntry(comment ? `${line} # ${comment}` : line);
+}
+
+function formatWithQuote(value: string, quote: ParsedEnvLine['quote']): string {
+  // Double quotes expand escapes on read, so only reuse them when nothing would change
+  const fitsQuote = quote && !value.includes(quote) && (quote !== '"' || !/\\[nr]/.test(value));
+  return fitsQuote ? `${quote}${value}${quote}` : formatEnvValue(value);
+}
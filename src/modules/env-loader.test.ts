@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { envFilesFor, loadEnv, populateEnv } from './env-loader.js';
+
+let tempDir = '';
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-twin-loader-'));
+});
+
+afterEach(() => {
+  if (tempDir && fs.existsSync(tempDir)) {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+const write = (name: string, content: string) =>
+  fs.writeFileSync(path.join(tempDir, name), content);
+
+describe('env-loader', () => {
+  it('lists files lowest precedence first and skips .env.local in test mode', () => {
+    expect(envFilesFor()).toEqual(['.env', '.env.local']);
+    expect(envFilesFor('staging')).toEqual([
+      '.env',
+      '.env.local',
+      '.env.staging',
+      '.env.staging.local',
+    ]);
+    expect(envFilesFor('test')).toEqual(['.env', '.env.test', '.env.test.local']);
+  });
+
+  it('merges files with later files winning and records provenance', () => {
+    write('.env', 'A=base\nB=base\nC=base\nD="multi\nline"\n');
+    write('.env.local', 'B=local\n');
+    write('.env.staging', 'C=staging # comment\n');
+    write('.env.production', 'C=production\n');
+
+    expect(loadEnv({ cwd: tempDir, mode: 'staging', env: {} })).toEqual({
+      values: { A: 'base', B: 'local', C: 'staging', D: 'multi\nline' },
+      sources: { A: '.env', B: '.env.local', C: '.env.staging', D: '.env' },
+      files: ['.env', '.env.local', '.env.staging'],
+    });
+  });
+
+  it('keeps variables that are already set unless override is used', () => {
+    write('.env', 'A=file\nB=file\n');
+    const env = { A: 'shell', NODE_ENV: 'production' };
+
+    const loaded = loadEnv({ cwd: tempDir, env });
+    expect(loaded.values).toEqual({ A: 'shell', B: 'file' });
+    expect(loaded.sources.A).toBe('process.env');
+    expect(loadEnv({ cwd: tempDir, env, override: true }).values.A).toBe('file');
+  });
+
+  it('assigns the result to the target environment', () => {
+    write('.env', 'A=file\n');
+    const env: Record<string, string | undefined> = { B: 'kept' };
+
+    populateEnv({ cwd: tempDir, env });
+    expect(env).toEqual({ A: 'file', B: 'kept' });
+  });
+});
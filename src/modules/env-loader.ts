@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import { parseEnvContent } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LoadEnvOptions {
+  /** Selects `.env.[mode]` and `.env.[mode].local` (default: env.NODE_ENV) */
+  mode?: string;
+  /** Directory holding the env files (default: process.cwd()) */
+  cwd?: string;
+  /** Variables already set, which win over the files unless `override` (default: process.env) */
+  env?: Record<string, string | undefined>;
+  /** Let file values replace variables that are already set */
+  override?: boolean;
+}
+
+export interface LoadedEnv {
+  /** Final value of every key defined in a loaded file */
+  values: Record<string, string>;
+  /** Where each value came from: a file name, or `process.env` when it was already set */
+  sources: Record<string, string>;
+  /** Files that existed and were read, lowest precedence first */
+  files: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Provenance of values that were already set before loading. */
+export const PROCESS_ENV_SOURCE = 'process.env';
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * The files loaded for a mode, lowest precedence first, as in dotenv-flow:
+ * `.env`, `.env.local`, `.env.[mode]`, `.env.[mode].local`. `.env.local` is skipped in
+ * the `test` mode so tests do not depend on a developer's machine.
+ */
+export function envFilesFor(mode?: string): string[] {
+  const files = ['.env'];
+  if (mode !== 'test') files.push('.env.local');
+  if (mode) files.push(`.env.${mode}`, `.env.${mode}.local`);
+  return files;
+}
+
+/**
+ * Read the env files for a mode and merge them, later files winning. Variables that are
+ * already set win over every file unless `override` is set. Does not modify `env`.
+ */
+export function loadEnv(options: LoadEnvOptions = {}): LoadedEnv {
+  const cwd = options.cwd || process.cwd();
+  const env = options.env || process.env;
+  const mode = options.mode ?? env.NODE_ENV;
+
+  const values: Record<string, string> = {};
+  const sources: Record<string, string> = {};
+  const files: string[] = [];
+
+  for (const fileName of envFilesFor(mode)) {
+    const filePath = path.join(cwd, fileName);
+    if (!fs.existsSync(filePath)) continue;
+
+    files.push(fileName);
+    for (const parsed of parseEnvContent(fs.readFileSync(filePath, 'utf-8'))) {
+      if (!parsed.key || parsed.parseError) continue;
+      values[parsed.key] = parsed.unquotedValue;
+      sources[parsed.key] = fileName;
+    }
+  }
+
+  if (!options.override) {
+    for (const key of Object.keys(values)) {
+      const existing = env[key];
+      if (existing !== undefined) {
+        values[key] = existing;
+        sources[key] = PROCESS_ENV_SOURCE;
+      }
+    }
+  }
+
+  return { values, sources, files };
+}
+
+/**
+ * Load the env files and assign the result to `process.env` (or `options.env`).
+ */
+export function populateEnv(options: LoadEnvOptions = {}): LoadedEnv {
+  const env = options.env || process.env;
+  const loaded = loadEnv({ ...options, env });
+  Object.assign(env, loaded.values);
+  return loaded;
+}
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  environmentOf,
+  loadEnvSchema,
+  mergeEnvSchemas,
+  parseEnvSchema,
+  parseKeyDescriptions,
+  parseSchemaAnnotations,
+  SCHEMA_FILE,
+} from './env-schema.js';
+import { parseEnvContent } from './sync-logic.js';
+
+let tempDir = '';
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-twin-schema-'));
+});
+
+afterEach(() => {
+  if (tempDir && fs.existsSync(tempDir)) {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+describe('env-schema', () => {
+  it('loads .env.schema.json, a declared path or an inline schema', () => {
+    const schema = { keys: { PORT: { type: 'port', required: true } } };
+    fs.writeFileSync(path.join(tempDir, SCHEMA_FILE), JSON.stringify(schema));
+    fs.writeFileSync(path.join(tempDir, 'custom.json'), JSON.stringify({ keys: {} }));
+
+    expect(loadEnvSchema(tempDir)?.schema).toEqual({
+      keys: { PORT: { type: 'port', required: true } },
+    });
+    expect(loadEnvSchema(tempDir, 'custom.json')?.schema).toEqual({ keys: {} });
+    expect(loadEnvSchema(tempDir, { keys: {} })?.origin).toBe('config "schema"');
+    expect(() => loadEnvSchema(tempDir, 'missing.json')).toThrow(/not found/);
+
+    fs.rmSync(path.join(tempDir, SCHEMA_FILE));
+    expect(loadEnvSchema(tempDir)).toBeNull();
+  });
+
+  it('rejects malformed schemas', () => {
+    expect(() => parseEnvSchema({ keys: { A: { type: 'number' } } }, 'test')).toThrow(
+      /'keys.A.type' must be one of/
+    );
+    expect(() => parseEnvSchema({ keys: { A: { type: 'enum' } } }, 'test')).toThrow(
+      /'keys.A.values' is required/
+    );
+    expect(() => parseEnvSchema({ keys: { A: { requird: true } } }, 'test')).toThrow(
+      /unknown option 'keys.A.requird'/
+    );
+    expect(() => parseEnvSchema({ keys: { A: { pattern: '(' } } }, 'test')).toThrow(
+      /not a valid regular expression/
+    );
+  });
+
+  it('reads annotations from comments above a key and inline after it', () => {
+    const content = [
+      '# Base URL of the public API',
+      '# @required @type=url @example="https://api.example.com"',
+      'API_URL=input_api_url',
+      '',
+      '# Not documentation for LOG_LEVEL',
+      '',
+      'LOG_LEVEL=info # @type=enum @values=debug,info,warn',
+      '# @secret @requiredIn=production,staging',
+      '# OLD_TOKEN=abc',
+      'TOKEN=input_token',
+      '# @deprecated use TOKEN instead',
+      'LEGACY_TOKEN=',
+      'PLAIN=value',
+    ].join('\n');
+
+    expect(parseSchemaAnnotations(parseEnvContent(content), 'test')).toEqual({
+      keys: {
+        API_URL: {
+          description: 'Base URL of the public API',
+          required: true,
+          type: 'url',
+          example: 'https://api.example.com',
+        },
+        LOG_LEVEL: { type: 'enum', values: ['debug', 'info', 'warn'] },
+        TOKEN: { secret: true, requiredIn: ['production', 'staging'] },
+        LEGACY_TOKEN: { deprecated: 'use TOKEN instead' },
+        PLAIN: {},
+      },
+    });
+  });
+
+  it('returns null without annotations and rejects invalid ones', () => {
+    const plain = parseEnvContent('# Just a comment\nA=1\n');
+    expect(parseSchemaAnnotations(plain, 'test')).toBeNull();
+
+    const invalid = parseEnvContent('# @type=number\nA=1\n');
+    expect(() => parseSchemaAnnotations(invalid, '.env.example')).toThrow(
+      /Invalid schema in .env.example: 'keys.A.type'/
+    );
+  });
+
+  it('reads descriptions from plain comments without annotations', () => {
+    const content = [
+      '# Postgres connection string',
+      'DATABASE_URL=',
+      '# OLD_URL=postgres://x',
+      'PORT= # HTTP port',
+      '',
+      'PLAIN=value',
+    ].join('\n');
+
+    expect(parseKeyDescriptions(parseEnvContent(content))).toEqual({
+      keys: {
+        DATABASE_URL: { description: 'Postgres connection string' },
+        PORT: { description: 'HTTP port' },
+      },
+    });
+  });
+
+  it('merges schemas field by field, later schemas winning', () => {
+    const merged = mergeEnvSchemas(
+      { keys: { A: { type: 'url', description: 'from comments' }, B: { required: true } } },
+      { keys: { A: { type: 'string' }, C: { type: 'int' } } }
+    );
+    expect(merged.keys).toEqual({
+      A: { type: 'string', description: 'from comments' },
+      B: { required: true },
+      C: { type: 'int' },
+    });
+  });
+
+  it('derives the environment from the file name', () => {
+    expect(environmentOf('.env.production')).toBe('production');
+    expect(environmentOf('.env.production.local')).toBe('production');
+    expect(environmentOf('.env')).toBeUndefined();
+    expect(environmentOf('.env.local')).toBeUndefined();
+    expect(environmentOf('env/prod.env')).toBeUndefined();
+  });
+});
@@ -0,0 +1,357 @@
+import fs from 'fs';
+import path from 'path';
+import type { EnvFileInfo, ParsedEnvLine } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EnvValueType =
+  | 'string'
+  | 'int'
+  | 'bool'
+  | 'url'
+  | 'email'
+  | 'port'
+  | 'enum'
+  | 'duration'
+  | 'json';
+
+export interface EnvKeySchema {
+  type?: EnvValueType; // default: 'string'
+  required?: boolean;
+  requiredIn?: string[]; // environments where the key is required, e.g. ['production']
+  default?: string; // a missing key with a default is not an error
+  pattern?: string; // regular expression the whole value must match
+  values?: string[]; // allowed values for 'enum'
+  description?: string;
+  deprecated?: string | boolean; // a string explains what to use instead
+  example?: string; // documentation only; never validated
+  secret?: boolean; // the value is a credential and must not be shared
+}
+
+export interface EnvSchema {
+  keys: Record<string, EnvKeySchema>;
+}
+
+export interface LoadedSchema {
+  schema: EnvSchema;
+  origin: string; // file path or config location, for messages
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SCHEMA_FILE = '.env.schema.json';
+
+export const ENV_VALUE_TYPES: readonly EnvValueType[] = [
+  'string',
+  'int',
+  'bool',
+  'url',
+  'email',
+  'port',
+  'enum',
+  'duration',
+  'json',
+];
+
+const KEY_SCHEMA_FIELDS: readonly string[] = [
+  'type',
+  'required',
+  'requiredIn',
+  'default',
+  'pattern',
+  'values',
+  'description',
+  'deprecated',
+  'example',
+  'secret',
+];
+
+/** Tags understood in `.env.example` comments; other `@words` stay part of the description. */
+const ANNOTATION_TAGS: readonly string[] = [
+  'required',
+  'optional',
+  'requiredIn',
+  'type',
+  'default',
+  'pattern',
+  'values',
+  'example',
+  'secret',
+  'deprecated',
+];
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Load the env schema declared in config (a path or an inline object), falling back to
+ * `.env.schema.json` in `cwd`. Returns null when no schema exists.
+ */
+export function loadEnvSchema(cwd: string, declared?: string | EnvSchema): LoadedSchema | null {
+  if (declared && typeof declared === 'object') {
+    return { schema: parseEnvSchema(declared, 'config "schema"'), origin: 'config "schema"' };
+  }
+
+  const filePath = path.resolve(cwd, declared || SCHEMA_FILE);
+  if (!fs.existsSync(filePath)) {
+    if (declared) {
+      throw new Error(`Schema file '${declared}' not found`);
+    }
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read schema '${filePath}': ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return { schema: parseEnvSchema(raw, filePath), origin: filePath };
+}
+
+/**
+ * Check a raw schema object and return it typed. Unknown fields are rejected.
+ */
+export function parseEnvSchema(raw: unknown, origin: string): EnvSchema {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid schema in ${origin}: ${message}`);
+  };
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+  if (!isObject(raw)) fail('expected an object');
+  const input = raw as Record<string, unknown>;
+  for (const field of Object.keys(input)) {
+    if (field !== '$schema' && field !== 'keys') fail(`unknown option '${field}'`);
+  }
+  if (!isObject(input.keys)) fail(`'keys' must be an object`);
+
+  const keys: Record<string, EnvKeySchema> = {};
+  for (const [key, value] of Object.entries(input.keys as Record<string, unknown>)) {
+    if (!isObject(value)) fail(`'keys.${key}' must be an object`);
+    const entry = value as Record<string, unknown>;
+    const at = (field: string) => `'keys.${key}.${field}'`;
+
+    for (const field of Object.keys(entry)) {
+      if (!KEY_SCHEMA_FIELDS.includes(field)) fail(`unknown option ${at(field)}`);
+    }
+    if (entry.type !== undefined && !ENV_VALUE_TYPES.includes(entry.type as EnvValueType)) {
+      fail(`${at('type')} must be one of ${ENV_VALUE_TYPES.join(', ')}`);
+    }
+    for (const field of ['required', 'secret']) {
+      if (entry[field] !== undefined && typeof entry[field] !== 'boolean') {
+        fail(`${at(field)} must be a boolean`);
+      }
+    }
+    for (const field of ['default', 'pattern', 'description', 'example']) {
+      if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+        fail(`${at(field)} must be a string`);
+      }
+    }
+    for (const field of ['requiredIn', 'values']) {
+      const list = entry[field];
+      if (list !== undefined && (!Array.isArray(list) || list.some(v => typeof v !== 'string'))) {
+        fail(`${at(field)} must be an array of strings`);
+      }
+    }
+    if (
+      entry.deprecated !== undefined &&
+      typeof entry.deprecated !== 'string' &&
+      typeof entry.deprecated !== 'boolean'
+    ) {
+      fail(`${at('deprecated')} must be a string or a boolean`);
+    }
+    if (entry.type === 'enum' && !(entry.values as string[] | undefined)?.length) {
+      fail(`${at('values')} is required for type 'enum'`);
+    }
+    if (entry.pattern !== undefined) {
+      try {
+        new RegExp(entry.pattern as string);
+      } catch {
+        fail(`${at('pattern')} is not a valid regular expression`);
+      }
+    }
+
+    keys[key] = entry as EnvKeySchema;
+  }
+
+  return { keys };
+}
+
+// ============================================================================
+// ANNOTATIONS
+// ============================================================================
+
+/**
+ * Build a schema from annotation comments directly above each key or inline after it, e.g.
+ * `# Public API @required @type=url @example=https://api.example.com`.
+ * Plain comment text becomes the description. Values containing spaces can be quoted.
+ * Returns null when the file has no annotations at all.
+ */
+export function parseSchemaAnnotations(
+  parsedLines: ParsedEnvLine[],
+  origin: string
+): EnvSchema | null {
+  const keys: Record<string, Record<string, unknown>> = {};
+  let annotated = false;
+
+  for (const { key, comments } of commentBlocks(parsedLines)) {
+    const entry = parseAnnotationBlock(comments);
+    annotated = annotated || entry.annotated;
+    keys[key] = entry.schema;
+  }
+
+  return annotated ? parseEnvSchema({ keys }, origin) : null;
+}
+
+/**
+ * Descriptions from the plain comments above or after each key, whether or not the file
+ * uses any annotation tags. Keys without comment text are left out.
+ */
+export function parseKeyDescriptions(parsedLines: ParsedEnvLine[]): EnvSchema {
+  const keys: Record<string, EnvKeySchema> = {};
+  for (const { key, comments } of commentBlocks(parsedLines)) {
+    const { description } = parseAnnotationBlock(comments).schema;
+    if (typeof description === 'string') keys[key] = { description };
+  }
+  return { keys };
+}
+
+/** Each key with the comment lines directly above it and its inline comment. */
+function commentBlocks(parsedLines: ParsedEnvLine[]): Array<{ key: string; comments: string[] }> {
+  const blocks: Array<{ key: string; comments: string[] }> = [];
+  let comments: string[] = [];
+
+  for (const parsed of parsedLines) {
+    if (parsed.isComment) {
+      const text = parsed.originalLine.trim().replace(/^#+\s?/, '');
+      // Commented-out assignments are not documentation
+      if (!/^[A-Za-z_][\w.-]*\s*=/.test(text)) comments.push(text);
+      continue;
+    }
+    if (parsed.key) {
+      const inline = parsed.inlineComment ? [parsed.inlineComment] : [];
+      blocks.push({ key: parsed.key, comments: [...comments, ...inline] });
+    }
+    // A blank line or a key ends the comment block
+    comments = [];
+  }
+
+  return blocks;
+}
+
+function parseAnnotationBlock(comments: string[]): {
+  schema: Record<string, unknown>;
+  annotated: boolean;
+} {
+  const schema: Record<string, unknown> = {};
+  const description: string[] = [];
+  let annotated = false;
+
+  const tagPattern = new RegExp(`(^|\\s)@(${ANNOTATION_TAGS.join('|')})\\b`, 'g');
+  for (const comment of comments) {
+    const starts = Array.from(
+      comment.matchAll(tagPattern),
+      match => match.index! + match[1].length
+    );
+    const prose = comment.substring(0, starts.length ? starts[0] : comment.length).trim();
+    if (prose) description.push(prose);
+
+    starts.forEach((start, index) => {
+      const segment = comment.substring(start + 1, starts[index + 1] ?? comment.length).trim();
+      const match = /^(\w+)(?:=("[^"]*"|'[^']*'|\S*))?\s*(.*)$/.exec(segment)!;
+      const [, tag, rawValue, rest] = match;
+      const value = rawValue?.replace(/^(["'])(.*)\1$/, '$2');
+      annotated = true;
+
+      switch (tag) {
+        case 'required':
+        case 'optional':
+          schema.required = tag === 'required';
+          break;
+        case 'secret':
+          schema.secret = true;
+          break;
+        case 'deprecated':
+          schema.deprecated = value || rest || true;
+          return;
+        case 'requiredIn':
+        case 'values':
+          schema[tag] = (value || '')
+            .split(',')
+            .map(item => item.trim())
+            .filter(Boolean);
+          break;
+        default:
+          schema[tag] = value ?? '';
+      }
+      if (rest) description.push(rest);
+    });
+  }
+
+  if (description.length > 0) schema.description = description.join(' ');
+  return { schema, annotated };
+}
+
+/**
+ * The schema a project declares: annotations in its template file, overridden field by field
+ * by the schema file or config. Returns null when neither exists.
+ */
+export function loadProjectSchema(
+  cwd: string,
+  template: EnvFileInfo | undefined,
+  declared?: string | EnvSchema
+): LoadedSchema | null {
+  const annotations = template && parseSchemaAnnotations(template.parsedLines, template.fileName);
+  const loaded = loadEnvSchema(cwd, declared);
+  const sources = [
+    ...(annotations ? [{ schema: annotations, origin: `${template.fileName} annotations` }] : []),
+    ...(loaded ? [loaded] : []),
+  ];
+  if (sources.length === 0) return null;
+
+  return {
+    schema: mergeEnvSchemas(...sources.map(source => source.schema)),
+    origin: sources.map(source => source.origin).join(' + '),
+  };
+}
+
+/**
+ * Combine schemas key by key; later schemas override individual fields of earlier ones.
+ */
+export function mergeEnvSchemas(...schemas: EnvSchema[]): EnvSchema {
+  const keys: Record<string, EnvKeySchema> = {};
+  for (const schema of schemas) {
+    for (const [key, keySchema] of Object.entries(schema.keys)) {
+      keys[key] = { ...keys[key], ...keySchema };
+    }
+  }
+  return { keys };
+}
+
+// ============================================================================
+// ENVIRONMENTS
+// ============================================================================
+
+/**
+ * The environment a file belongs to, from its name: `.env.production` and
+ * `.env.production.local` are 'production'; `.env` and `.env.local` have none.
+ */
+export function environmentOf(fileName: string): string | undefined {
+  const baseName = path.posix.basename(fileName.split(path.sep).join('/'));
+  const match = /^\.env\.(.+?)(?:\.local)?$/.exec(baseName);
+  if (!match || match[1] === 'local') return undefined;
+  return match[1];
+}
+
+export function isRequiredIn(keySchema: EnvKeySchema, environment?: string): boolean {
+  if (keySchema.required) return true;
+  return Boolean(environment && keySchema.requiredIn?.includes(environment));
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'bun:test';
+import { EnvSchema } from './env-schema.js';
+import { formatIssue, validateEnvFile, validateValue } from './env-validator.js';
+import { EnvFileInfo, parseEnvContent } from './sync-logic.js';
+
+function buildFile(fileName: string, content: string): EnvFileInfo {
+  const parsedLines = parseEnvContent(content);
+  return {
+    filePath: fileName,
+    fileName,
+    exists: true,
+    content,
+    lines: content.split('\n'),
+    keys: new Set(parsedLines.filter(parsed => parsed.key).map(parsed => parsed.key)),
+    parsedLines,
+  };
+}
+
+const schema: EnvSchema = {
+  keys: {
+    PORT: { type: 'port', required: true },
+    DEBUG: { type: 'bool', default: 'false' },
+    LOG_LEVEL: { type: 'enum', values: ['debug', 'info', 'warn'] },
+    API_URL: { type: 'url', requiredIn: ['production'] },
+    TIMEOUT: { type: 'duration' },
+    REGION: { pattern: '[a-z]{2}-[a-z]+-\\d' },
+    OLD_HOST: { deprecated: 'use API_URL' },
+  },
+};
+
+describe('env-validator', () => {
+  it('checks values against their types', () => {
+    expect(validateValue('8080', { type: 'port' })).toBeNull();
+    expect(validateValue('70000', { type: 'port' })).toBe('expected a port');
+    expect(validateValue('12x', { type: 'int' })).toBe('expected an int');
+    expect(validateValue('yes', { type: 'bool' })).toBeNull();
+    expect(validateValue('1h30m', { type: 'duration' })).toBeNull();
+    expect(validateValue('{"a":1}', { type: 'json' })).toBeNull();
+    expect(validateValue('me@example.com', { type: 'email' })).toBeNull();
+    expect(validateValue('', { type: 'int' })).toBeNull();
+    expect(validateValue('', { required: true })).toBe('is required but empty');
+  });
+
+  it('reports issues with file and line locations', () => {
+    const file = buildFile(
+      '.env.production',
+      '# App\nPORT=80a\nLOG_LEVEL=trace\nREGION=eu-west-1\nOLD_HOST=x\nEXTRA=1\n'
+    );
+
+    expect(validateEnvFile(file, schema).map(formatIssue)).toEqual([
+      '.env.production:2 PORT expected a port',
+      '.env.production:3 LOG_LEVEL expected one of debug, info, warn',
+      '.env.production:5 OLD_HOST is deprecated: use API_URL',
+      '.env.production:6 EXTRA is not declared in the schema',
+      '.env.production API_URL is required in production but missing',
+    ]);
+  });
+
+  it('applies per-environment requirements and defaults', () => {
+    const file = buildFile('.env', 'PORT=3000\n');
+    expect(validateEnvFile(file, schema)).toEqual([]);
+
+    const missing = validateEnvFile(buildFile('.env.local', 'DEBUG=maybe\n'), schema);
+    expect(missing.map(issue => [issue.key, issue.severity, issue.message])).toEqual([
+      ['DEBUG', 'error', 'expected a bool'],
+      ['PORT', 'error', 'is required but missing'],
+    ]);
+  });
+});
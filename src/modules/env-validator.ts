@@ -0,0 +1,140 @@
+import {
+  EnvKeySchema,
+  EnvSchema,
+  EnvValueType,
+  environmentOf,
+  isRequiredIn,
+} from './env-schema.js';
+import { entryLineNumbers, EnvFileInfo } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  file: string;
+  line?: number; // absent for keys that are missing from the file
+  key: string;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+// ============================================================================
+// VALUE CHECKS
+// ============================================================================
+
+const MAX_PORT = 65535;
+
+const TYPE_CHECKS: Record<EnvValueType, (value: string) => boolean> = {
+  string: () => true,
+  int: value => /^[-+]?\d+$/.test(value),
+  bool: value => /^(true|false|1|0|yes|no|on|off)$/i.test(value),
+  url: value => {
+    try {
+      return /^[a-z][a-z0-9+.-]*:\/\//i.test(value) && Boolean(new URL(value));
+    } catch {
+      return false;
+    }
+  },
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  port: value => /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= MAX_PORT,
+  enum: () => true, // checked against `values` below
+  duration: value => /^(\d+(\.\d+)?(ms|s|m|h|d|w))+$/.test(value) || /^\d+$/.test(value),
+  json: value => {
+    try {
+      JSON.parse(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
+
+/**
+ * Check one value against its key schema. Returns a message, or null when valid.
+ * Empty values only fail when the key is required.
+ */
+export function validateValue(
+  value: string,
+  keySchema: EnvKeySchema,
+  required = Boolean(keySchema.required)
+): string | null {
+  if (value === '') {
+    return required ? 'is required but empty' : null;
+  }
+
+  const type = keySchema.type || 'string';
+  if (!TYPE_CHECKS[type](value)) {
+    return `expected ${type === 'int' ? 'an' : 'a'} ${type}`;
+  }
+  if (type === 'enum' && !keySchema.values?.includes(value)) {
+    return `expected one of ${keySchema.values?.join(', ')}`;
+  }
+  if (keySchema.pattern && !new RegExp(`^(?:${keySchema.pattern})$`).test(value)) {
+    return `does not match pattern ${keySchema.pattern}`;
+  }
+  return null;
+}
+
+// ============================================================================
+// FILE VALIDATION
+// ============================================================================
+
+/**
+ * Validate one env file against the schema: missing required keys, invalid values,
+ * deprecated keys and keys the schema does not know about (as warnings).
+ */
+export function validateEnvFile(file: EnvFileInfo, schema: EnvSchema): ValidationIssue[] {
+  const environment = environmentOf(file.fileName);
+  const lines = entryLineNumbers(file.parsedLines);
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+
+  file.parsedLines.forEach((parsed, index) => {
+    if (!parsed.key) return;
+    seen.add(parsed.key);
+    const at = { file: file.fileName, line: lines[index], key: parsed.key };
+    const keySchema = schema.keys[parsed.key];
+
+    if (!keySchema) {
+      issues.push({ ...at, severity: 'warning', message: 'is not declared in the schema' });
+      return;
+    }
+
+    if (keySchema.deprecated) {
+      const hint = typeof keySchema.deprecated === 'string' ? `: ${keySchema.deprecated}` : '';
+      issues.push({ ...at, severity: 'warning', message: `is deprecated${hint}` });
+    }
+
+    const problem = validateValue(
+      parsed.unquotedValue,
+      keySchema,
+      isRequiredIn(keySchema, environment)
+    );
+    if (problem) {
+      issues.push({ ...at, severity: 'error', message: problem });
+    }
+  });
+
+  for (const [key, keySchema] of Object.entries(schema.keys)) {
+    if (seen.has(key) || keySchema.default !== undefined) continue;
+    if (isRequiredIn(keySchema, environment)) {
+      const scope = keySchema.required ? '' : ` in ${environment}`;
+      issues.push({
+        file: file.fileName,
+        key,
+        severity: 'error',
+        message: `is required${scope} but missing`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  const location = issue.line ? `${issue.file}:${issue.line}` : issue.file;
+  return `${location} ${issue.key} ${issue.message}`;
+}
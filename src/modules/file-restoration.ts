@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { BackupInfo } from '../utils/backup.js';
 import { writeAtomic } from '../utils/atomic-fs.js';
+import { ACCESS_READ, ACCESS_WRITE, EnvFs, EnvFsStats, nodeFs } from '../utils/env-fs.js';
 
 /**
  * File Restoration Module
@@ -53,9 +54,11 @@ export class FileRestorer {
   private backupDir: string;
   private rollbackManager: any; // Will be set after importing rollback manager
   private progressCallback?: ProgressCallback;
+  private fs: EnvFs;
 
-  constructor(cwd: string = process.cwd()) {
+  constructor(cwd: string = process.cwd(), fs: EnvFs = nodeFs) {
     this.cwd = path.resolve(cwd);
+    this.fs = fs;
     this.backupDir = path.join(this.cwd, '.env-twin');
   }
 
@@ -234,15 +237,15 @@ export class FileRestorer {
       const targetFilePath = path.join(this.cwd, fileName);
 
       // Check if backup file exists and is readable
-      if (!fs.existsSync(backupFilePath)) {
+      if (!this.fs.exists(backupFilePath)) {
         return { success: false, error: `Backup file not found: ${backupFilePath}` };
       }
 
       // Check if target directory exists and is writable
       const targetDir = path.dirname(targetFilePath);
-      if (!fs.existsSync(targetDir)) {
+      if (!this.fs.exists(targetDir)) {
         try {
-          fs.mkdirSync(targetDir, { recursive: true });
+          this.fs.mkdir(targetDir, { recursive: true });
         } catch (error) {
           return { success: false, error: `Cannot create target directory: ${targetDir}` };
         }
@@ -250,7 +253,7 @@ export class FileRestorer {
 
       // Check write permissions
       try {
-        fs.accessSync(targetDir, fs.constants.W_OK);
+        this.fs.access(targetDir, ACCESS_WRITE);
       } catch (error) {
         return { success: false, error: `No write permission for directory: ${targetDir}` };
       }
@@ -258,21 +261,21 @@ export class FileRestorer {
       // Read backup file content
       let content: string;
       try {
-        content = fs.readFileSync(backupFilePath, 'utf-8');
+        content = this.fs.readFile(backupFilePath);
       } catch (error) {
         return { success: false, error: `Cannot read backup file: ${backupFilePath}` };
       }
 
       // Get current file stats if it exists (for rollback)
-      let currentStats: fs.Stats | null = null;
+      let currentStats: EnvFsStats | null = null;
       try {
         // Security: Check for symlinks to prevent arbitrary file overwrite
-        const lstat = fs.lstatSync(targetFilePath);
+        const lstat = this.fs.lstat(targetFilePath);
         if (lstat.isSymbolicLink()) {
           // If it's a symlink, we must remove it before writing to ensure we don't
           // overwrite the file it points to (which could be outside CWD).
           try {
-            fs.unlinkSync(targetFilePath);
+            this.fs.unlink(targetFilePath);
           } catch (unlinkError) {
             return {
               success: false,
@@ -289,7 +292,7 @@ export class FileRestorer {
               error: `Target '${fileName}' is a directory, cannot overwrite with file.`,
             };
           }
-          currentStats = fs.statSync(targetFilePath);
+          currentStats = this.fs.stat(targetFilePath);
         }
       } catch (error: any) {
         // If file doesn't exist, that's fine. Other errors are problems.
@@ -308,7 +311,7 @@ export class FileRestorer {
 
       // Write content to target file atomically
       try {
-        writeAtomic(targetFilePath, content, { mode });
+        writeAtomic(targetFilePath, content, { mode, fs: this.fs });
       } catch (error) {
         return { success: false, error: `Cannot write to target file: ${targetFilePath}` };
       }
@@ -317,7 +320,7 @@ export class FileRestorer {
       if (options.preserveTimestamps && currentStats) {
         try {
           // Preserve access and modification times
-          fs.utimesSync(targetFilePath, currentStats.atime, currentStats.mtime);
+          this.fs.utimes(targetFilePath, currentStats.atime, currentStats.mtime);
         } catch (error) {
           // Continue anyway, just warning
         }
@@ -349,23 +352,23 @@ export class FileRestorer {
 
       try {
         // Check file exists
-        if (!fs.existsSync(backupFilePath)) {
+        if (!this.fs.exists(backupFilePath)) {
           errors.push(`Backup file missing: ${backupFilePath}`);
           continue;
         }
 
         // Check file is readable
-        fs.accessSync(backupFilePath, fs.constants.R_OK);
+        this.fs.access(backupFilePath, ACCESS_READ);
 
         // Check file size
-        const stats = fs.statSync(backupFilePath);
+        const stats = this.fs.stat(backupFilePath);
         if (stats.size === 0) {
           warnings.push(`Backup file is empty: ${fileName}`);
         }
 
         // Try to read file content to ensure it's not corrupted
         try {
-          fs.readFileSync(backupFilePath, 'utf-8');
+          this.fs.readFile(backupFilePath);
         } catch (error) {
           errors.push(`Backup file corrupted or has encoding issues: ${fileName}`);
         }
@@ -430,7 +433,7 @@ export class FileRestorer {
       // For now, we'll just check if file exists
       // In a real implementation, you might want to compare with git status
       // or maintain a hash of the last known state
-      if (fs.existsSync(targetFilePath)) {
+      if (this.fs.exists(targetFilePath)) {
         changedFiles.push(fileName);
       }
     }
@@ -450,12 +453,12 @@ export class FileRestorer {
   ): { exists: boolean; size?: number; modified?: Date } {
     const targetFilePath = path.join(this.cwd, fileName);
 
-    if (!fs.existsSync(targetFilePath)) {
+    if (!this.fs.exists(targetFilePath)) {
       return { exists: false };
     }
 
     try {
-      const stats = fs.statSync(targetFilePath);
+      const stats = this.fs.stat(targetFilePath);
       return {
         exists: true,
         size: stats.size,
@@ -0,0 +1,270 @@
+import { isSecret } from './secrets.js';
+import { entryLineNumbers, ParsedEnvLine } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EnvReference {
+  name: string;
+  raw: string; // the reference as written, e.g. '${DB_HOST:-localhost}'
+  operator?: ':-' | '-'; // ':-' falls back when unset or empty, '-' only when unset
+  fallback?: string; // may contain references itself
+}
+
+type Token = string | EnvReference;
+
+export type ReferenceIssueKind = 'undefined-reference' | 'self-reference' | 'cycle';
+
+export interface ReferenceIssue {
+  key: string;
+  line?: number;
+  kind: ReferenceIssueKind;
+  reference?: string; // for undefined references
+  cycle?: string[]; // for cycles, e.g. ['A', 'B', 'A']
+}
+
+export interface ReferenceAnalysis {
+  /** Names each key references, including references inside fallbacks */
+  graph: Record<string, string[]>;
+  issues: ReferenceIssue[];
+  /** Names that are referenced but never defined in the file */
+  referencedOnly: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*/;
+const BRACED = /^([A-Za-z_][A-Za-z0-9_]*)(?:(:?-)([\s\S]*))?$/;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Split a value into literal text and `${VAR}`, `$VAR`, `${VAR:-default}` and
+ * `${VAR-default}` references. `\$` is a literal dollar sign.
+ */
+function tokenize(value: string): Token[] {
+  const tokens: Token[] = [];
+  let text = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && value[i + 1] === '$') {
+      text += '$';
+      i++;
+      continue;
+    }
+    if (char !== '$') {
+      text += char;
+      continue;
+    }
+
+    let reference: EnvReference | undefined;
+    let end = i;
+    if (value[i + 1] === '{') {
+      end = findClosingBrace(value, i + 2);
+      const match = end === -1 ? null : BRACED.exec(value.substring(i + 2, end));
+      if (match) {
+        reference = {
+          name: match[1],
+          raw: value.substring(i, end + 1),
+          ...(match[2] ? { operator: match[2] as ':-' | '-', fallback: match[3] } : {}),
+        };
+      }
+    } else {
+      const match = NAME.exec(value.substring(i + 1));
+      if (match) {
+        end = i + match[0].length;
+        reference = { name: match[0], raw: `$${match[0]}` };
+      }
+    }
+
+    if (!reference) {
+      text += char;
+      continue;
+    }
+    if (text) tokens.push(text);
+    tokens.push(reference);
+    text = '';
+    i = end;
+  }
+
+  if (text) tokens.push(text);
+  return tokens;
+}
+
+function findClosingBrace(value: string, from: number): number {
+  let depth = 1;
+  for (let i = from; i < value.length; i++) {
+    if (value[i] === '{') depth++;
+    if (value[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * References in a value, in order. References inside fallbacks are not included.
+ */
+export function parseReferences(value: string): EnvReference[] {
+  return tokenize(value).filter((token): token is EnvReference => typeof token !== 'string');
+}
+
+/** Single-quoted values are literal, as in dotenv-expand. */
+function isInterpolated(parsed: ParsedEnvLine): boolean {
+  return Boolean(parsed.key) && !parsed.parseError && parsed.quote !== "'";
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Build the reference graph of one file and flag references to undefined keys (unless they
+ * have a fallback), keys that reference themselves and reference cycles.
+ */
+export function analyzeReferences(parsedLines: ParsedEnvLine[]): ReferenceAnalysis {
+  const lines = entryLineNumbers(parsedLines);
+  const defined = new Set(parsedLines.filter(parsed => parsed.key).map(parsed => parsed.key));
+  const graph: Record<string, string[]> = {};
+  const lineOf: Record<string, number> = {};
+  const issues: ReferenceIssue[] = [];
+  const referencedOnly = new Set<string>();
+
+  parsedLines.forEach((parsed, index) => {
+    if (!isInterpolated(parsed)) return;
+    const key = parsed.key;
+    lineOf[key] = lines[index];
+
+    const collect = (value: string): string[] =>
+      parseReferences(value).flatMap(reference => {
+        if (!defined.has(reference.name)) {
+          referencedOnly.add(reference.name);
+          if (reference.fallback === undefined) {
+            issues.push({
+              key,
+              line: lines[index],
+              kind: 'undefined-reference',
+              reference: reference.name,
+            });
+          }
+        }
+        return [reference.name, ...(reference.fallback ? collect(reference.fallback) : [])];
+      });
+
+    const names = Array.from(new Set(collect(parsed.unquotedValue)));
+    graph[key] = names;
+    if (names.includes(key)) {
+      issues.push({ key, line: lines[index], kind: 'self-reference' });
+    }
+  });
+
+  findCycles(graph).forEach(cycle => {
+    issues.push({ key: cycle[0], line: lineOf[cycle[0]], kind: 'cycle', cycle });
+  });
+
+  return { graph, issues, referencedOnly: Array.from(referencedOnly) };
+}
+
+/** Cycles of two or more keys, each reported once; self references are not included. */
+function findCycles(graph: Record<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (key: string) => {
+    const position = stack.indexOf(key);
+    if (position !== -1) {
+      const cycle = stack.slice(position);
+      if (cycle.length > 1) cycles.push([...cycle, key]);
+      return;
+    }
+    if (done.has(key) || !graph[key]) return;
+
+    stack.push(key);
+    graph[key].filter(name => name !== key).forEach(visit);
+    stack.pop();
+    done.add(key);
+  };
+
+  Object.keys(graph).forEach(visit);
+  return cycles;
+}
+
+export function describeReferenceIssue(issue: ReferenceIssue): string {
+  switch (issue.kind) {
+    case 'undefined-reference':
+      return `references undefined ${issue.reference}`;
+    case 'self-reference':
+      return 'references itself';
+    case 'cycle':
+      return `is part of a reference cycle ${issue.cycle?.join(' → ')}`;
+  }
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+/**
+ * Resolve the references of every key in a file. Undefined names expand to an empty string
+ * unless they have a fallback; references that would loop forever are left as written.
+ */
+export function expandEnv(parsedLines: ParsedEnvLine[]): Record<string, string> {
+  const raw = new Map<string, ParsedEnvLine>();
+  parsedLines.forEach(parsed => {
+    if (parsed.key) raw.set(parsed.key, parsed);
+  });
+
+  const resolved = new Map<string, string>();
+  const resolving = new Set<string>();
+
+  const resolveKey = (key: string): string | undefined => {
+    const parsed = raw.get(key);
+    if (!parsed) return undefined;
+    if (resolved.has(key)) return resolved.get(key);
+    if (!isInterpolated(parsed)) return parsed.unquotedValue;
+
+    resolving.add(key);
+    const value = interpolate(parsed.unquotedValue);
+    resolving.delete(key);
+    resolved.set(key, value);
+    return value;
+  };
+
+  const interpolate = (value: string): string =>
+    tokenize(value)
+      .map(token => {
+        if (typeof token === 'string') return token;
+        if (resolving.has(token.name)) return token.raw;
+
+        const current = resolveKey(token.name);
+        const useFallback =
+          token.operator === ':-' ? !current : token.operator === '-' && current === undefined;
+        return useFallback ? interpolate(token.fallback || '') : current || '';
+      })
+      .join('');
+
+  return Object.fromEntries(Array.from(raw.keys()).map(key => [key, resolveKey(key) || '']));
+}
+
+/**
+ * Whether an expanded value may contain a secret: the key itself looks secret, or it
+ * references (directly or through other keys) a key that does.
+ */
+export function dependsOnSecret(
+  key: string,
+  graph: Record<string, string[]>,
+  values: Record<string, string>
+): boolean {
+  const seen = new Set<string>();
+  const visit = (name: string): boolean => {
+    if (seen.has(name)) return false;
+    seen.add(name);
+    return isSecret(name, values[name] || '') || (graph[name] || []).some(visit);
+  };
+  return visit(key);
+}
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildKeyMatrix, renderKeyMatrix } from './key-matrix.js';
+import { EnvFileAnalysis } from './sync-logic.js';
+
+let tempDir = '';
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-twin-matrix-'));
+  fs.writeFileSync(path.join(tempDir, '.env'), 'API_URL=https://api\nDB_HOST=db\nDB_PORT=5432\n');
+  fs.writeFileSync(
+    path.join(tempDir, '.env.example'),
+    'API_URL="input_api_url"\nDB_HOST="input_db_host"\nDB_PORT=\n'
+  );
+  fs.writeFileSync(path.join(tempDir, '.env.staging'), 'API_URL=https://staging\nDB_HOST=\n');
+});
+
+afterEach(() => {
+  if (tempDir && fs.existsSync(tempDir)) {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+const analyze = () => new EnvFileAnalysis(tempDir).analyze({ sourceOfTruth: '.env' });
+
+describe('key-matrix', () => {
+  it('classifies every cell against the Source of Truth', () => {
+    const matrix = buildKeyMatrix(analyze());
+    const byKey = Object.fromEntries(matrix.rows.map(row => [row.key, row]));
+
+    expect(matrix.sourceOfTruth).toBe('.env');
+    expect(byKey.API_URL.cells).toEqual({
+      '.env': 'present',
+      '.env.example': 'placeholder',
+      '.env.staging': 'different',
+    });
+    expect(byKey.DB_HOST.cells['.env.staging']).toBe('empty');
+    expect(byKey.DB_PORT.cells['.env.staging']).toBe('missing');
+
+    // Placeholders and empty values are expected in .env.example, not elsewhere
+    expect(byKey.API_URL.problem).toBe(false);
+    expect(byKey.DB_HOST.problem).toBe(true);
+    expect(byKey.DB_PORT.problem).toBe(true);
+  });
+
+  it('filters by key prefix and problems', () => {
+    expect(buildKeyMatrix(analyze(), { prefix: 'DB_' }).rows.map(row => row.key)).toEqual([
+      'DB_HOST',
+      'DB_PORT',
+    ]);
+    expect(buildKeyMatrix(analyze(), { onlyProblems: true }).rows.map(row => row.key)).toEqual([
+      'DB_HOST',
+      'DB_PORT',
+    ]);
+  });
+
+  it('exports Markdown, CSV and HTML without values', () => {
+    const matrix = buildKeyMatrix(analyze(), { prefix: 'API_' });
+    const columns = matrix.files.map(file => (file === '.env' ? '.env (source)' : file));
+
+    expect(renderKeyMatrix(matrix, 'markdown').split('\n')[0]).toBe(
+      `| Key | ${columns.join(' | ')} |`
+    );
+    expect(renderKeyMatrix(matrix, 'csv').split('\n')).toEqual([
+      ['Key', ...columns].join(','),
+      ['API_URL', ...matrix.files.map(file => matrix.rows[0].cells[file])].join(','),
+    ]);
+
+    const html = renderKeyMatrix(matrix, 'html');
+    expect(html).toContain('<th scope="row">API_URL</th>');
+    expect(html).toContain('<td class="different">≠ source</td>');
+    expect(html).not.toContain('https://');
+  });
+});
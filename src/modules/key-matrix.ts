@@ -0,0 +1,169 @@
+import { TEMPLATE_FILE } from './leak-scanner.js';
+import { isGeneratedPlaceholder } from './placeholders.js';
+import { EnvAnalysisReport, EnvFileInfo } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CellState = 'present' | 'missing' | 'empty' | 'placeholder' | 'different';
+
+export interface MatrixRow {
+  key: string;
+  cells: Record<string, CellState>; // by file name
+  problem: boolean;
+}
+
+export interface KeyMatrix {
+  sourceOfTruth: string; // '' when there is none
+  files: string[];
+  rows: MatrixRow[];
+}
+
+export interface MatrixOptions {
+  placeholderTemplate?: string;
+  onlyProblems?: boolean;
+  prefix?: string;
+}
+
+export type MatrixFormat = 'text' | 'markdown' | 'csv' | 'html';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MATRIX_FORMATS: readonly MatrixFormat[] = ['text', 'markdown', 'csv', 'html'];
+
+const CELL_LABELS: Record<CellState, string> = {
+  present: '✓',
+  missing: '✗ missing',
+  empty: 'empty',
+  placeholder: 'placeholder',
+  different: '≠ source',
+};
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * Lay out every key against every discovered file. A cell is 'different' when the Source of
+ * Truth holds a real value (not empty, not a placeholder) and the file's value differs.
+ * A row is a problem when a file lacks the key, or a file other than the template leaves it
+ * empty or as a placeholder.
+ */
+export function buildKeyMatrix(report: EnvAnalysisReport, options: MatrixOptions = {}): KeyMatrix {
+  const values = new Map(report.files.map(file => [file.fileName, lastValues(file)]));
+  const sourceValues = values.get(report.sourceOfTruth);
+  const isPlaceholder = (key: string, value: string) =>
+    isGeneratedPlaceholder(value, { key }, options.placeholderTemplate);
+
+  const rows = Array.from(report.allKeys)
+    .filter(key => !options.prefix || key.startsWith(options.prefix))
+    .map(key => {
+      const sourceValue = sourceValues?.get(key);
+      const comparable = Boolean(sourceValue) && !isPlaceholder(key, sourceValue!);
+      const cells: Record<string, CellState> = {};
+      let problem = false;
+
+      for (const file of report.files) {
+        const value = values.get(file.fileName)!.get(key) ?? '';
+        const state: CellState = !file.keys.has(key)
+          ? 'missing'
+          : value === ''
+            ? 'empty'
+            : isPlaceholder(key, value)
+              ? 'placeholder'
+              : comparable && file.fileName !== report.sourceOfTruth && value !== sourceValue
+                ? 'different'
+                : 'present';
+        cells[file.fileName] = state;
+
+        const incomplete = state === 'empty' || state === 'placeholder';
+        if (state === 'missing' || (incomplete && file.fileName !== TEMPLATE_FILE)) {
+          problem = true;
+        }
+      }
+
+      return { key, cells, problem };
+    })
+    .filter(row => !options.onlyProblems || row.problem);
+
+  return {
+    sourceOfTruth: report.sourceOfTruth,
+    files: report.files.map(file => file.fileName),
+    rows,
+  };
+}
+
+function lastValues(file: EnvFileInfo): Map<string, string> {
+  const values = new Map<string, string>();
+  file.parsedLines.forEach(parsed => {
+    if (parsed.key) values.set(parsed.key, parsed.unquotedValue);
+  });
+  return values;
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Render the matrix for export. Text output is left to the command, which colors it.
+ */
+export function renderKeyMatrix(matrix: KeyMatrix, format: Exclude<MatrixFormat, 'text'>): string {
+  const header = ['Key', ...matrix.files.map(file => headerLabel(matrix, file))];
+  const rows = matrix.rows.map(row => [
+    row.key,
+    ...matrix.files.map(file => CELL_LABELS[row.cells[file]]),
+  ]);
+
+  switch (format) {
+    case 'markdown': {
+      const escape = (cell: string) => cell.replace(/\|/g, '\\|');
+      const line = (cells: string[]) => `| ${cells.map(escape).join(' | ')} |`;
+      return [line(header), line(header.map(() => '---')), ...rows.map(line)].join('\n');
+    }
+    case 'csv': {
+      const escape = (cell: string) =>
+        /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+      const stateRows = matrix.rows.map(row => [
+        row.key,
+        ...matrix.files.map(file => row.cells[file]),
+      ]);
+      return [header, ...stateRows].map(cells => cells.map(escape).join(',')).join('\n');
+    }
+    case 'html': {
+      const escape = (cell: string) =>
+        cell
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/"/g, '&quot;');
+      const body = matrix.rows.map(row => {
+        const cells = matrix.files.map(
+          file => `<td class="${row.cells[file]}">${escape(CELL_LABELS[row.cells[file]])}</td>`
+        );
+        return `    <tr><th scope="row">${escape(row.key)}</th>${cells.join('')}</tr>`;
+      });
+      return [
+        '<table class="env-twin-matrix">',
+        '  <thead>',
+        `    <tr>${header.map(cell => `<th scope="col">${escape(cell)}</th>`).join('')}</tr>`,
+        '  </thead>',
+        '  <tbody>',
+        ...body,
+        '  </tbody>',
+        '</table>',
+      ].join('\n');
+    }
+  }
+}
+
+export function headerLabel(matrix: KeyMatrix, file: string): string {
+  return file === matrix.sourceOfTruth ? `${file} (source)` : file;
+}
+
+export function cellLabel(state: CellState): string {
+  return CELL_LABELS[state];
+}
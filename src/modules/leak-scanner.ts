@@ -0,0 +1,189 @@
+import { PlaceholderConfig } from '../utils/config.js';
+import { isGeneratedPlaceholder, renderPlaceholder } from './placeholders.js';
+import { classifySecret, isSecret, isSecretKeyName, SecretReason } from './secrets.js';
+import { entryLineNumbers, EnvFileInfo } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LeakReason = 'exact-match' | 'near-match' | Exclude<SecretReason, 'key-name'>;
+
+export interface LeakFinding {
+  file: string;
+  key: string;
+  line?: number; // 1-based, when scanning a file on disk
+  reason: LeakReason;
+  matchedFile?: string; // for matches: where the real value lives
+  matchedKey?: string;
+}
+
+export interface TemplateValue {
+  key: string;
+  value: string;
+  line?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TEMPLATE_FILE = '.env.example';
+
+/** Values shorter than this are too common to call a near match. */
+const MIN_NEAR_MATCH_LENGTH = 8;
+
+/** Real values shorter than this are only compared when they are classified as secrets. */
+const MIN_REAL_VALUE_LENGTH = 8;
+const NEAR_MATCH_SIMILARITY = 0.8;
+
+/** Edit distance gets expensive and meaningless for very long values. */
+const MAX_COMPARED_LENGTH = 256;
+
+// ============================================================================
+// SCANNING
+// ============================================================================
+
+/**
+ * Find template values that look like real credentials: values shaped like tokens,
+ * URLs with credentials or high-entropy strings, and values equal or close to a real
+ * value held in one of the other env files when either side looks secret. Plain defaults
+ * such as `DB_HOST=localhost` are expected in a template. Generated placeholders and values
+ * the placeholder config keeps on purpose are not matched.
+ */
+export function findLeaks(
+  templateFile: string,
+  values: TemplateValue[],
+  realFiles: EnvFileInfo[],
+  placeholder: PlaceholderConfig = {}
+): LeakFinding[] {
+  const secrets = realFiles
+    .filter(file => file.fileName !== templateFile)
+    .flatMap(file =>
+      file.parsedLines
+        .filter(parsed => parsed.key && isRealValue(parsed.key, parsed.unquotedValue, placeholder))
+        .map(parsed => ({
+          file: file.fileName,
+          key: parsed.key,
+          value: parsed.unquotedValue,
+          secret: isSecret(parsed.key, parsed.unquotedValue),
+        }))
+    );
+  const findings: LeakFinding[] = [];
+
+  for (const { key, value, line } of values) {
+    const trimmed = value.trim();
+    if (!trimmed || isGeneratedPlaceholder(trimmed, { key }, placeholder.template)) continue;
+
+    const base = { file: templateFile, key, ...(line ? { line } : {}) };
+    // e.g. keepValues: 'non-secret' copies PORT=3000 from .env by design
+    const kept = renderPlaceholder({ key, value: trimmed }, placeholder) === trimmed;
+    // Either the real value or the template key must look like a credential
+    const candidates = kept
+      ? []
+      : isSecretKeyName(key)
+        ? secrets
+        : secrets.filter(secret => secret.secret);
+    const exact = candidates.find(secret => secret.value === trimmed);
+    if (exact) {
+      findings.push({
+        ...base,
+        reason: 'exact-match',
+        matchedFile: exact.file,
+        matchedKey: exact.key,
+      });
+      continue;
+    }
+
+    const near =
+      trimmed.length >= MIN_NEAR_MATCH_LENGTH
+        ? candidates.find(secret => similarity(secret.value, trimmed) >= NEAR_MATCH_SIMILARITY)
+        : undefined;
+    if (near) {
+      findings.push({
+        ...base,
+        reason: 'near-match',
+        matchedFile: near.file,
+        matchedKey: near.key,
+      });
+      continue;
+    }
+
+    // A credential-like name alone is expected in a template; the value must look real too
+    const { secret, reason } = classifySecret(key, trimmed);
+    if (secret && reason && reason !== 'key-name') {
+      findings.push({ ...base, reason });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Scan the template file of an analysis against every other discovered file.
+ */
+export function scanTemplateFile(
+  files: EnvFileInfo[],
+  placeholder: PlaceholderConfig = {}
+): LeakFinding[] {
+  const template = files.find(file => file.fileName === TEMPLATE_FILE);
+  if (!template) return [];
+
+  const lines = entryLineNumbers(template.parsedLines);
+  const values: TemplateValue[] = template.parsedLines
+    .map((parsed, index) => ({ key: parsed.key, value: parsed.unquotedValue, line: lines[index] }))
+    .filter(value => value.key);
+
+  return findLeaks(TEMPLATE_FILE, values, files, placeholder);
+}
+
+export function describeLeak(finding: LeakFinding): string {
+  switch (finding.reason) {
+    case 'exact-match':
+      return `same value as ${finding.matchedKey} in ${finding.matchedFile}`;
+    case 'near-match':
+      return `nearly the same value as ${finding.matchedKey} in ${finding.matchedFile}`;
+    case 'token-format':
+      return 'looks like an API token or private key';
+    case 'credentials-in-url':
+      return 'URL contains credentials';
+    case 'entropy':
+      return 'high-entropy value, possibly a secret';
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Values worth comparing: secrets, and any other non-trivial value that is not a placeholder. */
+function isRealValue(key: string, value: string, placeholder: PlaceholderConfig): boolean {
+  const trimmed = value.trim();
+  if (isSecret(key, trimmed)) return true;
+  return (
+    trimmed.length >= MIN_REAL_VALUE_LENGTH &&
+    !isGeneratedPlaceholder(trimmed, { key }, placeholder.template) &&
+    !isGeneratedPlaceholder(trimmed, { key })
+  );
+}
+
+/** Normalized Levenshtein similarity between 0 (different) and 1 (equal). */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length > MAX_COMPARED_LENGTH || b.length > MAX_COMPARED_LENGTH) return 0;
+
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / longest;
+}
@@ -6,6 +6,8 @@
  * and structured logging for better analysis and debugging.
  */
 
+import { classifySecret, maskSecretsInText, SECRET_MASK } from './secrets.js';
+
 export enum LogLevel {
   DEBUG = 0,
   INFO = 1,
@@ -37,6 +39,7 @@ export interface LoggerOptions {
   maxFileSize?: number;
   maxFiles?: number;
   context?: Record<string, any>;
+  showSecrets?: boolean; // disable masking of secret values in messages and context
 }
 
 /**
@@ -52,6 +55,7 @@ export class Logger {
   private maxFiles: number;
   private context: Record<string, any>;
   private operationId: string;
+  private showSecrets: boolean;
 
   constructor(options: LoggerOptions = {}) {
     this.level = options.level ?? LogLevel.INFO;
@@ -61,6 +65,7 @@ export class Logger {
     this.maxFileSize = options.maxFileSize ?? 10 * 1024 * 1024; // 10MB
     this.maxFiles = options.maxFiles ?? 5;
     this.context = options.context ?? {};
+    this.showSecrets = options.showSecrets ?? false;
     this.operationId = this.generateOperationId();
   }
 
@@ -92,6 +97,13 @@ export class Logger {
     this.level = level;
   }
 
+  /**
+   * Enable or disable masking of secret values
+   */
+  setShowSecrets(showSecrets: boolean): void {
+    this.showSecrets = showSecrets;
+  }
+
   /**
    * Add context to all subsequent log entries
    */
@@ -165,8 +177,8 @@ export class Logger {
       timestamp: new Date().toISOString(),
       level,
       levelName: LogLevel[level],
-      message,
-      context: { ...this.context, ...context },
+      message: this.redact(message),
+      context: this.redactContext({ ...this.context, ...context }),
       module: 'restore',
       operationId: this.operationId,
     };
@@ -174,8 +186,8 @@ export class Logger {
     if (error) {
       entry.error = {
         name: error.name,
-        message: error.message,
-        stack: error.stack,
+        message: this.redact(error.message),
+        stack: error.stack && this.redact(error.stack),
       };
     }
 
@@ -199,6 +211,37 @@ export class Logger {
     }
   }
 
+  /**
+   * Mask known token formats in free text
+   */
+  private redact(text: string): string {
+    return this.showSecrets ? text : maskSecretsInText(text);
+  }
+
+  /**
+   * Mask secret values in context, judging each string by its property name and content.
+   * Entropy alone is not used here: operation IDs and paths would trip it.
+   */
+  private redactContext(context: Record<string, any>): Record<string, any> {
+    if (this.showSecrets) return context;
+
+    const redactValue = (key: string, value: any): any => {
+      if (typeof value === 'string') {
+        const { secret, reason } = classifySecret(key, value);
+        return secret && reason !== 'entropy' ? SECRET_MASK : this.redact(value);
+      }
+      if (Array.isArray(value)) return value.map(item => redactValue(key, item));
+      if (value && typeof value === 'object' && !(value instanceof Date)) {
+        return Object.fromEntries(
+          Object.entries(value).map(([childKey, child]) => [childKey, redactValue(childKey, child)])
+        );
+      }
+      return value;
+    };
+
+    return redactValue('', context);
+  }
+
   /**
    * Log to console with appropriate formatting
    */
@@ -332,6 +375,7 @@ export class Logger {
       maxFileSize: this.maxFileSize,
       maxFiles: this.maxFiles,
       context: { ...this.context, ...context },
+      showSecrets: this.showSecrets,
     });
 
     childLogger.operationId = this.operationId;
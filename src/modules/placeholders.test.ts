@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'bun:test';
+import { inferValueType, isGeneratedPlaceholder, renderPlaceholder } from './placeholders.js';
+
+describe('placeholders', () => {
+  it('renders the default template with a sanitized key', () => {
+    expect(renderPlaceholder({ key: 'MY-KEY', value: 'secret' })).toBe('input_my_key');
+  });
+
+  it('substitutes every template variable', () => {
+    const template = '{key}|{key_lower}|{key_upper}|{type}|{source_file}';
+    expect(
+      renderPlaceholder({ key: 'Db.Port', value: '5432', sourceFile: '.env' }, { template })
+    ).toBe('Db.Port|db_port|DB_PORT|number|.env');
+  });
+
+  it('prefers per-key overrides, then kept values, then the template', () => {
+    const config = {
+      template: 'changeme',
+      overrides: { REGION: 'eu-west-1', API_URL: 'https://example.com/{key_lower}' },
+      keepValues: ['LOG_*'],
+    };
+    expect(renderPlaceholder({ key: 'REGION', value: 'us-east-1' }, config)).toBe('eu-west-1');
+    expect(renderPlaceholder({ key: 'API_URL' }, config)).toBe('https://example.com/api_url');
+    expect(renderPlaceholder({ key: 'LOG_LEVEL', value: 'info' }, config)).toBe('info');
+    expect(renderPlaceholder({ key: 'PORT', value: '3000' }, config)).toBe('changeme');
+  });
+
+  it("keeps only plain non-credential values under 'non-secret'", () => {
+    const config = { keepValues: 'non-secret' as const };
+    expect(renderPlaceholder({ key: 'PORT', value: '3000' }, config)).toBe('3000');
+    expect(renderPlaceholder({ key: 'LOG_LEVEL', value: 'info' }, config)).toBe('info');
+    expect(renderPlaceholder({ key: 'API_TOKEN', value: 'abc' }, config)).toBe('input_api_token');
+    expect(renderPlaceholder({ key: 'DATABASE_URL', value: 'postgres://u:p@db/app' }, config)).toBe(
+      'input_database_url'
+    );
+    expect(renderPlaceholder({ key: 'PORT' }, config)).toBe('input_port');
+  });
+
+  it('recognizes values generated from a template', () => {
+    expect(isGeneratedPlaceholder('input_db_host', { key: 'DB_HOST' })).toBe(true);
+    expect(isGeneratedPlaceholder('input_db_host', { key: 'DB_PORT' })).toBe(false);
+    expect(isGeneratedPlaceholder('localhost', { key: 'DB_HOST' })).toBe(false);
+    expect(
+      isGeneratedPlaceholder('<string from .env>', { key: 'A' }, '<{type} from {source_file}>')
+    ).toBe(true);
+    expect(
+      isGeneratedPlaceholder(
+        '<number from .env>',
+        { key: 'A', value: 'x' },
+        '<{type} from {source_file}>'
+      )
+    ).toBe(false);
+  });
+
+  it('does not treat values as placeholders of a variables-only template', () => {
+    expect(isGeneratedPlaceholder('PORT', { key: 'PORT' }, '{key_upper}')).toBe(true);
+    expect(isGeneratedPlaceholder('3000', { key: 'PORT' }, '{key_upper}')).toBe(false);
+    expect(isGeneratedPlaceholder('hunter2', { key: 'DB_PASS' }, '{key}')).toBe(false);
+  });
+
+  it('infers value types', () => {
+    expect(
+      ['true', '42', 'https://x.io', 'a@b.co', '{"a":1}', 'plain'].map(inferValueType)
+    ).toEqual(['boolean', 'number', 'url', 'email', 'json', 'string']);
+  });
+});
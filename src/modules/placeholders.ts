@@ -0,0 +1,137 @@
+import { DEFAULT_CONFIG, PlaceholderConfig } from '../utils/config.js';
+import { matchesGlob } from '../utils/glob.js';
+import { isSecret } from './secrets.js';
+import { EnvFileAnalysis } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PlaceholderValueType = 'boolean' | 'number' | 'url' | 'email' | 'json' | 'string';
+
+export interface PlaceholderContext {
+  key: string;
+  value?: string; // real value the placeholder stands in for, if known
+  sourceFile?: string; // file the real value was read from
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_TEMPLATE = DEFAULT_CONFIG.placeholder!.template!;
+
+const TEMPLATE_VARIABLE = /\{(key|key_lower|key_upper|type|source_file)\}/g;
+
+const VALUE_TYPES: readonly PlaceholderValueType[] = [
+  'boolean',
+  'number',
+  'url',
+  'email',
+  'json',
+  'string',
+];
+
+/** What `{source_file}` may have rendered to when the source is unknown: an env file or nothing. */
+const ANY_ENV_FILE = '(?:\\.env[\\w.-]*)?';
+
+/** Values short and plain enough to be configuration rather than credentials. */
+const PLAIN_VALUE = /^[\w.:/-]{0,40}$/;
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Produce the .env.example value for a key. Resolution order: a per-key override,
+ * the real value when the keep policy allows it, then the template.
+ *
+ * Template variables: `{key}` (as written), `{key_lower}` and `{key_upper}` (sanitized,
+ * e.g. `my_key` / `MY_KEY`), `{type}` (inferred from the real value) and `{source_file}`.
+ */
+export function renderPlaceholder(
+  context: PlaceholderContext,
+  config: PlaceholderConfig = {}
+): string {
+  const override = config.overrides?.[context.key];
+  if (override !== undefined) {
+    return renderTemplate(override, context);
+  }
+
+  if (context.value !== undefined && shouldKeepValue(context.key, context.value, config)) {
+    return context.value;
+  }
+
+  return renderTemplate(config.template || DEFAULT_TEMPLATE, context);
+}
+
+function renderTemplate(template: string, context: PlaceholderContext): string {
+  const variables = templateVariables(context);
+  return template.replace(TEMPLATE_VARIABLE, (_, name: string) => variables[name]);
+}
+
+function templateVariables(context: PlaceholderContext): Record<string, string> {
+  const sanitized = EnvFileAnalysis.sanitizeKey(context.key);
+  return {
+    key: context.key,
+    key_lower: sanitized,
+    key_upper: sanitized.toUpperCase(),
+    type: inferValueType(context.value ?? ''),
+    source_file: context.sourceFile || '',
+  };
+}
+
+function shouldKeepValue(key: string, value: string, config: PlaceholderConfig): boolean {
+  const policy = config.keepValues;
+  if (!policy) return false;
+  if (Array.isArray(policy)) {
+    return policy.some(pattern => matchesGlob(key, pattern));
+  }
+
+  // 'non-secret': only short, plain values that are not classified as secrets
+  return PLAIN_VALUE.test(value) && !value.includes('@') && !isSecret(key, value);
+}
+
+/**
+ * Whether a value is the placeholder the template renders for this key, i.e. it is safe to
+ * regenerate. `{type}` and `{source_file}` match any type or env file name unless the
+ * context gives the real value or source file. Per-key overrides and kept values are not matched.
+ */
+export function isGeneratedPlaceholder(
+  value: string,
+  context: PlaceholderContext,
+  template: string = DEFAULT_TEMPLATE
+): boolean {
+  const variables = templateVariables(context);
+  const pattern = template
+    .split(TEMPLATE_VARIABLE)
+    .map((part, index) => {
+      if (index % 2 === 0) return escapeRegExp(part);
+      if (part === 'type' && context.value === undefined) return `(?:${VALUE_TYPES.join('|')})`;
+      if (part === 'source_file' && context.sourceFile === undefined) return ANY_ENV_FILE;
+      return escapeRegExp(variables[part]);
+    })
+    .join('');
+  return new RegExp(`^${pattern}$`).test(value);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function inferValueType(value: string): PlaceholderValueType {
+  const trimmed = value.trim();
+  if (/^(true|false)$/i.test(trimmed)) return 'boolean';
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return 'number';
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) return 'url';
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) return 'email';
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return 'string';
+}
@@ -1,5 +1,5 @@
-import fs from 'fs';
 import path from 'path';
+import { ACCESS_READ, ACCESS_WRITE, EnvFs, EnvFsStats, nodeFs } from '../utils/env-fs.js';
 
 /**
  * Rollback Management Module
@@ -17,7 +17,7 @@ export interface RollbackSnapshot {
   cwd: string;
 }
 
-export type PartialStats = Pick<fs.Stats, 'mtime' | 'mtimeMs'>;
+export type PartialStats = Pick<EnvFsStats, 'mtime' | 'mtimeMs'>;
 
 export interface RollbackFile {
   fileName: string;
@@ -25,8 +25,8 @@ export interface RollbackFile {
   exists: boolean;
   size?: number;
   content?: string;
-  permissions?: fs.Mode;
-  stats?: fs.Stats | PartialStats;
+  permissions?: number;
+  stats?: EnvFsStats | PartialStats;
 }
 
 export interface RollbackResult {
@@ -50,11 +50,13 @@ export class RollbackManager {
   private cwd: string;
   private rollbackDir: string;
   private maxSnapshots: number;
+  private fs: EnvFs;
 
-  constructor(cwd: string = process.cwd(), maxSnapshots: number = 10) {
+  constructor(cwd: string = process.cwd(), maxSnapshots: number = 10, fs: EnvFs = nodeFs) {
     this.cwd = path.resolve(cwd);
     this.rollbackDir = path.join(this.cwd, '.env-twin', 'rollbacks');
     this.maxSnapshots = maxSnapshots;
+    this.fs = fs;
   }
 
   /**
@@ -97,8 +99,8 @@ export class RollbackManager {
 
         // Create snapshot directory for this snapshot
         const snapshotDir = path.join(this.rollbackDir, snapshotId);
-        if (!fs.existsSync(snapshotDir)) {
-          fs.mkdirSync(snapshotDir, { recursive: true, mode: 0o700 });
+        if (!this.fs.exists(snapshotDir)) {
+          this.fs.mkdir(snapshotDir, { recursive: true, mode: 0o700 });
         }
 
         // Process each file
@@ -120,7 +122,7 @@ export class RollbackManager {
             const rollbackFile: RollbackFile = {
               fileName,
               filePath,
-              exists: fs.existsSync(filePath),
+              exists: this.fs.exists(filePath),
             };
 
             if (!rollbackFile.exists) {
@@ -130,7 +132,7 @@ export class RollbackManager {
 
             try {
               // Get file stats
-              const stats = fs.statSync(filePath);
+              const stats = this.fs.stat(filePath);
               rollbackFile.size = stats.size;
               rollbackFile.stats = stats;
 
@@ -141,7 +143,7 @@ export class RollbackManager {
               // Read file content if requested and file is small enough
               if (includeContent && stats.size <= maxSize) {
                 try {
-                  rollbackFile.content = fs.readFileSync(filePath, 'utf-8');
+                  rollbackFile.content = this.fs.readFile(filePath);
                 } catch (error) {
                   // Continue without content if read fails
                 }
@@ -164,10 +166,10 @@ export class RollbackManager {
               if (file.content) {
                 const contentPath = path.join(snapshotDir, file.fileName);
                 const contentDir = path.dirname(contentPath);
-                if (!fs.existsSync(contentDir)) {
-                  fs.mkdirSync(contentDir, { recursive: true, mode: 0o700 });
+                if (!this.fs.exists(contentDir)) {
+                  this.fs.mkdir(contentDir, { recursive: true, mode: 0o700 });
                 }
-                fs.writeFileSync(contentPath, file.content, { encoding: 'utf-8', mode: 0o600 });
+                this.fs.writeFile(contentPath, file.content, { mode: 0o600 });
               }
             }
 
@@ -189,10 +191,7 @@ export class RollbackManager {
               options,
             };
 
-            fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2), {
-              encoding: 'utf-8',
-              mode: 0o600,
-            });
+            this.fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), { mode: 0o600 });
 
             // Clean up old snapshots if necessary
             this.cleanupOldSnapshots();
@@ -213,7 +212,7 @@ export class RollbackManager {
     try {
       const snapshotDir = path.join(this.rollbackDir, snapshotId);
 
-      if (!fs.existsSync(snapshotDir)) {
+      if (!this.fs.exists(snapshotDir)) {
         return {
           success: false,
           error: `Rollback snapshot ${snapshotId} not found`,
@@ -222,14 +221,14 @@ export class RollbackManager {
 
       // Load snapshot metadata
       const metadataPath = path.join(snapshotDir, 'metadata.json');
-      if (!fs.existsSync(metadataPath)) {
+      if (!this.fs.exists(metadataPath)) {
         return {
           success: false,
           error: `Rollback snapshot metadata not found for ${snapshotId}`,
         };
       }
 
-      const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+      const metadata = JSON.parse(this.fs.readFile(metadataPath));
       const snapshot: RollbackSnapshot = {
         id: metadata.id,
         timestamp: metadata.timestamp,
@@ -253,22 +252,22 @@ export class RollbackManager {
           if (fileInfo.exists && fileInfo.hasContent) {
             // Restore file from snapshot content
             const contentPath = path.join(snapshotDir, fileInfo.fileName);
-            if (fs.existsSync(contentPath)) {
-              const content = fs.readFileSync(contentPath, 'utf-8');
+            if (this.fs.exists(contentPath)) {
+              const content = this.fs.readFile(contentPath);
 
               // Ensure directory exists
               const dir = path.dirname(filePath);
-              if (!fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true });
+              if (!this.fs.exists(dir)) {
+                this.fs.mkdir(dir, { recursive: true });
               }
 
               // Write file
-              fs.writeFileSync(filePath, content, 'utf-8');
+              this.fs.writeFile(filePath, content);
 
               // Restore permissions if available
               if (fileInfo.permissions && process.platform !== 'win32') {
                 try {
-                  fs.chmodSync(filePath, fileInfo.permissions);
+                  this.fs.chmod(filePath, fileInfo.permissions);
                 } catch (error) {
                   // Continue without permissions
                 }
@@ -278,8 +277,8 @@ export class RollbackManager {
             }
           } else if (!fileInfo.exists) {
             // File didn't exist in snapshot, remove if it exists now
-            if (fs.existsSync(filePath)) {
-              fs.unlinkSync(filePath);
+            if (this.fs.exists(filePath)) {
+              this.fs.unlink(filePath);
               rolledBackFiles.push(fileInfo.fileName);
             }
           }
@@ -306,22 +305,22 @@ export class RollbackManager {
    */
   listSnapshots(): RollbackSnapshot[] {
     try {
-      if (!fs.existsSync(this.rollbackDir)) {
+      if (!this.fs.exists(this.rollbackDir)) {
         return [];
       }
 
       const snapshots: RollbackSnapshot[] = [];
 
-      const entries = fs.readdirSync(this.rollbackDir, { withFileTypes: true });
+      const entries = this.fs.readdir(this.rollbackDir);
 
       for (const entry of entries) {
         if (entry.isDirectory()) {
           const snapshotId = entry.name;
           const metadataPath = path.join(this.rollbackDir, snapshotId, 'metadata.json');
 
-          if (fs.existsSync(metadataPath)) {
+          if (this.fs.exists(metadataPath)) {
             try {
-              const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+              const metadata = JSON.parse(this.fs.readFile(metadataPath));
               snapshots.push({
                 id: metadata.id,
                 timestamp: metadata.timestamp,
@@ -351,11 +350,11 @@ export class RollbackManager {
       const snapshotDir = path.join(this.rollbackDir, snapshotId);
       const metadataPath = path.join(snapshotDir, 'metadata.json');
 
-      if (!fs.existsSync(metadataPath)) {
+      if (!this.fs.exists(metadataPath)) {
         return null;
       }
 
-      const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+      const metadata = JSON.parse(this.fs.readFile(metadataPath));
 
       return {
         id: metadata.id,
@@ -376,12 +375,12 @@ export class RollbackManager {
     try {
       const snapshotDir = path.join(this.rollbackDir, snapshotId);
 
-      if (!fs.existsSync(snapshotDir)) {
+      if (!this.fs.exists(snapshotDir)) {
         return false;
       }
 
       // Remove directory and all contents
-      fs.rmSync(snapshotDir, { recursive: true, force: true });
+      this.fs.rm(snapshotDir, { recursive: true, force: true });
       return true;
     } catch (error) {
       return false;
@@ -416,7 +415,7 @@ export class RollbackManager {
     try {
       const snapshotDir = path.join(this.rollbackDir, snapshotId);
 
-      if (!fs.existsSync(snapshotDir)) {
+      if (!this.fs.exists(snapshotDir)) {
         return { totalSize: 0, fileCount: 0 };
       }
 
@@ -424,7 +423,7 @@ export class RollbackManager {
       const walkDir = (dir: string): { totalSize: number; fileCount: number } => {
         let totalSize = 0;
         let fileCount = 0;
-        const entries = fs.readdirSync(dir, { withFileTypes: true });
+        const entries = this.fs.readdir(dir);
 
         for (const entry of entries) {
           const entryPath = path.join(dir, entry.name);
@@ -434,7 +433,7 @@ export class RollbackManager {
               totalSize += sub.totalSize;
               fileCount += sub.fileCount;
             } else {
-              const stats = fs.statSync(entryPath);
+              const stats = this.fs.stat(entryPath);
               totalSize += stats.size;
               fileCount += 1;
             }
@@ -486,7 +485,7 @@ export class RollbackManager {
       for (const fileInfo of snapshot.files) {
         try {
           const filePath = path.join(this.cwd, fileInfo.fileName);
-          const exists = fs.existsSync(filePath);
+          const exists = this.fs.exists(filePath);
 
           // If file existence changed, it's invalid
           if (exists !== fileInfo.exists) {
@@ -495,7 +494,7 @@ export class RollbackManager {
           }
 
           if (exists) {
-            const stats = fs.statSync(filePath);
+            const stats = this.fs.stat(filePath);
 
             // Check if size changed
             if (stats.size !== fileInfo.size) {
@@ -560,12 +559,12 @@ export class RollbackManager {
    * Ensure rollback directory exists
    */
   private ensureRollbackDirectory(): void {
-    if (!fs.existsSync(this.rollbackDir)) {
-      fs.mkdirSync(this.rollbackDir, { recursive: true, mode: 0o700 });
+    if (!this.fs.exists(this.rollbackDir)) {
+      this.fs.mkdir(this.rollbackDir, { recursive: true, mode: 0o700 });
     } else {
       // Ensure existing directory has correct permissions
       try {
-        fs.chmodSync(this.rollbackDir, 0o700);
+        this.fs.chmod(this.rollbackDir, 0o700);
       } catch (error) {
         // Ignore chmod errors on Windows or if not owner
       }
@@ -584,7 +583,7 @@ export class RollbackManager {
    */
   isRollbackAvailable(): boolean {
     try {
-      fs.accessSync(this.rollbackDir, fs.constants.R_OK | fs.constants.W_OK);
+      this.fs.access(this.rollbackDir, ACCESS_READ | ACCESS_WRITE);
       return true;
     } catch (error) {
       return false;
@@ -599,9 +598,9 @@ export class RollbackUtils {
   /**
    * Create temporary rollback file for atomic operations
    */
-  static createTempRollbackFile(originalPath: string, content: string): string {
+  static createTempRollbackFile(originalPath: string, content: string, fs: EnvFs = nodeFs): string {
     const tempPath = `${originalPath}.rollback.${Date.now()}`;
-    fs.writeFileSync(tempPath, content, { encoding: 'utf-8', mode: 0o600 });
+    fs.writeFile(tempPath, content, { mode: 0o600 });
     return tempPath;
   }
 
@@ -611,21 +610,22 @@ export class RollbackUtils {
   static atomicFileReplace(
     originalPath: string,
     newContent: string,
-    backupContent?: string
+    backupContent?: string,
+    fs: EnvFs = nodeFs
   ): { success: boolean; rollbackPath?: string } {
     try {
       let rollbackPath: string | undefined;
 
       // Create backup if content provided
       if (backupContent) {
-        rollbackPath = this.createTempRollbackFile(originalPath, backupContent);
-      } else if (fs.existsSync(originalPath)) {
-        const originalContent = fs.readFileSync(originalPath, 'utf-8');
-        rollbackPath = this.createTempRollbackFile(originalPath, originalContent);
+        rollbackPath = this.createTempRollbackFile(originalPath, backupContent, fs);
+      } else if (fs.exists(originalPath)) {
+        const originalContent = fs.readFile(originalPath);
+        rollbackPath = this.createTempRollbackFile(originalPath, originalContent, fs);
       }
 
       // Write new content
-      fs.writeFileSync(originalPath, newContent, 'utf-8');
+      fs.writeFile(originalPath, newContent);
 
       return { success: true, rollbackPath };
     } catch (error) {
@@ -636,12 +636,16 @@ export class RollbackUtils {
   /**
    * Rollback atomic file operation
    */
-  static rollbackAtomicOperation(originalPath: string, rollbackPath?: string): boolean {
+  static rollbackAtomicOperation(
+    originalPath: string,
+    rollbackPath?: string,
+    fs: EnvFs = nodeFs
+  ): boolean {
     try {
-      if (rollbackPath && fs.existsSync(rollbackPath)) {
-        const content = fs.readFileSync(rollbackPath, 'utf-8');
-        fs.writeFileSync(originalPath, content, 'utf-8');
-        fs.unlinkSync(rollbackPath);
+      if (rollbackPath && fs.exists(rollbackPath)) {
+        const content = fs.readFile(rollbackPath);
+        fs.writeFile(originalPath, content);
+        fs.unlink(rollbackPath);
         return true;
       }
       return false;
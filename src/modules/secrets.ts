@@ -0,0 +1,163 @@
+import { EnvFileInfo, ParsedEnvLine, parseEnvLine } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SecretReason = 'key-name' | 'token-format' | 'credentials-in-url' | 'entropy';
+
+export interface SecretClassification {
+  secret: boolean;
+  reason?: SecretReason;
+  format?: string; // name of the matched token format, e.g. 'GitHub token'
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Shown instead of a secret value; fixed length so the real length is not revealed. */
+export const SECRET_MASK = '********';
+
+/** Key names that suggest a credential. */
+const SECRET_KEY_NAME =
+  /(SECRET|TOKEN|PASSWORD|PASSWD|(^|_)PASS($|_)|PWD|PRIVATE|CREDENTIAL|AUTH|SALT|SIGNATURE|CERT|DSN|(^|_)KEY$|API_?KEY|ACCESS_?KEY)/i;
+
+/** Well-known token formats, matched anywhere in a value or in free text. */
+const TOKEN_FORMATS: ReadonlyArray<{ name: string; pattern: RegExp }> = [
+  { name: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/ },
+  { name: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})\b/ },
+  { name: 'Stripe key', pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{10,}\b/ },
+  { name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/ },
+  { name: 'JWT', pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]{5,}/ },
+  {
+    name: 'private key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/,
+  },
+];
+
+const CREDENTIALS_IN_URL = /^[a-z][a-z0-9+.-]*:\/\/[^/\s:@]*:[^/\s@]+@/i;
+
+const MIN_ENTROPY_LENGTH = 20;
+const MIN_ENTROPY_BITS = 3.5;
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+/**
+ * Decide whether a value should be treated as a secret, from the key name,
+ * known token formats, credentials embedded in URLs and Shannon entropy.
+ * Empty values are never secret.
+ */
+export function classifySecret(key: string, value: string): SecretClassification {
+  const trimmed = value.trim();
+  if (!trimmed) return { secret: false };
+
+  const token = TOKEN_FORMATS.find(format => format.pattern.test(trimmed));
+  if (token) return { secret: true, reason: 'token-format', format: token.name };
+
+  if (SECRET_KEY_NAME.test(key)) return { secret: true, reason: 'key-name' };
+  if (CREDENTIALS_IN_URL.test(trimmed)) return { secret: true, reason: 'credentials-in-url' };
+  if (isHighEntropy(trimmed)) return { secret: true, reason: 'entropy' };
+
+  return { secret: false };
+}
+
+export function isSecret(key: string, value: string): boolean {
+  return classifySecret(key, value).secret;
+}
+
+/** Whether the key name alone suggests a credential, before any value is known. */
+export function isSecretKeyName(key: string): boolean {
+  return SECRET_KEY_NAME.test(key);
+}
+
+/**
+ * Random-looking strings: long, no whitespace, several character classes
+ * and high Shannon entropy per character.
+ */
+export function isHighEntropy(value: string): boolean {
+  if (value.length < MIN_ENTROPY_LENGTH || /\s/.test(value)) return false;
+
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^A-Za-z0-9]/].filter(regex =>
+    regex.test(value)
+  ).length;
+  return classes >= 3 && shannonEntropy(value) >= MIN_ENTROPY_BITS;
+}
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+// ============================================================================
+// MASKING
+// ============================================================================
+
+/** The value to show for a key: masked when classified as secret unless `showSecrets`. */
+export function displayValue(key: string, value: string, showSecrets = false): string {
+  return !showSecrets && isSecret(key, value) ? SECRET_MASK : value;
+}
+
+/**
+ * Replace known token formats in free text such as log messages.
+ * Without a key name only the unambiguous formats can be recognized.
+ */
+export function maskSecretsInText(text: string): string {
+  return TOKEN_FORMATS.reduce(
+    (masked, format) => masked.replace(new RegExp(format.pattern.source, 'g'), SECRET_MASK),
+    text
+  );
+}
+
+/**
+ * Copy of a parsed line with a secret value masked in every field that carries it.
+ */
+export function maskParsedLine(parsed: ParsedEnvLine): ParsedEnvLine {
+  if (parsed.isComment) return maskCommentLine(parsed);
+  if (!parsed.key || !isSecret(parsed.key, parsed.unquotedValue)) return parsed;
+
+  const eqIndex = parsed.originalLine.indexOf('=');
+  const before = parsed.originalLine.substring(0, eqIndex + 1);
+  const after = parsed.originalLine.substring(eqIndex + 1);
+  const maskedRaw = parsed.quote ? `${parsed.quote}${SECRET_MASK}${parsed.quote}` : SECRET_MASK;
+
+  return {
+    ...parsed,
+    value: parsed.value.replace(parsed.rawValue, maskedRaw),
+    rawValue: maskedRaw,
+    unquotedValue: SECRET_MASK,
+    originalLine: before + after.replace(parsed.rawValue, maskedRaw),
+  };
+}
+
+/** Commented-out assignments such as `# API_KEY=sk_live_...` still hold real values. */
+function maskCommentLine(parsed: ParsedEnvLine): ParsedEnvLine {
+  const line = parsed.originalLine;
+  const prefix = /^\s*#+\s*/.exec(line)![0];
+  const assignment = parseEnvLine(line.substring(prefix.length));
+
+  let masked = line;
+  if (assignment.key && !assignment.parseError) {
+    masked = prefix + maskParsedLine(assignment).originalLine;
+  }
+  masked = maskSecretsInText(masked);
+  return masked === line ? parsed : { ...parsed, originalLine: masked };
+}
+
+/** Copy of a loaded env file whose content, lines and parsed values have secrets masked. */
+export function maskEnvFile(file: EnvFileInfo): EnvFileInfo {
+  const parsedLines = file.parsedLines.map(maskParsedLine);
+  const content = parsedLines.map(parsed => parsed.originalLine).join('\n');
+  return { ...file, content, lines: content.split('\n'), parsedLines };
+}
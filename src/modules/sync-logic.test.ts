@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'bun:test';
-import { EnvFileAnalysis, loadEnvFile, parseEnvLine } from './sync-logic.js';
+import {
+  EnvFileAnalysis,
+  findParseErrors,
+  formatEnvValue,
+  loadEnvFile,
+  parseEnvContent,
+  parseEnvLine,
+  unquoteValue,
+} from './sync-logic.js';
 import path from 'path';
 
 describe('sync-logic', () => {
@@ -55,6 +63,139 @@ describe('sync-logic', () => {
     });
   });
 
+  describe('inline comments', () => {
+    it('separates an inline comment from an unquoted value', () => {
+      const result = parseEnvLine('PORT=3000 # explains the key');
+      expect(result.value).toBe('3000 # explains the key');
+      expect(result.rawValue).toBe('3000');
+      expect(result.unquotedValue).toBe('3000');
+      expect(result.inlineComment).toBe('explains the key');
+    });
+
+    it('keeps # inside quotes and without preceding whitespace', () => {
+      const quoted = parseEnvLine('PASS="a # b" # real comment');
+      expect(quoted.rawValue).toBe('"a # b"');
+      expect(quoted.unquotedValue).toBe('a # b');
+      expect(quoted.inlineComment).toBe('real comment');
+
+      const url = parseEnvLine('URL=https://example.com/#anchor');
+      expect(url.unquotedValue).toBe('https://example.com/#anchor');
+      expect(url.inlineComment).toBeUndefined();
+    });
+
+    it('reads the comment after a multiline value', () => {
+      const [entry] = parseEnvContent('KEY="line1\nline2" # note');
+      expect(entry.unquotedValue).toBe('line1\nline2');
+      expect(entry.inlineComment).toBe('note');
+    });
+  });
+
+  describe('formatEnvValue', () => {
+    it('leaves simple values untouched', () => {
+      expect(formatEnvValue('plain')).toBe('plain');
+      expect(formatEnvValue('')).toBe('');
+    });
+
+    it('quotes values that would not survive a re-parse', () => {
+      expect(formatEnvValue('a # b')).toBe("'a # b'");
+      expect(formatEnvValue(" it's ")).toBe('" it\'s "');
+      expect(parseEnvContent(`K=${formatEnvValue('l1\nl2')}`)[0].unquotedValue).toBe('l1\nl2');
+    });
+
+    it('round-trips values with quotes and backslashes', () => {
+      [" it's C:\\dir\\", " it's a\\nb ", '# "quoted" it\'s', "'lead"].forEach(value => {
+        const [parsed] = parseEnvContent(`K=${formatEnvValue(value)}`);
+        expect(parsed.parseError).toBeUndefined();
+        expect(parsed.unquotedValue).toBe(value);
+      });
+    });
+  });
+
+  describe('parseEnvContent', () => {
+    it('groups a double-quoted multiline value into one entry', () => {
+      const content = 'BEFORE=1\nCERT="-----BEGIN CERT-----\nMIIB\n-----END CERT-----"\nAFTER=2';
+      const entries = parseEnvContent(content);
+
+      expect(entries.map(entry => entry.key)).toEqual(['BEFORE', 'CERT', 'AFTER']);
+      expect(entries[1].isMultiline).toBe(true);
+      expect(entries[1].quote).toBe('"');
+      expect(entries[1].originalLine).toBe('CERT="-----BEGIN CERT-----\nMIIB\n-----END CERT-----"');
+      expect(entries.map(entry => entry.originalLine).join('\n')).toBe(content);
+    });
+
+    it('supports single and backtick quoted multiline values', () => {
+      const entries = parseEnvContent('JSON=\'{\n  "a": 1\n}\'\nTPL=`line1\nline2`');
+
+      expect(entries.map(entry => entry.key)).toEqual(['JSON', 'TPL']);
+      expect(entries[0].quote).toBe("'");
+      expect(entries[1].quote).toBe('`');
+    });
+
+    it('does not end a value on an escaped quote', () => {
+      const entries = parseEnvContent('MSG="say \\"hi\nthere\\""\nNEXT=1');
+
+      expect(entries.map(entry => entry.key)).toEqual(['MSG', 'NEXT']);
+      expect(entries[0].isMultiline).toBe(true);
+    });
+
+    it('treats backslashes in single and backtick quotes literally', () => {
+      const entries = parseEnvContent("WIN='C:\\dir\\'\nTPL=`a\\`\nNEXT=1");
+
+      expect(entries.map(entry => entry.key)).toEqual(['WIN', 'TPL', 'NEXT']);
+      expect(entries[0].unquotedValue).toBe('C:\\dir\\');
+      expect(entries[1].unquotedValue).toBe('a\\');
+    });
+
+    it('keeps the text before the opening quote of a multiline value', () => {
+      const entries = parseEnvContent('KEY = "a\nb"');
+
+      expect(entries[0].value).toBe(' "a\nb"');
+      expect(entries[0].unquotedValue).toBe('a\nb');
+    });
+
+    it('falls back to line-by-line parsing for unterminated quotes', () => {
+      const entries = parseEnvContent('BROKEN="no end\nNEXT=1');
+
+      expect(entries.map(entry => entry.key)).toEqual(['BROKEN', 'NEXT']);
+      expect(entries[0].isMultiline).toBeUndefined();
+    });
+  });
+
+  describe('findParseErrors', () => {
+    it('reports invalid lines with their line numbers', () => {
+      const parsed = parseEnvContent('# ok\nCERT="a\nb"\nMY KEY=1\n=value\nVALID=1\n');
+      expect(findParseErrors(parsed)).toEqual([
+        {
+          line: 4,
+          message: "Invalid key 'MY KEY': keys cannot contain whitespace",
+          text: 'MY KEY=1',
+        },
+        { line: 5, message: "Missing key before '='", text: '=value' },
+      ]);
+    });
+
+    it('masks secrets in the reported text', () => {
+      const token = `ghp_${'a1B2'.repeat(9)}`;
+      const parsed = parseEnvContent(`TOKEN='${token}\nNEXT=1\n${token}\n`);
+      expect(findParseErrors(parsed).map(error => error.text)).toEqual([
+        'TOKEN=********',
+        '********',
+      ]);
+    });
+  });
+
+  describe('unquoteValue', () => {
+    it('expands newlines in double-quoted values only', () => {
+      expect(unquoteValue('"a\\nb"')).toBe('a\nb');
+      expect(unquoteValue("'a\\nb'")).toBe('a\\nb');
+      expect(unquoteValue('`a\\nb`')).toBe('a\\nb');
+    });
+
+    it('trims unquoted values', () => {
+      expect(unquoteValue(' plain ')).toBe('plain');
+    });
+  });
+
   describe('EnvFileAnalysis', () => {
     // We mock the environment by pointing to a test directory or mocking fs
     // For this level of unit test, we can trust the analysis logic given mocked file inputs
@@ -74,6 +215,17 @@ describe('sync-logic', () => {
       expect(result).toContain('NEW_KEY=val');
     });
 
+    it('appends inline comments when provided', () => {
+      const result = EnvFileAnalysis.mergeContent(
+        '',
+        ['PORT'],
+        () => 'input_port',
+        () => 'HTTP port'
+      );
+
+      expect(result.trim()).toBe('PORT=input_port # HTTP port');
+    });
+
     it('handles empty original content', () => {
       const original = '';
       const keysToAdd = ['NEW_KEY'];
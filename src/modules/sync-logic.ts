@@ -1,5 +1,8 @@
-import fs from 'fs';
 import path from 'path';
+import { EnvFs, nodeFs } from '../utils/env-fs.js';
+import { globToRegExp } from '../utils/glob.js';
+import { discoverEnvFiles, EnvDiscoveryOptions } from './env-discovery.js';
+import { maskParsedLine, maskSecretsInText } from './secrets.js';
 
 // ============================================================================
 // TYPES
@@ -13,16 +16,31 @@ export interface EnvFileInfo {
   lines: string[];
   keys: Set<string>;
   parsedLines: ParsedEnvLine[];
+  matchedPattern?: string; // discovery pattern that selected this file
 }
 
 export interface ParsedEnvLine {
   key: string;
-  value: string;
-  originalLine: string;
+  value: string; // everything after '=', exactly as written
+  rawValue: string; // value without the inline comment, quotes kept
+  unquotedValue: string; // value with quotes stripped and escapes applied
+  inlineComment?: string; // text after a trailing '#', without the marker
+  originalLine: string; // full original text; spans several physical lines for multiline values
   isComment: boolean;
   isEmpty: boolean;
+  quote?: EnvQuoteChar; // set when the value is wrapped in quotes
+  isMultiline?: boolean;
+  parseError?: string; // set when the line is not valid env syntax
 }
 
+export interface EnvParseError {
+  line: number; // 1-based line where the offending entry starts
+  message: string;
+  text: string;
+}
+
+export type EnvQuoteChar = '"' | "'" | '`';
+
 export interface EnvAnalysisReport {
   sourceOfTruth: string; // e.g., '.env.example'
   files: EnvFileInfo[];
@@ -35,6 +53,10 @@ export interface SyncOptions {
   sourceOfTruth?: string;
 }
 
+export interface AnalyzerOptions extends EnvDiscoveryOptions {
+  ignoreKeys?: string[]; // glob patterns of keys left out of the comparison
+}
+
 // ============================================================================
 // PARSING LOGIC
 // ============================================================================
@@ -51,6 +73,8 @@ export function parseEnvLine(line: string): ParsedEnvLine {
     return {
       key: '',
       value: '',
+      rawValue: '',
+      unquotedValue: '',
       originalLine: line,
       isComment,
       isEmpty,
@@ -62,9 +86,12 @@ export function parseEnvLine(line: string): ParsedEnvLine {
     return {
       key: '',
       value: '',
+      rawValue: '',
+      unquotedValue: '',
       originalLine: line,
       isComment: false,
       isEmpty: false,
+      parseError: "Expected 'KEY=value'",
     };
   }
 
@@ -76,18 +103,196 @@ export function parseEnvLine(line: string): ParsedEnvLine {
     key = key.substring(EXPORT_PREFIX.length).trim();
   }
 
+  let parseError: string | undefined;
+  if (!key) {
+    parseError = "Missing key before '='";
+  } else if (/\s/.test(key)) {
+    parseError = `Invalid key '${key}': keys cannot contain whitespace`;
+  }
+
   return {
     key,
     value,
+    ...splitValue(value),
     originalLine: line,
     isComment: false,
     isEmpty: false,
+    ...(parseError ? { parseError } : {}),
+  };
+}
+
+const QUOTE_CHARS: readonly string[] = ['"', "'", '`'];
+
+/**
+ * Find the index of the closing quote in `text`, where `text[0]` is the opening quote,
+ * scanning from `from`. Follows dotenv rules: a backslash-escaped quote does not terminate
+ * a double-quoted value; single and backtick quotes are literal, so `'C:\\dir\\'` closes.
+ * Returns -1 when the quote is never closed.
+ */
+function findClosingQuote(text: string, quote: string, from = 1): number {
+  for (let i = from; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === quote) return i;
+  }
+  return -1;
+}
+
+/**
+ * Strip surrounding quotes from a raw value and apply dotenv escape rules:
+ * double-quoted values expand `\n` and `\r`, single and backtick quotes are literal.
+ * Unquoted values are returned trimmed.
+ */
+export function unquoteValue(rawValue: string): string {
+  const trimmed = rawValue.trim();
+  const quote = trimmed[0];
+  if (!QUOTE_CHARS.includes(quote)) return trimmed;
+
+  const closing = findClosingQuote(trimmed, quote);
+  if (closing === -1) return trimmed;
+
+  const inner = trimmed.substring(1, closing);
+  if (quote !== '"') return inner;
+  return inner.replace(/\\n/g, '\n').replace(/\\r/g, '\r');
+}
+
+type ValueParts = Pick<ParsedEnvLine, 'rawValue' | 'unquotedValue' | 'inlineComment' | 'quote'>;
+
+/**
+ * Separate a value from its inline comment.
+ * Inside quotes '#' is literal; in unquoted values a '#' starts a comment only at the
+ * beginning of the value or after whitespace, so URLs with fragments survive.
+ */
+function splitValue(value: string): ValueParts {
+  const trimmed = value.trim();
+  const quote = trimmed[0];
+
+  if (QUOTE_CHARS.includes(quote)) {
+    const closing = findClosingQuote(trimmed, quote);
+    const rest = closing === -1 ? '' : trimmed.substring(closing + 1).trim();
+    if (closing !== -1 && (rest === '' || rest.startsWith('#'))) {
+      const rawValue = trimmed.substring(0, closing + 1);
+      return {
+        rawValue,
+        unquotedValue: unquoteValue(rawValue),
+        inlineComment: rest ? rest.substring(1).trim() : undefined,
+        quote: quote as EnvQuoteChar,
+      };
+    }
+  }
+
+  const commentMatch = /(^|\s)#/.exec(value);
+  if (!commentMatch) {
+    return { rawValue: trimmed, unquotedValue: trimmed };
+  }
+
+  const rawValue = value.substring(0, commentMatch.index).trim();
+  return {
+    rawValue,
+    unquotedValue: rawValue,
+    inlineComment: value.substring(commentMatch.index + commentMatch[0].length).trim(),
   };
 }
 
-export function loadEnvFile(filePath: string): EnvFileInfo {
+/**
+ * Serialize a plain value for writing, quoting it only when it would not survive a re-parse
+ * (surrounding whitespace, comment markers, newlines or a leading quote).
+ * Single quotes are preferred because their content is taken literally.
+ */
+export function formatEnvValue(value: string): string {
+  const needsQuotes =
+    value !== value.trim() ||
+    /(^|\s)#/.test(value) ||
+    value.includes('\n') ||
+    QUOTE_CHARS.includes(value[0]);
+  if (!needsQuotes) return value;
+
+  if (!value.includes("'")) return `'${value}'`;
+  // Double quotes treat backslashes as escapes, so only plain text survives them
+  if (!value.includes('"') && !value.includes('\\')) return `"${value}"`;
+  return `\`${value}\``;
+}
+
+/**
+ * Parse whole file content into logical entries.
+ * A quoted value that is not closed on its own line swallows the following lines
+ * until the closing quote, so PEM blocks and JSON blobs stay a single entry.
+ * Unterminated quotes fall back to line-by-line parsing.
+ */
+export function parseEnvContent(content: string): ParsedEnvLine[] {
+  const lines = content.split('\n');
+  const entries: ParsedEnvLine[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const parsed = parseEnvLine(lines[i]);
+    const valueStart = parsed.value.trimStart();
+    const quote = valueStart[0];
+
+    if (!parsed.key || !QUOTE_CHARS.includes(quote)) {
+      entries.push(parsed);
+      continue;
+    }
+
+    // Only the newly appended line is scanned, so long blocks stay linear
+    let quoted = valueStart;
+    let closing = findClosingQuote(quoted, quote);
+    let end = i;
+    while (closing === -1 && end + 1 < lines.length) {
+      end++;
+      const scanFrom = quoted.length;
+      quoted += `\n${lines[end]}`;
+      closing = findClosingQuote(quoted, quote, scanFrom);
+    }
+
+    if (closing === -1) {
+      entries.push({ ...parsed, parseError: parsed.parseError || 'Unterminated quoted value' });
+      continue;
+    }
+
+    const rawValue = parsed.value.substring(0, parsed.value.length - valueStart.length) + quoted;
+    entries.push({
+      ...parsed,
+      value: rawValue,
+      ...splitValue(rawValue),
+      originalLine: lines.slice(i, end + 1).join('\n'),
+      isMultiline: end > i,
+    });
+    i = end;
+  }
+
+  return entries;
+}
+
+/**
+ * The 1-based line on which each parsed entry starts; multiline values span several lines.
+ */
+export function entryLineNumbers(parsedLines: ParsedEnvLine[]): number[] {
+  let line = 1;
+  return parsedLines.map(parsed => {
+    const start = line;
+    line += parsed.originalLine.split('\n').length;
+    return start;
+  });
+}
+
+/**
+ * List the entries of a parsed file that are not valid env syntax, with 1-based line numbers.
+ * The reported text is masked: a broken quote often means a secret spilled into the line.
+ */
+export function findParseErrors(parsedLines: ParsedEnvLine[]): EnvParseError[] {
+  const lines = entryLineNumbers(parsedLines);
+  return parsedLines.flatMap((parsed, index) => {
+    if (!parsed.parseError) return [];
+    const firstLine = maskParsedLine(parsed).originalLine.split('\n')[0].replace(/\r$/, '');
+    return [{ line: lines[index], message: parsed.parseError, text: maskSecretsInText(firstLine) }];
+  });
+}
+
+export function loadEnvFile(filePath: string, fs: EnvFs = nodeFs): EnvFileInfo {
   const fileName = path.basename(filePath);
-  if (!fs.existsSync(filePath)) {
+  if (!fs.exists(filePath)) {
     return {
       filePath,
       fileName,
@@ -100,14 +305,12 @@ export function loadEnvFile(filePath: string): EnvFileInfo {
   }
 
   try {
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const content = fs.readFile(filePath);
     const lines = content.split('\n');
     const keys = new Set<string>();
-    const parsedLines: ParsedEnvLine[] = [];
+    const parsedLines = parseEnvContent(content);
 
-    for (const line of lines) {
-      const parsed = parseEnvLine(line);
-      parsedLines.push(parsed);
+    for (const parsed of parsedLines) {
       if (parsed.key) {
         keys.add(parsed.key);
       }
@@ -141,37 +344,96 @@ export function loadEnvFile(filePath: string): EnvFileInfo {
 // ANALYSIS LOGIC
 // ============================================================================
 
+/**
+ * Compare loaded files against the Source of Truth, or against the union of all keys when
+ * `sourceOfTruth` is empty.
+ */
+export function compareEnvFiles(files: EnvFileInfo[], sourceOfTruth: string): EnvAnalysisReport {
+  // 1. Collect All Unique Keys
+  const allKeys = new Set<string>();
+  files.forEach(f => {
+    f.keys.forEach(k => allKeys.add(k));
+  });
+
+  const missingKeys: Record<string, string[]> = {};
+  const orphanKeys: Record<string, string[]> = {};
+
+  // 2. Compare against Source of Truth (if determined)
+  if (sourceOfTruth) {
+    const sourceFile = files.find(f => f.fileName === sourceOfTruth);
+
+    // If the source file was specified but doesn't exist (e.g., user error or deleted), we can't fully analyze discrepancies against it.
+    // However, if it DOES exist, we proceed.
+    if (sourceFile) {
+      const sourceKeys = sourceFile.keys;
+
+      files.forEach(target => {
+        if (target.fileName === sourceOfTruth) return;
+
+        // Missing: In Source but not in Target
+        const missing = Array.from(sourceKeys).filter(k => !target.keys.has(k));
+        if (missing.length > 0) {
+          missingKeys[target.fileName] = missing;
+        }
+
+        // Orphan: In Target but not in Source
+        const orphans = Array.from(target.keys).filter(k => !sourceKeys.has(k));
+        if (orphans.length > 0) {
+          orphanKeys[target.fileName] = orphans;
+        }
+      });
+    }
+  } else {
+    // No Source of Truth mode (Peer-to-Peer logic simulation or just raw report)
+    // If we want to simulate the "Old Behavior" (Union), every key not in a file is "missing".
+    // But for this "Action Oriented" approach, we just report what we found.
+    // We can treat 'allKeys' as the virtual source of truth for "missing" calculation if we want a "Union" report.
+
+    files.forEach(target => {
+      const missing = Array.from(allKeys).filter(k => !target.keys.has(k));
+      if (missing.length > 0) {
+        missingKeys[target.fileName] = missing;
+      }
+    });
+  }
+
+  return {
+    sourceOfTruth,
+    files,
+    missingKeys,
+    orphanKeys,
+    allKeys,
+  };
+}
+
 export class EnvFileAnalysis {
   private cwd: string;
-  private envFiles: string[];
+  private options: AnalyzerOptions;
 
-  constructor(cwd: string) {
+  constructor(cwd: string, options: AnalyzerOptions = {}) {
     this.cwd = cwd;
-    this.envFiles = [
-      '.env',
-      '.env.local',
-      '.env.development',
-      '.env.test',
-      '.env.testing',
-      '.env.staging',
-      '.env.production',
-      '.env.example',
-    ];
+    this.options = options;
   }
 
   public analyze(options: SyncOptions = {}): EnvAnalysisReport {
     // 1. Discover and Load Files
-    const files: EnvFileInfo[] = this.envFiles
-      .map(name => loadEnvFile(path.join(this.cwd, name)))
+    const files: EnvFileInfo[] = discoverEnvFiles(this.cwd, this.options)
+      .map(found => ({
+        ...loadEnvFile(found.filePath, this.options.fs),
+        fileName: found.fileName,
+        matchedPattern: found.matchedPattern,
+      }))
       .filter(f => f.exists);
 
-    // 2. Collect All Unique Keys
-    const allKeys = new Set<string>();
-    files.forEach(f => {
-      f.keys.forEach(k => allKeys.add(k));
-    });
+    // Ignored keys stay in the parsed content but take no part in the comparison
+    const ignored = (this.options.ignoreKeys || []).map(globToRegExp);
+    if (ignored.length > 0) {
+      files.forEach(f => {
+        f.keys = new Set(Array.from(f.keys).filter(k => !ignored.some(regex => regex.test(k))));
+      });
+    }
 
-    // 3. Determine Source of Truth
+    // 2. Determine Source of Truth
     let sourceOfTruthName = options.sourceOfTruth;
 
     // If not specified, default to .env.example if it exists
@@ -187,65 +449,21 @@ export class EnvFileAnalysis {
       }
     }
 
-    const missingKeys: Record<string, string[]> = {};
-    const orphanKeys: Record<string, string[]> = {};
-
-    // 4. Compare against Source of Truth (if determined)
-    if (sourceOfTruthName) {
-      const sourceFile = files.find(f => f.fileName === sourceOfTruthName);
-
-      // If the source file was specified but doesn't exist (e.g., user error or deleted), we can't fully analyze discrepancies against it.
-      // However, if it DOES exist, we proceed.
-      if (sourceFile) {
-        const sourceKeys = sourceFile.keys;
-
-        files.forEach(target => {
-          if (target.fileName === sourceOfTruthName) return;
-
-          // Missing: In Source but not in Target
-          const missing = Array.from(sourceKeys).filter(k => !target.keys.has(k));
-          if (missing.length > 0) {
-            missingKeys[target.fileName] = missing;
-          }
-
-          // Orphan: In Target but not in Source
-          const orphans = Array.from(target.keys).filter(k => !sourceKeys.has(k));
-          if (orphans.length > 0) {
-            orphanKeys[target.fileName] = orphans;
-          }
-        });
-      }
-    } else {
-      // No Source of Truth mode (Peer-to-Peer logic simulation or just raw report)
-      // If we want to simulate the "Old Behavior" (Union), every key not in a file is "missing".
-      // But for this "Action Oriented" approach, we just report what we found.
-      // We can treat 'allKeys' as the virtual source of truth for "missing" calculation if we want a "Union" report.
-
-      files.forEach(target => {
-        const missing = Array.from(allKeys).filter(k => !target.keys.has(k));
-        if (missing.length > 0) {
-          missingKeys[target.fileName] = missing;
-        }
-      });
-    }
-
-    return {
-      sourceOfTruth: sourceOfTruthName || '',
-      files,
-      missingKeys,
-      orphanKeys,
-      allKeys,
-    };
+    // 3. Compare
+    return compareEnvFiles(files, sourceOfTruthName || '');
   }
 
   /**
    * Helper to merge new keys into a file content.
    * This is "Pure" logic - it doesn't write to disk.
+   * Values are plain strings and get quoted as needed; an optional comment is appended inline.
+   * @deprecated Use `EnvDocument` from `env-document.ts`, which also supports in-place edits.
    */
   public static mergeContent(
     originalContent: string,
     keysToAdd: string[],
-    valueProvider: (key: string) => string
+    valueProvider: (key: string) => string,
+    commentProvider: (key: string) => string | undefined = () => undefined
   ): string {
     const lines = originalContent.split('\n');
     const newLines = [...lines];
@@ -256,8 +474,9 @@ export class EnvFileAnalysis {
     }
 
     keysToAdd.forEach(key => {
-      const value = valueProvider(key);
-      newLines.push(`${key}=${value}`);
+      const value = formatEnvValue(valueProvider(key));
+      const comment = commentProvider(key);
+      newLines.push(comment ? `${key}=${value} # ${comment}` : `${key}=${value}`);
     });
 
     return newLines.join('\n');
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'bun:test';
+import { parseSchemaAnnotations } from './env-schema.js';
+import { parseEnvContent } from './sync-logic.js';
+import { generateEnvTypes } from './type-generator.js';
+
+describe('type-generator', () => {
+  it('declares every key on ProcessEnv without a schema', () => {
+    expect(generateEnvTypes(['PORT', 'my-key'], null, { source: '.env.example' })).toBe(
+      [
+        '// Generated by env-twin from .env.example. Do not edit; run `env-twin types` to update.',
+        '',
+        'declare global {',
+        '  namespace NodeJS {',
+        '    interface ProcessEnv {',
+        '      PORT: string;',
+        "      'my-key': string;",
+        '    }',
+        '  }',
+        '}',
+        '',
+        'export {};',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('uses the schema for optional keys, enums and JSDoc', () => {
+    const output = generateEnvTypes(['API_URL', 'LOG_LEVEL'], {
+      keys: {
+        API_URL: { type: 'url', required: true, description: 'Public API', example: 'https://x' },
+        LOG_LEVEL: { type: 'enum', values: ['debug', 'info'], default: 'info', required: false },
+        OLD_TOKEN: { deprecated: 'use API_TOKEN' },
+      },
+    });
+
+    expect(output).toContain(
+      [
+        '      /**',
+        '       * Public API',
+        '       * Expected format: url.',
+        '       * @example https://x',
+        '       */',
+        '      API_URL: string;',
+        '      /** @default info */',
+        "      LOG_LEVEL?: 'debug' | 'info';",
+        '      /** @deprecated use API_TOKEN */',
+        '      OLD_TOKEN: string;',
+      ].join('\n')
+    );
+  });
+
+  it('keeps unannotated keys required when other keys are annotated', () => {
+    const schema = parseSchemaAnnotations(
+      parseEnvContent('PORT=\n# @optional\nDEBUG=\n# Database host\nDB_HOST=\n'),
+      '.env.example'
+    );
+    const output = generateEnvTypes(['PORT', 'DEBUG', 'DB_HOST'], schema);
+
+    expect(output).toContain('      PORT: string;');
+    expect(output).toContain('      DEBUG?: string;');
+    expect(output).toContain('      /** Database host */\n      DB_HOST: string;');
+  });
+
+  it('declares ImportMetaEnv for prefixed keys only', () => {
+    const vite = generateEnvTypes(['VITE_API_URL', 'SECRET'], null, { importMeta: true });
+    expect(vite).toContain('  interface ImportMetaEnv {\n    readonly VITE_API_URL: string;\n  }');
+    expect(vite).toContain('  interface ImportMeta {\n    readonly env: ImportMetaEnv;\n  }');
+
+    const custom = generateEnvTypes(['PUBLIC_URL', 'VITE_X'], null, { importMeta: 'PUBLIC_' });
+    expect(custom).toContain('  interface ImportMetaEnv {\n    readonly PUBLIC_URL: string;\n  }');
+    expect(generateEnvTypes(['A'], null)).not.toContain('ImportMetaEnv');
+  });
+});
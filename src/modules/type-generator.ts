@@ -0,0 +1,118 @@
+import { EnvKeySchema, EnvSchema } from './env-schema.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TypeGenerationOptions {
+  /** Also declare `ImportMetaEnv`: true for Vite's `VITE_` prefix, or a custom key prefix */
+  importMeta?: boolean | string;
+  /** Where the keys came from, for the header comment */
+  source?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_TYPES_FILE = 'env.d.ts';
+
+/** Vite only exposes keys with this prefix on `import.meta.env` by default. */
+export const VITE_ENV_PREFIX = 'VITE_';
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+/**
+ * Render a declaration file that augments `NodeJS.ProcessEnv` (and optionally `ImportMetaEnv`)
+ * with the given keys plus any keys only the schema declares. Keys are required strings unless
+ * the schema explicitly marks them optional (`@optional` or `required: false`).
+ */
+export function generateEnvTypes(
+  keys: Iterable<string>,
+  schema: EnvSchema | null,
+  options: TypeGenerationOptions = {}
+): string {
+  const allKeys = Array.from(new Set([...keys, ...Object.keys(schema?.keys || {})]));
+  const from = options.source ? ` from ${options.source}` : '';
+  const lines = [
+    `// Generated by env-twin${from}. Do not edit; run \`env-twin types\` to update.`,
+    '',
+    'declare global {',
+    '  namespace NodeJS {',
+    '    interface ProcessEnv {',
+    ...allKeys.flatMap(key => renderProperty(key, schema?.keys[key], '      ', false)),
+    '    }',
+    '  }',
+  ];
+
+  if (options.importMeta) {
+    const prefix = typeof options.importMeta === 'string' ? options.importMeta : VITE_ENV_PREFIX;
+    lines.push(
+      '',
+      '  interface ImportMetaEnv {',
+      ...allKeys
+        .filter(key => key.startsWith(prefix))
+        .flatMap(key => renderProperty(key, schema?.keys[key], '    ', true)),
+      '  }',
+      '',
+      '  interface ImportMeta {',
+      '    readonly env: ImportMetaEnv;',
+      '  }'
+    );
+  }
+
+  lines.push('}', '', 'export {};', '');
+  return lines.join('\n');
+}
+
+function renderProperty(
+  key: string,
+  keySchema: EnvKeySchema | undefined,
+  indent: string,
+  readonly: boolean
+): string[] {
+  const name = IDENTIFIER.test(key) ? key : `'${escapeString(key)}'`;
+  const optional = keySchema?.required === false ? '?' : '';
+  const modifier = readonly ? 'readonly ' : '';
+  const type =
+    keySchema?.type === 'enum' && keySchema.values?.length
+      ? keySchema.values.map(value => `'${escapeString(value)}'`).join(' | ')
+      : 'string';
+
+  return [
+    ...renderDocComment(keySchema, indent),
+    `${indent}${modifier}${name}${optional}: ${type};`,
+  ];
+}
+
+function renderDocComment(keySchema: EnvKeySchema | undefined, indent: string): string[] {
+  if (!keySchema) return [];
+
+  const docs = [
+    ...(keySchema.description ? [keySchema.description] : []),
+    ...(keySchema.type && keySchema.type !== 'string' && keySchema.type !== 'enum'
+      ? [`Expected format: ${keySchema.type}.`]
+      : []),
+    ...(keySchema.default !== undefined ? [`@default ${keySchema.default}`] : []),
+    ...(keySchema.example !== undefined ? [`@example ${keySchema.example}`] : []),
+    ...(keySchema.deprecated
+      ? [
+          typeof keySchema.deprecated === 'string'
+            ? `@deprecated ${keySchema.deprecated}`
+            : '@deprecated',
+        ]
+      : []),
+  ].map(line => line.replace(/\*\//g, '*\\/'));
+
+  if (docs.length === 0) return [];
+  if (docs.length === 1) return [`${indent}/** ${docs[0]} */`];
+  return [`${indent}/**`, ...docs.map(line => `${indent} * ${line}`), `${indent} */`];
+}
+
+function escapeString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseEnvContent } from './sync-logic.js';
+import { compareUsage, findKeyUsages, scanSourceUsages } from './usage-scanner.js';
+
+let tempDir = '';
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-twin-usage-'));
+});
+
+afterEach(() => {
+  if (tempDir && fs.existsSync(tempDir)) {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+const write = (name: string, content: string) => {
+  fs.mkdirSync(path.dirname(path.join(tempDir, name)), { recursive: true });
+  fs.writeFileSync(path.join(tempDir, name), content);
+};
+
+describe('usage-scanner', () => {
+  it('finds lookups for every supported runtime', () => {
+    const content = [
+      "const a = process.env.API_URL ?? process.env['API_KEY'];",
+      'const b = import.meta.env.VITE_TITLE + import.meta.env["VITE_MODE"];',
+      "Deno.env.get('DENO_KEY'); os.environ['PY_A']; os.environ.get(\"PY_B\");",
+      "os.getenv('PY_C'); ENV['RB_A']; ENV.fetch('RB_B')",
+      'process.env[name]; process.environment.NOPE',
+    ].join('\n');
+
+    expect(findKeyUsages(content, 'app.ts')).toEqual([
+      { key: 'API_URL', file: 'app.ts', line: 1 },
+      { key: 'API_KEY', file: 'app.ts', line: 1 },
+      { key: 'VITE_TITLE', file: 'app.ts', line: 2 },
+      { key: 'VITE_MODE', file: 'app.ts', line: 2 },
+      { key: 'DENO_KEY', file: 'app.ts', line: 3 },
+      { key: 'PY_A', file: 'app.ts', line: 3 },
+      { key: 'PY_B', file: 'app.ts', line: 3 },
+      { key: 'PY_C', file: 'app.ts', line: 4 },
+      { key: 'RB_A', file: 'app.ts', line: 4 },
+      { key: 'RB_B', file: 'app.ts', line: 4 },
+    ]);
+  });
+
+  it('reports line numbers across long files', () => {
+    const lines = Array.from({ length: 1000 }, () => '');
+    lines[0] = 'process.env.FIRST;';
+    lines[499] = 'process.env.MIDDLE;';
+    lines[999] = 'process.env.LAST;';
+
+    expect(findKeyUsages(lines.join('\n'), 'big.ts').map(usage => usage.line)).toEqual([
+      1, 500, 1000,
+    ]);
+  });
+
+  it('scans source files and skips dependencies, build output and excluded files', () => {
+    write('src/app.ts', 'process.env.A;\n');
+    write('scripts/job.py', "os.getenv('B')\n");
+    write('node_modules/lib/index.js', 'process.env.C;\n');
+    write('dist/app.js', 'process.env.D;\n');
+    write('src/app.test.ts', 'process.env.E;\n');
+    write('README.md', 'process.env.F\n');
+
+    const keys = (usages: { key: string }[]) => usages.map(usage => usage.key).sort();
+    expect(keys(scanSourceUsages(tempDir))).toEqual(['A', 'B', 'E']);
+    expect(keys(scanSourceUsages(tempDir, { exclude: ['**/*.test.ts'] }))).toEqual(['A', 'B']);
+    expect(keys(scanSourceUsages(tempDir, { include: ['src/**/*.ts'] }))).toEqual(['A', 'E']);
+  });
+
+  it('reports undeclared and unused keys with locations', () => {
+    const declared = parseEnvContent('API_URL=\n# comment\nOLD_KEY=\nLOCAL_DEBUG=\n');
+    const usages = [
+      { key: 'API_URL', file: 'a.ts', line: 1 },
+      { key: 'NEW_KEY', file: 'a.ts', line: 2 },
+      { key: 'NEW_KEY', file: 'b.ts', line: 7 },
+      { key: 'NODE_ENV', file: 'a.ts', line: 3 },
+    ];
+
+    expect(compareUsage('.env.example', declared, usages, ['LOCAL_*'])).toEqual({
+      declaredFile: '.env.example',
+      undeclared: {
+        NEW_KEY: [
+          { key: 'NEW_KEY', file: 'a.ts', line: 2 },
+          { key: 'NEW_KEY', file: 'b.ts', line: 7 },
+        ],
+      },
+      unused: [{ key: 'OLD_KEY', file: '.env.example', line: 3 }],
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import fs from 'fs';
+import path from 'path';
+import { BACKUP_DIR } from '../utils/backup.js';
+import { globToRegExp, listFilesForPatterns } from '../utils/glob.js';
+import { entryLineNumbers, ParsedEnvLine } from './sync-logic.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface KeyUsage {
+  key: string;
+  file: string; // '/'-separated, relative to the scanned directory
+  line: number; // 1-based
+}
+
+export interface UsageScanOptions {
+  include?: string[]; // source file glob patterns (default: DEFAULT_SOURCE_PATTERNS)
+  exclude?: string[];
+}
+
+export interface UsageReport {
+  declaredFile: string;
+  /** Keys the code reads that the declared file does not list, with every place they are read */
+  undeclared: Record<string, KeyUsage[]>;
+  /** Keys the declared file lists that no scanned file reads */
+  unused: KeyUsage[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_SOURCE_PATTERNS: readonly string[] = [
+  '**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts,vue,svelte,astro,py,rb}',
+];
+
+const IGNORED_DIRS: readonly string[] = [
+  'node_modules',
+  '.git',
+  BACKUP_DIR,
+  'dist',
+  'build',
+  'coverage',
+  '.next',
+  '.nuxt',
+  'vendor',
+  'venv',
+  '.venv',
+  '__pycache__',
+];
+
+/** Larger files are almost certainly bundles or generated code. */
+const MAX_SOURCE_FILE_BYTES = 1024 * 1024;
+
+const NAME = '([A-Za-z_][A-Za-z0-9_]*)';
+const QUOTED_NAME = `(['"\`])${NAME}\\1`;
+
+/**
+ * Environment lookups per runtime. The key is always the last capture group.
+ */
+const USAGE_PATTERNS: readonly RegExp[] = [
+  new RegExp(`\\bprocess\\.env\\??\\.${NAME}`, 'g'),
+  new RegExp(`\\bprocess\\.env\\??\\.?\\[\\s*${QUOTED_NAME}\\s*\\]`, 'g'),
+  new RegExp(`\\bimport\\.meta\\.env\\??\\.${NAME}`, 'g'),
+  new RegExp(`\\bimport\\.meta\\.env\\??\\.?\\[\\s*${QUOTED_NAME}\\s*\\]`, 'g'),
+  new RegExp(`\\bDeno\\.env\\.get\\(\\s*${QUOTED_NAME}`, 'g'),
+  new RegExp(`\\bos\\.environ\\[\\s*${QUOTED_NAME}\\s*\\]`, 'g'),
+  new RegExp(`\\bos\\.environ\\.get\\(\\s*${QUOTED_NAME}`, 'g'),
+  new RegExp(`\\bos\\.getenv\\(\\s*${QUOTED_NAME}`, 'g'),
+  new RegExp(`\\bENV\\[\\s*${QUOTED_NAME}\\s*\\]`, 'g'),
+  new RegExp(`\\bENV\\.fetch\\(\\s*${QUOTED_NAME}`, 'g'),
+];
+
+/** Set by the runtime or bundler rather than an env file, so never reported as undeclared. */
+const IMPLICIT_KEYS: readonly string[] = ['NODE_ENV', 'MODE', 'DEV', 'PROD', 'SSR', 'BASE_URL'];
+
+// ============================================================================
+// SCANNING
+// ============================================================================
+
+/**
+ * Find the env keys read in one source file, in order of appearance.
+ */
+export function findKeyUsages(content: string, file: string): KeyUsage[] {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+  // Binary search for the last line starting at or before `index`
+  const lineAt = (index: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (lineStarts[middle] <= index) low = middle;
+      else high = middle - 1;
+    }
+    return low + 1;
+  };
+
+  const found: Array<KeyUsage & { index: number }> = [];
+  for (const pattern of USAGE_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      found.push({
+        key: match[match.length - 1],
+        file,
+        line: lineAt(match.index!),
+        index: match.index!,
+      });
+    }
+  }
+
+  return found.sort((a, b) => a.index - b.index).map(({ index: _index, ...usage }) => usage);
+}
+
+/**
+ * Scan the source files below `cwd` for env key lookups.
+ */
+export function scanSourceUsages(cwd: string, options: UsageScanOptions = {}): KeyUsage[] {
+  const patterns = options.include?.length ? options.include : [...DEFAULT_SOURCE_PATTERNS];
+  const include = patterns.map(globToRegExp);
+  const exclude = (options.exclude || []).map(globToRegExp);
+
+  return listFilesForPatterns(cwd, patterns, IGNORED_DIRS)
+    .filter(file => include.some(regex => regex.test(file)))
+    .filter(file => !exclude.some(regex => regex.test(file)))
+    .flatMap(file => {
+      const filePath = path.join(cwd, file);
+      try {
+        if (fs.statSync(filePath).size > MAX_SOURCE_FILE_BYTES) return [];
+        return findKeyUsages(fs.readFileSync(filePath, 'utf-8'), file);
+      } catch {
+        return [];
+      }
+    });
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Compare the keys a file declares with the keys the code reads.
+ */
+export function compareUsage(
+  declaredFile: string,
+  parsedLines: ParsedEnvLine[],
+  usages: KeyUsage[],
+  ignoreKeys: string[] = []
+): UsageReport {
+  const ignored = ignoreKeys.map(globToRegExp);
+  const isIgnored = (key: string) => ignored.some(regex => regex.test(key));
+  const lines = entryLineNumbers(parsedLines);
+  const declared = new Set(parsedLines.filter(parsed => parsed.key).map(parsed => parsed.key));
+  const used = new Set(usages.map(usage => usage.key));
+
+  const undeclared: Record<string, KeyUsage[]> = {};
+  usages.forEach(usage => {
+    if (declared.has(usage.key) || IMPLICIT_KEYS.includes(usage.key) || isIgnored(usage.key)) {
+      return;
+    }
+    (undeclared[usage.key] ||= []).push(usage);
+  });
+
+  const unused: KeyUsage[] = [];
+  parsedLines.forEach((parsed, index) => {
+    if (!parsed.key || used.has(parsed.key) || isIgnored(parsed.key)) return;
+    if (unused.some(usage => usage.key === parsed.key)) return;
+    unused.push({ key: parsed.key, file: declaredFile, line: lines[index] });
+  });
+
+  return { declaredFile, undeclared, unused };
+}
@@ -0,0 +1,10 @@
+// Runtime entry point (`env-twin/runtime`).
+export {
+  assertEnv,
+  checkEnv,
+  EnvValidationError,
+  type AssertEnvOptions,
+  type EnvIssue,
+  type EnvProblem,
+} from './modules/env-assert.js';
+export type { EnvKeySchema, EnvSchema, EnvValueType } from './modules/env-schema.js';
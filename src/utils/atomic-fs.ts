@@ -1,45 +1,41 @@
-import fs from 'fs';
 import path from 'path';
+import { EnvFs, nodeFs } from './env-fs.js';
 
 export interface AtomicWriteOptions {
   mode?: number;
-  encoding?: BufferEncoding | null;
+  fs?: EnvFs;
 }
 
 /**
  * Write to a file atomically by writing to a temporary file and renaming it.
  * @param filePath The destination file path
- * @param content The content to write (string or Buffer)
- * @param options Write options (mode, encoding)
+ * @param content The utf-8 content to write
+ * @param options Write options (mode, file system)
  */
 export function writeAtomic(
   filePath: string,
-  content: string | NodeJS.ArrayBufferView,
+  content: string,
   options: AtomicWriteOptions = {}
 ): void {
   const dir = path.dirname(filePath);
   const fileName = path.basename(filePath);
   const tempPath = path.join(dir, `.${fileName}.${Date.now()}.tmp`);
-  const { mode, encoding = 'utf-8' } = options;
+  const { mode, fs = nodeFs } = options;
   let tempCreated = false;
 
   try {
-    if (typeof content === 'string') {
-      fs.writeFileSync(tempPath, content, { encoding: encoding as BufferEncoding, mode });
-    } else {
-      fs.writeFileSync(tempPath, content, { mode });
-    }
+    fs.writeFile(tempPath, content, { mode });
     tempCreated = true;
 
     try {
-      fs.renameSync(tempPath, filePath);
+      fs.rename(tempPath, filePath);
     } catch (renameError: any) {
       if (process.platform === 'win32' && renameError.code === 'EPERM') {
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
+        if (fs.exists(filePath)) {
+          fs.unlink(filePath);
         }
         try {
-          fs.renameSync(tempPath, filePath);
+          fs.rename(tempPath, filePath);
         } catch (retryError) {
           // If retry fails, DO NOT delete temp file if we successfully unlinked target
           // But determining if we unlinked target is hard if we don't track it.
@@ -55,7 +51,7 @@ export function writeAtomic(
   } catch (error) {
     if (tempCreated) {
       try {
-        if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
+        if (fs.exists(tempPath)) fs.unlink(tempPath);
       } catch {}
     }
     throw error;
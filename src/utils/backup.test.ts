@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BACKUP_DIR, restoreBackup } from './backup.js';
+
+const TIMESTAMP = '20240101-000000';
+
+let tempDir = '';
+let outsideDir = '';
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-twin-backup-'));
+  outsideDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-twin-outside-'));
+});
+
+afterEach(() => {
+  for (const dir of [tempDir, outsideDir]) {
+    if (dir && fs.existsSync(dir)) fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+const writeBackup = (name: string, content: string) => {
+  const backupPath = path.join(tempDir, BACKUP_DIR, `${name}.${TIMESTAMP}`);
+  fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+  fs.writeFileSync(backupPath, content);
+};
+
+describe('restoreBackup', () => {
+  it('recreates missing parent directories of nested files', () => {
+    writeBackup('apps/web/.env', 'PORT=3000\n');
+
+    expect(restoreBackup(TIMESTAMP, tempDir)).toEqual({
+      restored: ['apps/web/.env'],
+      failed: [],
+    });
+    expect(fs.readFileSync(path.join(tempDir, 'apps/web/.env'), 'utf-8')).toBe('PORT=3000\n');
+  });
+
+  it('refuses to write through a symlinked directory pointing outside cwd', () => {
+    const errors: string[] = [];
+    const originalError = console.error;
+    console.error = (message?: unknown) => errors.push(String(message));
+    writeBackup('apps/web/.env', 'PORT=3000\n');
+    fs.symlinkSync(outsideDir, path.join(tempDir, 'apps'));
+
+    try {
+      expect(restoreBackup(TIMESTAMP, tempDir)).toEqual({
+        restored: [],
+        failed: ['apps/web/.env'],
+      });
+      expect(fs.readdirSync(outsideDir)).toEqual([]);
+      expect(errors[0]).toContain('symlinked directory outside the project');
+    } finally {
+      console.error = originalError;
+    }
+  });
+});
@@ -1,5 +1,5 @@
-import fs from 'fs';
 import path from 'path';
+import { EnvFs, nodeFs } from './env-fs.js';
 import { ensureBackupDirInGitignore } from './gitignore.js';
 
 // ============================================================================
@@ -18,6 +18,11 @@ export interface BackupInfo {
 
 export const BACKUP_DIR = '.env-twin';
 
+/** Backup sets kept by `clean-backups` unless told otherwise. */
+export const DEFAULT_BACKUP_KEEP = 10;
+
+const ROLLBACK_DIR = 'rollbacks';
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -33,22 +38,22 @@ function getTimestamp(): string {
   return `${year}${month}${day}-${hours}${minutes}${seconds}`;
 }
 
-function ensureBackupDir(cwd: string): boolean {
+function ensureBackupDir(cwd: string, fs: EnvFs): boolean {
   const backupPath = path.join(cwd, BACKUP_DIR);
   try {
-    if (!fs.existsSync(backupPath)) {
-      fs.mkdirSync(backupPath, { recursive: true, mode: 0o700 });
+    if (!fs.exists(backupPath)) {
+      fs.mkdir(backupPath, { recursive: true, mode: 0o700 });
     } else {
       // Ensure existing directory has correct permissions
       try {
-        fs.chmodSync(backupPath, 0o700);
+        fs.chmod(backupPath, 0o700);
       } catch (error) {
         // Ignore chmod errors on Windows or if not owner
       }
     }
 
     // Ensure backup directory is in .gitignore
-    ensureBackupDirInGitignore(cwd);
+    ensureBackupDirInGitignore(cwd, fs);
 
     return true;
   } catch (error) {
@@ -59,27 +64,75 @@ function ensureBackupDir(cwd: string): boolean {
   }
 }
 
+/**
+ * Backups mirror the file's location relative to cwd (e.g. `.env-twin/env/prod.env.<ts>`)
+ * so nested env files restore to where they came from. Files outside cwd fall back to
+ * their base name.
+ */
+function prepareBackupPath(filePath: string, cwd: string, timestamp: string, fs: EnvFs): string {
+  const relative = path.relative(cwd, filePath);
+  const fileName =
+    relative.startsWith('..') || path.isAbsolute(relative) ? path.basename(filePath) : relative;
+  const backupPath = path.join(cwd, BACKUP_DIR, `${fileName}.${timestamp}`);
+
+  const backupDir = path.dirname(backupPath);
+  if (!fs.exists(backupDir)) {
+    fs.mkdir(backupDir, { recursive: true, mode: 0o700 });
+  }
+  return backupPath;
+}
+
+/**
+ * List backup files as '/'-separated paths relative to the backup directory.
+ * Rollback snapshots live in their own subdirectory and are skipped.
+ */
+function listBackupFiles(backupPath: string, fs: EnvFs, relativeDir = ''): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdir(path.join(backupPath, relativeDir))) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (relativePath !== ROLLBACK_DIR) {
+        files.push(...listBackupFiles(backupPath, fs, relativePath));
+      }
+    } else {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Whether `dirPath`, with symlinks resolved, stays inside `cwd`. A directory that does not
+ * exist yet is judged by its nearest existing ancestor.
+ */
+function resolvesInside(cwd: string, dirPath: string, fs: EnvFs): boolean {
+  let existing = dirPath;
+  while (!fs.exists(existing) && path.dirname(existing) !== existing) {
+    existing = path.dirname(existing);
+  }
+  const relative = path.relative(fs.realpath(cwd), fs.realpath(existing));
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
 // ============================================================================
 // BACKUP OPERATIONS
 // ============================================================================
 
-export function createBackup(filePath: string, cwd: string): boolean {
+export function createBackup(filePath: string, cwd: string, fs: EnvFs = nodeFs): boolean {
   try {
-    if (!fs.existsSync(filePath)) {
+    if (!fs.exists(filePath)) {
       return false;
     }
 
-    if (!ensureBackupDir(cwd)) {
+    if (!ensureBackupDir(cwd, fs)) {
       return false;
     }
 
-    const fileName = path.basename(filePath);
     const timestamp = getTimestamp();
-    const backupFileName = `${fileName}.${timestamp}`;
-    const backupPath = path.join(cwd, BACKUP_DIR, backupFileName);
+    const backupPath = prepareBackupPath(filePath, cwd, timestamp, fs);
 
-    const content = fs.readFileSync(filePath, 'utf-8');
-    fs.writeFileSync(backupPath, content, { encoding: 'utf-8', mode: 0o600 });
+    const content = fs.readFile(filePath);
+    fs.writeFile(backupPath, content, { mode: 0o600 });
     return true;
   } catch (error) {
     console.error(
@@ -89,8 +142,8 @@ export function createBackup(filePath: string, cwd: string): boolean {
   }
 }
 
-export function createBackups(filePaths: string[], cwd: string): string | null {
-  if (!ensureBackupDir(cwd)) {
+export function createBackups(filePaths: string[], cwd: string, fs: EnvFs = nodeFs): string | null {
+  if (!ensureBackupDir(cwd, fs)) {
     return null;
   }
 
@@ -98,17 +151,15 @@ export function createBackups(filePaths: string[], cwd: string): string | null {
   let successCount = 0;
 
   for (const filePath of filePaths) {
-    if (!fs.existsSync(filePath)) {
+    if (!fs.exists(filePath)) {
       continue;
     }
 
     try {
-      const fileName = path.basename(filePath);
-      const backupFileName = `${fileName}.${timestamp}`;
-      const backupPath = path.join(cwd, BACKUP_DIR, backupFileName);
+      const backupPath = prepareBackupPath(filePath, cwd, timestamp, fs);
 
-      const content = fs.readFileSync(filePath, 'utf-8');
-      fs.writeFileSync(backupPath, content, { encoding: 'utf-8', mode: 0o600 });
+      const content = fs.readFile(filePath);
+      fs.writeFile(backupPath, content, { mode: 0o600 });
       successCount++;
     } catch (error) {
       console.error(
@@ -124,15 +175,15 @@ export function createBackups(filePaths: string[], cwd: string): string | null {
 // BACKUP LISTING
 // ============================================================================
 
-export function listBackups(cwd: string): BackupInfo[] {
+export function listBackups(cwd: string, fs: EnvFs = nodeFs): BackupInfo[] {
   const backupPath = path.join(cwd, BACKUP_DIR);
 
-  if (!fs.existsSync(backupPath)) {
+  if (!fs.exists(backupPath)) {
     return [];
   }
 
   try {
-    const files = fs.readdirSync(backupPath);
+    const files = listBackupFiles(backupPath, fs);
     const backupsByTimestamp = new Map<string, { files: string[]; createdAt: Date }>();
 
     for (const file of files) {
@@ -141,7 +192,7 @@ export function listBackups(cwd: string): BackupInfo[] {
 
       const timestamp = match[2];
       const filePath = path.join(backupPath, file);
-      const stats = fs.statSync(filePath);
+      const stats = fs.stat(filePath);
 
       if (!backupsByTimestamp.has(timestamp)) {
         backupsByTimestamp.set(timestamp, { files: [], createdAt: stats.mtime });
@@ -166,24 +217,45 @@ export function listBackups(cwd: string): BackupInfo[] {
   }
 }
 
+/**
+ * Path of one file inside a backup, e.g. ('20241125-143022', 'env/prod.env').
+ * Returns null when the backup does not contain the file or the name leaves the backup directory.
+ */
+export function getBackupFilePath(
+  timestamp: string,
+  fileName: string,
+  cwd: string,
+  fs: EnvFs = nodeFs
+): string | null {
+  const backupPath = path.join(cwd, BACKUP_DIR);
+  const filePath = path.join(backupPath, `${fileName}.${timestamp}`);
+
+  const relative = path.relative(backupPath, filePath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+  return fs.exists(filePath) ? filePath : null;
+}
+
 // ============================================================================
 // BACKUP RESTORATION
 // ============================================================================
 
 export function restoreBackup(
   timestamp: string,
-  cwd: string
+  cwd: string,
+  fs: EnvFs = nodeFs
 ): { restored: string[]; failed: string[] } {
   const backupPath = path.join(cwd, BACKUP_DIR);
   const restored: string[] = [];
   const failed: string[] = [];
 
-  if (!fs.existsSync(backupPath)) {
+  if (!fs.exists(backupPath)) {
     return { restored, failed };
   }
 
   try {
-    const files = fs.readdirSync(backupPath);
+    const files = listBackupFiles(backupPath, fs);
 
     for (const file of files) {
       const match = file.match(/^(.+)\.(\d{8}-\d{6})$/);
@@ -202,15 +274,26 @@ export function restoreBackup(
       }
 
       try {
-        const content = fs.readFileSync(backupFilePath, 'utf-8');
+        const content = fs.readFile(backupFilePath);
+
+        // Security Check: Symlinked Directory
+        // A symlinked parent directory must not lead the write outside the project
+        const targetDir = path.dirname(targetFilePath);
+        if (!resolvesInside(cwd, targetDir, fs)) {
+          console.error(
+            `Security Warning: Skipping symlinked directory outside the project: ${originalFileName}`
+          );
+          failed.push(originalFileName);
+          continue;
+        }
 
         // Security Check: Symlink Attack
         // Check if target exists and is a symlink before writing
         try {
-          const lstat = fs.lstatSync(targetFilePath);
+          const lstat = fs.lstat(targetFilePath);
           if (lstat.isSymbolicLink()) {
             // Remove symlink to prevent writing through it
-            fs.unlinkSync(targetFilePath);
+            fs.unlink(targetFilePath);
           } else if (lstat.isDirectory()) {
             // Do not overwrite directory
             console.error(`Security Warning: Skipping directory overwrite: ${originalFileName}`);
@@ -224,7 +307,10 @@ export function restoreBackup(
           }
         }
 
-        fs.writeFileSync(targetFilePath, content, 'utf-8');
+        if (!fs.exists(targetDir)) {
+          fs.mkdir(targetDir, { recursive: true });
+        }
+        fs.writeFile(targetFilePath, content);
         restored.push(originalFileName);
       } catch (error) {
         failed.push(originalFileName);
@@ -243,15 +329,15 @@ export function restoreBackup(
 // BACKUP DELETION
 // ============================================================================
 
-export function deleteBackup(timestamp: string, cwd: string): boolean {
+export function deleteBackup(timestamp: string, cwd: string, fs: EnvFs = nodeFs): boolean {
   const backupPath = path.join(cwd, BACKUP_DIR);
 
-  if (!fs.existsSync(backupPath)) {
+  if (!fs.exists(backupPath)) {
     return false;
   }
 
   try {
-    const files = fs.readdirSync(backupPath);
+    const files = listBackupFiles(backupPath, fs);
     let deletedCount = 0;
 
     for (const file of files) {
@@ -259,7 +345,7 @@ export function deleteBackup(timestamp: string, cwd: string): boolean {
       if (!match || match[2] !== timestamp) continue;
 
       const filePath = path.join(backupPath, file);
-      fs.unlinkSync(filePath);
+      fs.unlink(filePath);
       deletedCount++;
     }
 
@@ -274,9 +360,10 @@ export function deleteBackup(timestamp: string, cwd: string): boolean {
 
 export function cleanOldBackups(
   cwd: string,
-  keepCount: number = 10
+  keepCount: number = DEFAULT_BACKUP_KEEP,
+  fs: EnvFs = nodeFs
 ): { deleted: string[]; kept: string[] } {
-  const backups = listBackups(cwd);
+  const backups = listBackups(cwd, fs);
   const deleted: string[] = [];
   const kept: string[] = [];
 
@@ -284,7 +371,7 @@ export function cleanOldBackups(
     if (i < keepCount) {
       kept.push(backups[i].timestamp);
     } else {
-      if (deleteBackup(backups[i].timestamp, cwd)) {
+      if (deleteBackup(backups[i].timestamp, cwd, fs)) {
         deleted.push(backups[i].timestamp);
       }
     }
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_CONFIG, loadConfigFile, mergeConfigs, readConfigFromEnv } from './config.js';
+import { parseYaml } from './yaml.js';
+
+let tempDir = '';
+
+function write(fileName: string, content: string): void {
+  fs.writeFileSync(path.join(tempDir, fileName), content, 'utf-8');
+}
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-twin-config-'));
+});
+
+afterEach(() => {
+  if (tempDir && fs.existsSync(tempDir)) {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+describe('config', () => {
+  describe('loadConfigFile', () => {
+    it('returns an empty config when nothing is found', async () => {
+      expect(await loadConfigFile(tempDir)).toEqual({ config: {} });
+    });
+
+    it('loads .env-twinrc.json', async () => {
+      write('.env-twinrc.json', JSON.stringify({ source: '.env.example', backup: { keep: 3 } }));
+      const { config, filePath } = await loadConfigFile(tempDir);
+      expect(config).toEqual({ source: '.env.example', backup: { keep: 3 } });
+      expect(filePath).toBe(path.join(tempDir, '.env-twinrc.json'));
+    });
+
+    it('loads .env-twinrc.yaml', async () => {
+      write(
+        '.env-twinrc.yaml',
+        [
+          '# env-twin settings',
+          'source: .env.example',
+          'placement: block',
+          'include:',
+          '  - "config/*.env"',
+          'keys:',
+          '  ignore: [LOCAL_*, DEBUG]',
+          'backup:',
+          '  enabled: false',
+        ].join('\n')
+      );
+      const { config } = await loadConfigFile(tempDir);
+      expect(config).toEqual({
+        source: '.env.example',
+        placement: 'block',
+        include: ['config/*.env'],
+        keys: { ignore: ['LOCAL_*', 'DEBUG'] },
+        backup: { enabled: false },
+      });
+    });
+
+    it('loads a JavaScript config module', async () => {
+      write('env-twin.config.mjs', "export default { placeholder: 'changeme_{key_lower}' };\n");
+      const { config } = await loadConfigFile(tempDir);
+      expect(config).toEqual({ placeholder: { template: 'changeme_{key_lower}' } });
+    });
+
+    it('falls back to the "env-twin" field in package.json', async () => {
+      write('package.json', JSON.stringify({ name: 'app', 'env-twin': { exclude: ['.env.ci'] } }));
+      const { config } = await loadConfigFile(tempDir);
+      expect(config).toEqual({ exclude: ['.env.ci'] });
+    });
+
+    it('ignores a broken package.json unless it configures env-twin', async () => {
+      write('package.json', '{ "name": "app", }');
+      expect(await loadConfigFile(tempDir)).toEqual({ config: {} });
+
+      write('package.json', '{ "name": "app", "env-twin": { "source": ".env" }, }');
+      await expect(loadConfigFile(tempDir)).rejects.toThrow(
+        /Failed to read config '.*package\.json'/
+      );
+    });
+
+    it('uses an explicit path and fails when it is missing', async () => {
+      write('custom.json', JSON.stringify({ source: '.env' }));
+      expect((await loadConfigFile(tempDir, 'custom.json')).config).toEqual({ source: '.env' });
+      await expect(loadConfigFile(tempDir, 'missing.json')).rejects.toThrow(/not found/);
+    });
+
+    it('expands a placeholder string into a template', async () => {
+      write(
+        '.env-twinrc.json',
+        JSON.stringify({ placeholder: { overrides: { PORT: '3000' }, keepValues: 'non-secret' } })
+      );
+      expect((await loadConfigFile(tempDir)).config.placeholder).toEqual({
+        overrides: { PORT: '3000' },
+        keepValues: 'non-secret',
+      });
+
+      write('.env-twinrc.json', JSON.stringify({ placeholder: 'x_{key}' }));
+      expect((await loadConfigFile(tempDir)).config.placeholder).toEqual({ template: 'x_{key}' });
+    });
+
+    it('rejects unknown options and invalid values', async () => {
+      write('.env-twinrc.json', JSON.stringify({ sorce: '.env' }));
+      await expect(loadConfigFile(tempDir)).rejects.toThrow(/unknown option 'sorce'/);
+
+      write('.env-twinrc.json', JSON.stringify({ placement: 'top' }));
+      await expect(loadConfigFile(tempDir)).rejects.toThrow(/'placement' must be one of/);
+
+      write('.env-twinrc.json', JSON.stringify({ backup: { keep: -1 } }));
+      await expect(loadConfigFile(tempDir)).rejects.toThrow(/'backup.keep'/);
+
+      write('.env-twinrc.json', JSON.stringify({ types: { importMeta: 1 } }));
+      await expect(loadConfigFile(tempDir)).rejects.toThrow(/'types.importMeta'/);
+    });
+  });
+
+  it('reads ENV_TWIN_* variables', () => {
+    expect(
+      readConfigFromEnv({
+        ENV_TWIN_SOURCE: '.env.local',
+        ENV_TWIN_EXCLUDE: '.env.ci, .env.docker',
+        ENV_TWIN_NO_BACKUP: 'true',
+        ENV_TWIN_KEEP: '5',
+      })
+    ).toEqual({
+      source: '.env.local',
+      exclude: ['.env.ci', '.env.docker'],
+      backup: { enabled: false, keep: 5 },
+    });
+    expect(readConfigFromEnv({})).toEqual({});
+  });
+
+  it('merges layers with the first defined value winning', () => {
+    const merged = mergeConfigs(
+      { source: '.env', backup: { enabled: false } },
+      { source: '.env.local', placement: 'block' },
+      { placeholder: { template: 'x_{key}' }, backup: { keep: 2 } },
+      DEFAULT_CONFIG
+    );
+    expect(merged).toEqual({
+      source: '.env',
+      placement: 'block',
+      placeholder: { template: 'x_{key}' },
+      backup: { enabled: false, keep: 2 },
+    });
+  });
+
+  it('parses nested YAML sequences of mappings', () => {
+    expect(parseYaml('items:\n  - name: a\n    on: true\n  - b\nempty:\n')).toEqual({
+      items: [{ name: 'a', on: true }, 'b'],
+      empty: null,
+    });
+  });
+});
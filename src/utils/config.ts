@@ -0,0 +1,378 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { EnvSchema, parseEnvSchema } from '../modules/env-schema.js';
+import { parseYaml } from './yaml.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type KeyPlacement = 'mirror' | 'block';
+
+export interface PlaceholderConfig {
+  /** Template such as `input_{key_lower}`; see `renderPlaceholder` for variables */
+  template?: string;
+  /** Per-key templates that win over `template`, e.g. `{ "PORT": "3000" }` */
+  overrides?: Record<string, string>;
+  /** Copy the real value instead: key glob patterns, or 'non-secret' for plain non-credential values */
+  keepValues?: 'non-secret' | string[];
+}
+
+/**
+ * Project configuration. Every field is optional; see `schemas/env-twin.schema.json`.
+ */
+export interface EnvTwinConfig {
+  /** Source of Truth file for `sync` */
+  source?: string;
+  /** Extra env file glob patterns to discover */
+  include?: string[];
+  /** Glob patterns of env files to skip */
+  exclude?: string[];
+  /** How .env.example placeholders are generated; a string is shorthand for `{ template }` */
+  placeholder?: PlaceholderConfig;
+  /** Where `sync` inserts new keys */
+  placement?: KeyPlacement;
+  backup?: {
+    /** Create a backup before modifying files (default: true) */
+    enabled?: boolean;
+    /** Number of backups kept by `clean-backups` (default: 10) */
+    keep?: number;
+  };
+  keys?: {
+    /** Glob patterns of keys that are never synced */
+    ignore?: string[];
+  };
+  /** Env schema for `validate`: a path to a schema file, or the schema itself */
+  schema?: string | EnvSchema;
+  types?: {
+    /** Declaration file written by `types` (default: env.d.ts) */
+    output?: string;
+    /** Also declare `ImportMetaEnv`: true for Vite's `VITE_` keys, or a custom key prefix */
+    importMeta?: boolean | string;
+  };
+  usage?: {
+    /** Source file glob patterns scanned by `usage` (default: common JS, TS, Python and Ruby files) */
+    include?: string[];
+    /** Source file glob patterns `usage` skips */
+    exclude?: string[];
+  };
+}
+
+export interface LoadedConfig {
+  config: EnvTwinConfig;
+  filePath?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Searched in order; the first file found wins. */
+export const CONFIG_FILES: readonly string[] = [
+  '.env-twinrc.json',
+  '.env-twinrc.yaml',
+  '.env-twinrc.yml',
+  'env-twin.config.ts',
+  'env-twin.config.js',
+  'env-twin.config.mjs',
+];
+
+export const PACKAGE_JSON_FIELD = 'env-twin';
+
+export const DEFAULT_CONFIG: Readonly<EnvTwinConfig> = {
+  placeholder: { template: 'input_{key_lower}' },
+  placement: 'mirror',
+  backup: { enabled: true, keep: 10 },
+};
+
+const KEY_PLACEMENTS: readonly KeyPlacement[] = ['mirror', 'block'];
+
+const CONFIG_OPTIONS: readonly string[] = [
+  '$schema',
+  'source',
+  'include',
+  'exclude',
+  'placement',
+  'placeholder',
+  'backup',
+  'keys',
+  'schema',
+  'types',
+  'usage',
+];
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Load the project config from `explicitPath`, or the first of `CONFIG_FILES` in `cwd`,
+ * falling back to the `"env-twin"` field of package.json. Returns an empty config when
+ * nothing is found; throws when a config exists but is invalid.
+ */
+export async function loadConfigFile(cwd: string, explicitPath?: string): Promise<LoadedConfig> {
+  if (explicitPath) {
+    const filePath = path.resolve(cwd, explicitPath);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Config file '${explicitPath}' not found`);
+    }
+    return { config: validateConfig(await readConfig(filePath), filePath), filePath };
+  }
+
+  for (const name of CONFIG_FILES) {
+    const filePath = path.join(cwd, name);
+    if (fs.existsSync(filePath)) {
+      return { config: validateConfig(await readConfig(filePath), filePath), filePath };
+    }
+  }
+
+  const packagePath = path.join(cwd, 'package.json');
+  if (fs.existsSync(packagePath)) {
+    const packageJson = readPackageJson(packagePath);
+    if (packageJson && packageJson[PACKAGE_JSON_FIELD] !== undefined) {
+      const origin = `${packagePath} ("${PACKAGE_JSON_FIELD}" field)`;
+      return {
+        config: validateConfig(packageJson[PACKAGE_JSON_FIELD], origin),
+        filePath: packagePath,
+      };
+    }
+  }
+
+  return { config: {} };
+}
+
+/**
+ * package.json belongs to the project, not to env-twin: a file that does not parse is only an
+ * error when it appears to hold an `"env-twin"` field; otherwise it is ignored.
+ */
+function readPackageJson(packagePath: string): Record<string, unknown> | null {
+  const content = fs.readFileSync(packagePath, 'utf-8');
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    if (!content.includes(`"${PACKAGE_JSON_FIELD}"`)) return null;
+    throw new Error(
+      `Failed to read config '${packagePath}': ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+async function readConfig(filePath: string): Promise<unknown> {
+  const extension = path.extname(filePath);
+
+  try {
+    if (extension === '.json') {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    }
+    if (extension === '.yaml' || extension === '.yml') {
+      return parseYaml(fs.readFileSync(filePath, 'utf-8'));
+    }
+
+    // .ts configs need a runtime that can import TypeScript (Bun, or Node with type stripping)
+    const module = await import(pathToFileURL(filePath).href);
+    return module.default ?? module;
+  } catch (error) {
+    throw new Error(
+      `Failed to read config '${filePath}': ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Read overrides from `ENV_TWIN_*` environment variables. Lists are comma-separated.
+ */
+export function readConfigFromEnv(env: NodeJS.ProcessEnv = process.env): EnvTwinConfig {
+  const list = (value?: string) =>
+    value
+      ? value
+          .split(',')
+          .map(item => item.trim())
+          .filter(Boolean)
+      : undefined;
+  const bool = (value?: string) =>
+    value === undefined ? undefined : ['1', 'true', 'yes'].includes(value.toLowerCase());
+
+  const raw: Record<string, unknown> = {
+    source: env.ENV_TWIN_SOURCE || undefined,
+    include: list(env.ENV_TWIN_INCLUDE),
+    exclude: list(env.ENV_TWIN_EXCLUDE),
+    placeholder: env.ENV_TWIN_PLACEHOLDER || undefined,
+    placement: env.ENV_TWIN_PLACEMENT || undefined,
+    backup: {
+      enabled: env.ENV_TWIN_NO_BACKUP === undefined ? undefined : !bool(env.ENV_TWIN_NO_BACKUP),
+      keep: env.ENV_TWIN_KEEP ? Number(env.ENV_TWIN_KEEP) : undefined,
+    },
+    keys: { ignore: list(env.ENV_TWIN_IGNORE_KEYS) },
+    schema: env.ENV_TWIN_SCHEMA || undefined,
+  };
+
+  return validateConfig(raw, 'environment variables');
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+/**
+ * Merge config layers, highest precedence first: CLI, environment, config file, defaults.
+ * A layer only overrides the fields it actually sets.
+ */
+export function mergeConfigs(...layers: EnvTwinConfig[]): EnvTwinConfig {
+  const pick = <T>(select: (config: EnvTwinConfig) => T | undefined): T | undefined =>
+    layers.map(select).find(value => value !== undefined);
+
+  return stripUndefined({
+    source: pick(config => config.source),
+    include: pick(config => config.include),
+    exclude: pick(config => config.exclude),
+    placeholder: stripUndefined({
+      template: pick(config => config.placeholder?.template),
+      overrides: pick(config => config.placeholder?.overrides),
+      keepValues: pick(config => config.placeholder?.keepValues),
+    }),
+    placement: pick(config => config.placement),
+    backup: stripUndefined({
+      enabled: pick(config => config.backup?.enabled),
+      keep: pick(config => config.backup?.keep),
+    }),
+    keys: stripUndefined({
+      ignore: pick(config => config.keys?.ignore),
+    }),
+    schema: pick(config => config.schema),
+    types: stripUndefined({
+      output: pick(config => config.types?.output),
+      importMeta: pick(config => config.types?.importMeta),
+    }),
+    usage: stripUndefined({
+      include: pick(config => config.usage?.include),
+      exclude: pick(config => config.usage?.exclude),
+    }),
+  });
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([, entry]) =>
+        entry !== undefined &&
+        !(entry && typeof entry === 'object' && !Array.isArray(entry) && !Object.keys(entry).length)
+    )
+  ) as T;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check a raw config object against the schema. Unknown fields are rejected so typos
+ * surface instead of being silently ignored.
+ */
+export function validateConfig(raw: unknown, origin: string): EnvTwinConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config in ${origin}: ${message}`);
+  };
+
+  if (raw === null || raw === undefined) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) fail('expected an object');
+
+  const input = raw as Record<string, unknown>;
+  for (const key of Object.keys(input)) {
+    if (!CONFIG_OPTIONS.includes(key)) fail(`unknown option '${key}'`);
+  }
+
+  const optionalString = (value: unknown, name: string): string | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string' || value === '') fail(`'${name}' must be a non-empty string`);
+    return value as string;
+  };
+  const optionalList = (value: unknown, name: string): string[] | undefined => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      fail(`'${name}' must be an array of strings`);
+    }
+    return value as string[];
+  };
+  // Without `fields` any key is accepted, as in maps keyed by env variable name
+  const section = (value: unknown, name: string, fields?: string[]): Record<string, unknown> => {
+    if (value === undefined || value === null) return {};
+    if (typeof value !== 'object' || Array.isArray(value)) fail(`'${name}' must be an object`);
+    for (const key of Object.keys(value as object)) {
+      if (fields && !fields.includes(key)) fail(`unknown option '${name}.${key}'`);
+    }
+    return value as Record<string, unknown>;
+  };
+
+  const placement = optionalString(input.placement, 'placement');
+  if (placement !== undefined && !KEY_PLACEMENTS.includes(placement as KeyPlacement)) {
+    fail(`'placement' must be one of ${KEY_PLACEMENTS.join(', ')}`);
+  }
+
+  const backup = section(input.backup, 'backup', ['enabled', 'keep']);
+  if (backup.enabled !== undefined && typeof backup.enabled !== 'boolean') {
+    fail(`'backup.enabled' must be a boolean`);
+  }
+  if (
+    backup.keep !== undefined &&
+    (typeof backup.keep !== 'number' || !Number.isInteger(backup.keep) || backup.keep < 0)
+  ) {
+    fail(`'backup.keep' must be a non-negative integer`);
+  }
+
+  const keys = section(input.keys, 'keys', ['ignore']);
+
+  const types = section(input.types, 'types', ['output', 'importMeta']);
+  const usage = section(input.usage, 'usage', ['include', 'exclude']);
+  if (
+    types.importMeta !== undefined &&
+    typeof types.importMeta !== 'boolean' &&
+    (typeof types.importMeta !== 'string' || types.importMeta === '')
+  ) {
+    fail(`'types.importMeta' must be a boolean or a non-empty key prefix`);
+  }
+
+  const placeholder = section(
+    typeof input.placeholder === 'string' ? { template: input.placeholder } : input.placeholder,
+    'placeholder',
+    ['template', 'overrides', 'keepValues']
+  );
+  const overrides = section(placeholder.overrides, 'placeholder.overrides');
+  if (Object.values(overrides).some(value => typeof value !== 'string')) {
+    fail(`'placeholder.overrides' values must be strings`);
+  }
+  const keepValues =
+    placeholder.keepValues === 'non-secret'
+      ? 'non-secret'
+      : optionalList(placeholder.keepValues, 'placeholder.keepValues');
+
+  return mergeConfigs({
+    source: optionalString(input.source, 'source'),
+    include: optionalList(input.include, 'include'),
+    exclude: optionalList(input.exclude, 'exclude'),
+    placeholder: {
+      template: optionalString(placeholder.template, 'placeholder.template'),
+      overrides:
+        placeholder.overrides === undefined ? undefined : (overrides as Record<string, string>),
+      keepValues,
+    },
+    placement: placement as KeyPlacement | undefined,
+    backup: {
+      enabled: backup.enabled as boolean | undefined,
+      keep: backup.keep as number | undefined,
+    },
+    keys: { ignore: optionalList(keys.ignore, 'keys.ignore') },
+    schema:
+      input.schema && typeof input.schema === 'object'
+        ? parseEnvSchema(input.schema, `${origin} ("schema")`)
+        : optionalString(input.schema, 'schema'),
+    types: {
+      output: optionalString(types.output, 'types.output'),
+      importMeta: types.importMeta as boolean | string | undefined,
+    },
+    usage: {
+      include: optionalList(usage.include, 'usage.include'),
+      exclude: optionalList(usage.exclude, 'usage.exclude'),
+    },
+  });
+}
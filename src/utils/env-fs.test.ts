@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'bun:test';
+import { MemoryFs } from './env-fs.js';
+
+describe('MemoryFs', () => {
+  it('creates parent directories for initial files', () => {
+    const memory = new MemoryFs({ '/app/config/.env': 'A=1\n' });
+
+    expect(memory.exists('/app/config')).toBe(true);
+    expect(memory.stat('/app/config').isDirectory()).toBe(true);
+    expect(memory.readFile('/app/config/.env')).toBe('A=1\n');
+    expect(memory.readdir('/app').map(entry => entry.name)).toEqual(['config']);
+  });
+
+  it('reports missing paths with ENOENT', () => {
+    const memory = new MemoryFs();
+
+    expect(() => memory.readFile('/missing/.env')).toThrow(
+      expect.objectContaining({ code: 'ENOENT' })
+    );
+    expect(() => memory.writeFile('/missing/.env', '')).toThrow(
+      expect.objectContaining({ code: 'ENOENT' })
+    );
+    expect(() => memory.rm('/missing', { force: true })).not.toThrow();
+  });
+
+  it('keeps the mode of an existing file on overwrite', () => {
+    const memory = new MemoryFs();
+    memory.mkdir('/app');
+    memory.writeFile('/app/.env', 'A=1\n', { mode: 0o600 });
+    memory.writeFile('/app/.env', 'A=2\n', { mode: 0o644 });
+
+    expect(memory.stat('/app/.env').mode).toBe(0o600);
+    expect(memory.stat('/app/.env').size).toBe(4);
+  });
+
+  it('renames files and removes directory trees', () => {
+    const memory = new MemoryFs({ '/app/.env.tmp': 'A=1\n', '/app/.env-twin/.env.1': 'A=0\n' });
+    memory.rename('/app/.env.tmp', '/app/.env');
+    memory.rm('/app/.env-twin', { recursive: true });
+
+    expect(memory.toJSON()).toEqual({ '/app/.env': 'A=1\n' });
+    expect(() => memory.rm('/app')).toThrow(expect.objectContaining({ code: 'EISDIR' }));
+  });
+});
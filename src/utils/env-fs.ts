@@ -0,0 +1,270 @@
+import fs from 'fs';
+import path from 'path';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EnvFsStats {
+  size: number;
+  mode: number;
+  atime: Date;
+  mtime: Date;
+  mtimeMs: number;
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}
+
+export interface EnvFsDirent {
+  name: string;
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}
+
+/**
+ * The file operations env-twin needs, all synchronous. Errors carry Node's `code`
+ * (e.g. 'ENOENT') so callers can tell a missing file from other failures.
+ */
+export interface EnvFs {
+  exists(filePath: string): boolean;
+  readFile(filePath: string): string; // utf-8
+  writeFile(filePath: string, content: string, options?: { mode?: number }): void;
+  mkdir(dirPath: string, options?: { recursive?: boolean; mode?: number }): void;
+  readdir(dirPath: string): EnvFsDirent[];
+  stat(filePath: string): EnvFsStats;
+  lstat(filePath: string): EnvFsStats;
+  rename(from: string, to: string): void;
+  unlink(filePath: string): void;
+  rm(targetPath: string, options?: { recursive?: boolean; force?: boolean }): void;
+  chmod(filePath: string, mode: number): void;
+  utimes(filePath: string, atime: Date, mtime: Date): void;
+  access(filePath: string, mode?: number): void;
+  realpath(filePath: string): string;
+}
+
+type MemoryNode =
+  | { type: 'file'; content: string; mode: number; atime: Date; mtime: Date }
+  | { type: 'dir'; mode: number; atime: Date; mtime: Date };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** `access` modes, as in Node's fs.constants. */
+export const ACCESS_READ = fs.constants.R_OK;
+export const ACCESS_WRITE = fs.constants.W_OK;
+
+const DEFAULT_FILE_MODE = 0o644;
+const DEFAULT_DIR_MODE = 0o755;
+
+// ============================================================================
+// NODE FILE SYSTEM
+// ============================================================================
+
+export const nodeFs: EnvFs = {
+  exists: filePath => fs.existsSync(filePath),
+  readFile: filePath => fs.readFileSync(filePath, 'utf-8'),
+  writeFile: (filePath, content, options = {}) =>
+    fs.writeFileSync(filePath, content, { encoding: 'utf-8', mode: options.mode }),
+  mkdir: (dirPath, options) => {
+    fs.mkdirSync(dirPath, options);
+  },
+  readdir: dirPath => fs.readdirSync(dirPath, { withFileTypes: true }),
+  stat: filePath => fs.statSync(filePath),
+  lstat: filePath => fs.lstatSync(filePath),
+  rename: (from, to) => fs.renameSync(from, to),
+  unlink: filePath => fs.unlinkSync(filePath),
+  rm: (targetPath, options) => fs.rmSync(targetPath, options),
+  chmod: (filePath, mode) => fs.chmodSync(filePath, mode),
+  utimes: (filePath, atime, mtime) => fs.utimesSync(filePath, atime, mtime),
+  access: (filePath, mode) => fs.accessSync(filePath, mode),
+  realpath: filePath => fs.realpathSync(filePath),
+};
+
+// ============================================================================
+// IN-MEMORY FILE SYSTEM
+// ============================================================================
+
+/**
+ * A file tree held in memory, for running analysis, plans and restores against virtual
+ * content. Paths are resolved against the real cwd. Symlinks and permissions checks are
+ * not modelled: every path is readable and writable.
+ *
+ * @example
+ * const memory = new MemoryFs({ '/app/.env': 'PORT=3000\nDEBUG=1\n', '/app/.env.example': 'PORT=\n' });
+ * const plan = await planSync({ cwd: '/app', source: '.env', fs: memory });
+ * await applyPlan(plan, { fs: memory });
+ * memory.readFile('/app/.env.example'); // 'PORT=\nDEBUG=\n'
+ */
+export class MemoryFs implements EnvFs {
+  private nodes = new Map<string, MemoryNode>();
+
+  constructor(files: Record<string, string> = {}) {
+    this.nodes.set(path.parse(process.cwd()).root, this.directoryNode(DEFAULT_DIR_MODE));
+    for (const [filePath, content] of Object.entries(files)) {
+      this.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+      this.writeFile(filePath, content);
+    }
+  }
+
+  /** Every file and its content, keyed by absolute path. */
+  toJSON(): Record<string, string> {
+    const files: Record<string, string> = {};
+    for (const [filePath, node] of this.nodes) {
+      if (node.type === 'file') files[filePath] = node.content;
+    }
+    return files;
+  }
+
+  exists(filePath: string): boolean {
+    return this.nodes.has(path.resolve(filePath));
+  }
+
+  readFile(filePath: string): string {
+    const node = this.get(filePath, 'open');
+    if (node.type !== 'file') throw fsError('EISDIR', 'read', filePath);
+    node.atime = new Date();
+    return node.content;
+  }
+
+  writeFile(filePath: string, content: string, options: { mode?: number } = {}): void {
+    const resolved = path.resolve(filePath);
+    this.requireDirectory(path.dirname(resolved), 'open', filePath);
+    const existing = this.nodes.get(resolved);
+    if (existing?.type === 'dir') throw fsError('EISDIR', 'open', filePath);
+
+    const now = new Date();
+    this.nodes.set(resolved, {
+      type: 'file',
+      content,
+      mode: existing?.mode ?? options.mode ?? DEFAULT_FILE_MODE,
+      atime: now,
+      mtime: now,
+    });
+  }
+
+  mkdir(dirPath: string, options: { recursive?: boolean; mode?: number } = {}): void {
+    const resolved = path.resolve(dirPath);
+    const existing = this.nodes.get(resolved);
+    if (existing) {
+      if (options.recursive && existing.type === 'dir') return;
+      throw fsError('EEXIST', 'mkdir', dirPath);
+    }
+
+    const parent = path.dirname(resolved);
+    if (!this.nodes.has(parent)) {
+      if (!options.recursive) throw fsError('ENOENT', 'mkdir', dirPath);
+      this.mkdir(parent, options);
+    }
+    this.requireDirectory(parent, 'mkdir', dirPath);
+    this.nodes.set(resolved, this.directoryNode(options.mode ?? DEFAULT_DIR_MODE));
+  }
+
+  readdir(dirPath: string): EnvFsDirent[] {
+    const resolved = path.resolve(dirPath);
+    this.requireDirectory(resolved, 'scandir', dirPath);
+    return Array.from(this.nodes)
+      .filter(([childPath]) => childPath !== resolved && path.dirname(childPath) === resolved)
+      .map(([childPath, node]) => ({
+        name: path.basename(childPath),
+        isFile: () => node.type === 'file',
+        isDirectory: () => node.type === 'dir',
+        isSymbolicLink: () => false,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  stat(filePath: string): EnvFsStats {
+    const node = this.get(filePath, 'stat');
+    return {
+      size: node.type === 'file' ? Buffer.byteLength(node.content, 'utf-8') : 0,
+      mode: node.mode,
+      atime: node.atime,
+      mtime: node.mtime,
+      mtimeMs: node.mtime.getTime(),
+      isFile: () => node.type === 'file',
+      isDirectory: () => node.type === 'dir',
+      isSymbolicLink: () => false,
+    };
+  }
+
+  lstat(filePath: string): EnvFsStats {
+    return this.stat(filePath);
+  }
+
+  rename(from: string, to: string): void {
+    const node = this.get(from, 'rename');
+    const target = path.resolve(to);
+    this.requireDirectory(path.dirname(target), 'rename', to);
+    if (node.type === 'dir') throw fsError('EPERM', 'rename', from);
+    this.nodes.delete(path.resolve(from));
+    this.nodes.set(target, node);
+  }
+
+  unlink(filePath: string): void {
+    const node = this.get(filePath, 'unlink');
+    if (node.type === 'dir') throw fsError('EISDIR', 'unlink', filePath);
+    this.nodes.delete(path.resolve(filePath));
+  }
+
+  rm(targetPath: string, options: { recursive?: boolean; force?: boolean } = {}): void {
+    const resolved = path.resolve(targetPath);
+    const node = this.nodes.get(resolved);
+    if (!node) {
+      if (options.force) return;
+      throw fsError('ENOENT', 'rm', targetPath);
+    }
+    if (node.type === 'dir' && !options.recursive) throw fsError('EISDIR', 'rm', targetPath);
+
+    const prefix = resolved + path.sep;
+    for (const childPath of Array.from(this.nodes.keys())) {
+      if (childPath === resolved || childPath.startsWith(prefix)) this.nodes.delete(childPath);
+    }
+  }
+
+  chmod(filePath: string, mode: number): void {
+    this.get(filePath, 'chmod').mode = mode;
+  }
+
+  utimes(filePath: string, atime: Date, mtime: Date): void {
+    const node = this.get(filePath, 'utime');
+    node.atime = atime;
+    node.mtime = mtime;
+  }
+
+  access(filePath: string): void {
+    this.get(filePath, 'access');
+  }
+
+  realpath(filePath: string): string {
+    this.get(filePath, 'realpath');
+    return path.resolve(filePath);
+  }
+
+  private get(filePath: string, syscall: string): MemoryNode {
+    const node = this.nodes.get(path.resolve(filePath));
+    if (!node) throw fsError('ENOENT', syscall, filePath);
+    return node;
+  }
+
+  private requireDirectory(dirPath: string, syscall: string, requested: string): void {
+    const node = this.nodes.get(dirPath);
+    if (!node) throw fsError('ENOENT', syscall, requested);
+    if (node.type !== 'dir') throw fsError('ENOTDIR', syscall, requested);
+  }
+
+  private directoryNode(mode: number): MemoryNode {
+    const now = new Date();
+    return { type: 'dir', mode, atime: now, mtime: now };
+  }
+}
+
+function fsError(code: string, syscall: string, filePath: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(`${code}: ${syscall} '${filePath}'`);
+  error.code = code;
+  error.syscall = syscall;
+  error.path = filePath;
+  return error;
+}
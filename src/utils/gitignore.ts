@@ -1,5 +1,5 @@
-import fs from 'fs';
 import path from 'path';
+import { EnvFs, nodeFs } from './env-fs.js';
 
 // ============================================================================
 // TYPES
@@ -32,13 +32,13 @@ export const GITIGNORE_FILE = '.gitignore';
 /**
  * Read the current .gitignore file and parse its entries
  */
-function readGitignoreFile(cwd: string): string[] {
+function readGitignoreFile(cwd: string, fs: EnvFs): string[] {
   const gitignorePath = path.join(cwd, GITIGNORE_FILE);
   try {
-    if (!fs.existsSync(gitignorePath)) {
+    if (!fs.exists(gitignorePath)) {
       return [];
     }
-    const content = fs.readFileSync(gitignorePath, 'utf-8');
+    const content = fs.readFile(gitignorePath);
     return content.split('\n');
   } catch (error) {
     console.error(
@@ -51,10 +51,10 @@ function readGitignoreFile(cwd: string): string[] {
 /**
  * Write content to the .gitignore file
  */
-function writeGitignoreFile(cwd: string, content: string): boolean {
+function writeGitignoreFile(cwd: string, content: string, fs: EnvFs): boolean {
   const gitignorePath = path.join(cwd, GITIGNORE_FILE);
   try {
-    fs.writeFileSync(gitignorePath, content, 'utf-8');
+    fs.writeFile(gitignorePath, content);
     return true;
   } catch (error) {
     console.error(
@@ -80,9 +80,10 @@ function isPatternInGitignore(lines: string[], pattern: string): boolean {
 export function ensureGitignoreEntry(
   cwd: string,
   pattern: string,
-  comment?: string
+  comment?: string,
+  fs: EnvFs = nodeFs
 ): GitignoreResult {
-  const lines = readGitignoreFile(cwd);
+  const lines = readGitignoreFile(cwd, fs);
 
   // Check if entry already exists
   if (isPatternInGitignore(lines, pattern)) {
@@ -119,7 +120,7 @@ export function ensureGitignoreEntry(
   const content = newLines.join('\n');
   const contentWithNewline = content.endsWith('\n') ? content : content + '\n';
 
-  if (writeGitignoreFile(cwd, contentWithNewline)) {
+  if (writeGitignoreFile(cwd, contentWithNewline, fs)) {
     return {
       success: true,
       changed: true,
@@ -139,15 +140,15 @@ export function ensureGitignoreEntry(
 /**
  * Ensure the backup directory is added to .gitignore
  */
-export function ensureBackupDirInGitignore(cwd: string): GitignoreResult {
-  return ensureGitignoreEntry(cwd, BACKUP_DIR_PATTERN, 'env-twin backup directory');
+export function ensureBackupDirInGitignore(cwd: string, fs: EnvFs = nodeFs): GitignoreResult {
+  return ensureGitignoreEntry(cwd, BACKUP_DIR_PATTERN, 'env-twin backup directory', fs);
 }
 
 /**
  * Get all entries in .gitignore file
  */
-export function getGitignoreEntries(cwd: string): GitignoreEntry[] {
-  const lines = readGitignoreFile(cwd);
+export function getGitignoreEntries(cwd: string, fs: EnvFs = nodeFs): GitignoreEntry[] {
+  const lines = readGitignoreFile(cwd, fs);
   const entries: GitignoreEntry[] = [];
 
   let currentComment: string | undefined;
@@ -182,14 +183,14 @@ export function getGitignoreEntries(cwd: string): GitignoreEntry[] {
 /**
  * Check if a pattern exists in .gitignore
  */
-export function hasGitignoreEntry(cwd: string, pattern: string): boolean {
-  const lines = readGitignoreFile(cwd);
+export function hasGitignoreEntry(cwd: string, pattern: string, fs: EnvFs = nodeFs): boolean {
+  const lines = readGitignoreFile(cwd, fs);
   return isPatternInGitignore(lines, pattern);
 }
 
 /**
  * Check if backup directory is in .gitignore
  */
-export function isBackupDirInGitignore(cwd: string): boolean {
-  return hasGitignoreEntry(cwd, BACKUP_DIR_PATTERN);
+export function isBackupDirInGitignore(cwd: string, fs: EnvFs = nodeFs): boolean {
+  return hasGitignoreEntry(cwd, BACKUP_DIR_PATTERN, fs);
 }
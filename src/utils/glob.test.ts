@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'bun:test';
+import { globToRegExp, matchesGlob } from './glob.js';
+
+describe('glob utils', () => {
+  test('should match dotfiles with single-segment wildcards', () => {
+    expect(matchesGlob('.env.ci', '.env.*')).toBe(true);
+    expect(matchesGlob('.env.development.local', '.env.*')).toBe(true);
+    expect(matchesGlob('.env', '.env.*')).toBe(false);
+    expect(matchesGlob('env/.env.ci', '.env.*')).toBe(false);
+  });
+
+  test('should support globstar, ? and alternatives', () => {
+    expect(matchesGlob('env/prod.env', '**/*.env')).toBe(true);
+    expect(matchesGlob('prod.env', '**/*.env')).toBe(true);
+    expect(matchesGlob('.env.a', '.env.?')).toBe(true);
+    expect(matchesGlob('.env.docker', '.env.{ci,docker}')).toBe(true);
+    expect(matchesGlob('.env.prod', '.env.{ci,docker}')).toBe(false);
+  });
+
+  test('should escape regular expression characters', () => {
+    expect(globToRegExp('.env+(x)').test('.env+(x)')).toBe(true);
+    expect(globToRegExp('.env').test('xenv')).toBe(false);
+  });
+});
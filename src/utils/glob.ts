@@ -0,0 +1,104 @@
+import path from 'path';
+import { EnvFs, EnvFsDirent, nodeFs } from './env-fs.js';
+
+// ============================================================================
+// PATTERN MATCHING
+// ============================================================================
+
+/**
+ * Convert a glob pattern to a regular expression matched against '/'-separated relative paths.
+ * Supports `*`, `**`, `?` and `{a,b}` alternatives. Unlike a shell, `*` also matches a
+ * leading dot so patterns like `.env.*` work as expected.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = pattern.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+        continue;
+      }
+      const alternatives = pattern.substring(i + 1, close).split(',');
+      source += `(?:${alternatives.map(alt => globToRegExp(alt).source.slice(1, -1)).join('|')})`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(relativePath.split(path.sep).join('/'));
+}
+
+// ============================================================================
+// FILE WALKING
+// ============================================================================
+
+/**
+ * List files below `cwd` as '/'-separated relative paths, descending only as deep as the
+ * patterns need. Directories in `ignoredDirs` are never entered.
+ */
+export function listFilesForPatterns(
+  cwd: string,
+  patterns: string[],
+  ignoredDirs: readonly string[] = [],
+  fs: EnvFs = nodeFs
+): string[] {
+  const maxDepth = patterns.some(pattern => pattern.includes('**'))
+    ? Infinity
+    : Math.max(0, ...patterns.map(pattern => pattern.split('/').length - 1));
+  const files: string[] = [];
+
+  const walk = (relativeDir: string, depth: number) => {
+    let entries: EnvFsDirent[];
+    try {
+      entries = fs.readdir(path.join(cwd, relativeDir));
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (depth < maxDepth && !ignoredDirs.includes(entry.name)) {
+          walk(relativePath, depth + 1);
+        }
+      } else if (
+        entry.isFile() ||
+        (entry.isSymbolicLink() && isFileTarget(cwd, relativePath, fs))
+      ) {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  walk('', 0);
+  return files;
+}
+
+function isFileTarget(cwd: string, relativePath: string, fs: EnvFs): boolean {
+  try {
+    return fs.stat(path.join(cwd, relativePath)).isFile();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'bun:test';
+import { colors } from './ui.js';
+import {
+  countRows,
+  initialListState,
+  Keypress,
+  ListChoice,
+  ListState,
+  multiselectPrompt,
+  parseNumberSelection,
+  passwordPrompt,
+  PromptStep,
+  reduceList,
+  renderList,
+  selectPrompt,
+  stripAnsi,
+} from './tui.js';
+
+const choices: ListChoice<string>[] = [
+  { title: 'DB_HOST', value: 'db-host' },
+  { title: 'DB_PORT', value: 'db-port', checked: true },
+  { title: 'API_URL', value: 'api-url' },
+];
+
+const key = (name: string, extra: Partial<Keypress> = {}): Keypress => ({ name, ...extra });
+const char = (sequence: string): Keypress => ({ name: sequence.toLowerCase(), sequence });
+
+function press<S, R>(
+  prompt: { initial: S; onKey(state: S, key: Keypress): PromptStep<S, R> },
+  keys: Keypress[]
+): PromptStep<S, R> {
+  let step: PromptStep<S, R> = { state: prompt.initial };
+  for (const next of keys) {
+    if (!('state' in step)) break;
+    step = prompt.onKey(step.state, next);
+  }
+  return step;
+}
+
+describe('terminal prompts', () => {
+  it('moves the cursor with wrap-around and filters by typing', () => {
+    let state: ListState = initialListState(choices);
+    state = reduceList(state, key('up'), choices, false);
+    expect(state.cursor).toBe(2);
+    state = reduceList(state, key('down'), choices, false);
+    expect(state.cursor).toBe(0);
+
+    state = reduceList(state, char('D'), choices, false);
+    state = reduceList(state, char('b'), choices, false);
+    state = reduceList(state, key('down'), choices, false);
+    expect(state).toMatchObject({ filter: 'Db', cursor: 1 });
+
+    state = reduceList(state, key('backspace'), choices, false);
+    expect(state).toMatchObject({ filter: 'D', cursor: 0 });
+    expect(reduceList(state, key('escape'), choices, false).filter).toBe('');
+  });
+
+  it('selects the highlighted choice among the filtered ones', () => {
+    const prompt = selectPrompt('Pick one', choices);
+    expect(press(prompt, [char('a'), char('p'), char('i'), key('return')])).toEqual({
+      done: 'api-url',
+    });
+    expect(press(prompt, [char('x'), key('return')])).toMatchObject({ state: { filter: 'x' } });
+    expect(press(prompt, [key('c', { ctrl: true })])).toEqual({ cancel: true });
+  });
+
+  it('toggles checkboxes with space and ctrl+a', () => {
+    const prompt = multiselectPrompt('Pick some', choices);
+    expect(press(prompt, [key('return')])).toEqual({ done: ['db-port'] });
+    expect(press(prompt, [key('space', { sequence: ' ' }), key('return')])).toEqual({
+      done: ['db-host', 'db-port'],
+    });
+    expect(press(prompt, [key('a', { ctrl: true }), key('return')])).toEqual({
+      done: ['db-host', 'db-port', 'api-url'],
+    });
+    expect(
+      press(prompt, [char('D'), key('a', { ctrl: true }), key('a', { ctrl: true }), key('return')])
+    ).toEqual({ done: [] });
+  });
+
+  it('masks password input', () => {
+    const prompt = passwordPrompt('Token:');
+    const step = press(prompt, [char('a'), char('b'), char('c'), key('backspace')]);
+    expect(step).toEqual({ state: 'ab' });
+    expect(stripAnsi(prompt.render('ab')[0])).toBe('Token: **');
+    expect(press(prompt, [char('x'), key('u', { ctrl: true }), char('y'), key('return')])).toEqual({
+      done: 'y',
+    });
+  });
+
+  it('renders the cursor, checkboxes and filter', () => {
+    const state = { ...initialListState(choices), cursor: 1 };
+    const lines = renderList('Keys', choices, state, true).map(stripAnsi);
+    expect(lines.slice(1)).toEqual(['  ◯ DB_HOST', '❯ ◉ DB_PORT', '  ◯ API_URL']);
+
+    const filtered = renderList('Keys', choices, { ...state, filter: 'zz' }, false).map(stripAnsi);
+    expect(filtered.slice(1)).toEqual(['  Filter: zz', '  No matches']);
+  });
+
+  it('counts wrapped rows and collapses multiline titles', () => {
+    expect(countRows(['short', 'x'.repeat(81), 'a\nb', colors.green('y'.repeat(80))], 80)).toBe(6);
+    const json: ListChoice<string>[] = [{ title: 'Copy (CONFIG={\n  "a": 1\n})', value: 'copy' }];
+    const lines = renderList('Add?', json, initialListState(json), false);
+    expect(lines).toHaveLength(2);
+    expect(stripAnsi(lines[1])).toBe('❯ Copy (CONFIG={ ⏎   "a": 1 ⏎ })');
+  });
+
+  it('parses numbered selections for the non-TTY fallback', () => {
+    expect(parseNumberSelection('1, 3-4', 5)).toEqual([0, 2, 3]);
+    expect(parseNumberSelection('', 5, [1])).toEqual([1]);
+    expect(parseNumberSelection('all', 3)).toEqual([0, 1, 2]);
+    expect(parseNumberSelection('none', 3)).toEqual([]);
+    expect(parseNumberSelection('0', 3)).toBeNull();
+    expect(parseNumberSelection('2-4', 3)).toBeNull();
+    expect(parseNumberSelection('a', 3)).toBeNull();
+  });
+});
@@ -0,0 +1,336 @@
+import readline from 'readline';
+import { colors } from './ui.js';
+
+/**
+ * Terminal Prompts
+ *
+ * Raw-mode prompts without dependencies: arrow-key lists with a type-to-filter search,
+ * checkbox lists and masked input. Each prompt is a pure state reducer plus a renderer, so
+ * the key handling is testable without a terminal; `runPrompt` wires them to stdin/stdout.
+ * Callers should check `isInteractiveTerminal()` first and fall back to line-based prompts.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Keypress {
+  name?: string; // 'up', 'down', 'return', 'space', 'backspace', 'escape', 'a', ...
+  sequence?: string;
+  ctrl?: boolean;
+  meta?: boolean;
+}
+
+export interface ListChoice<T> {
+  title: string;
+  value: T;
+  checked?: boolean; // initial state in checkbox lists
+}
+
+export interface ListState {
+  cursor: number; // position within the filtered choices
+  filter: string;
+  checked: Set<number>; // indices into the full choice list
+}
+
+/** Outcome of one keypress: keep going with a new state, finish, or cancel (Ctrl+C). */
+export type PromptStep<S, R> = { state: S } | { done: R } | { cancel: true };
+
+interface PromptDefinition<S, R> {
+  initial: S;
+  render(state: S): string[];
+  onKey(state: S, key: Keypress): PromptStep<S, R>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Rows shown at once; longer lists scroll with the cursor. */
+export const PAGE_SIZE = 10;
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+const HIDE_CURSOR = '\x1b[?25l';
+const SHOW_CURSOR = '\x1b[?25h';
+const CLEAR_DOWN = '\x1b[0J';
+const POINTER = '❯';
+
+/** Width assumed when stdout does not report one. */
+const DEFAULT_COLUMNS = 80;
+
+// ============================================================================
+// LIST STATE
+// ============================================================================
+
+export function initialListState<T>(choices: ListChoice<T>[]): ListState {
+  return {
+    cursor: 0,
+    filter: '',
+    checked: new Set(choices.flatMap((choice, index) => (choice.checked ? [index] : []))),
+  };
+}
+
+/** Indices of the choices whose title contains the filter, ignoring case and colors. */
+export function filterChoices<T>(choices: ListChoice<T>[], filter: string): number[] {
+  const needle = filter.toLowerCase();
+  return choices.flatMap((choice, index) =>
+    stripAnsi(choice.title).toLowerCase().includes(needle) ? [index] : []
+  );
+}
+
+/**
+ * Move the cursor, edit the filter and, when `multiple`, toggle checkboxes: Space toggles
+ * the current choice, Ctrl+A toggles every visible choice.
+ */
+export function reduceList<T>(
+  state: ListState,
+  key: Keypress,
+  choices: ListChoice<T>[],
+  multiple: boolean
+): ListState {
+  const visible = filterChoices(choices, state.filter);
+  const move = (delta: number) =>
+    visible.length === 0 ? 0 : (state.cursor + delta + visible.length) % visible.length;
+  const withFilter = (filter: string) => ({ ...state, filter, cursor: 0 });
+
+  if (key.name === 'up' || (key.ctrl && key.name === 'p')) return { ...state, cursor: move(-1) };
+  if (key.name === 'down' || (key.ctrl && key.name === 'n')) return { ...state, cursor: move(1) };
+  if (key.name === 'pageup') return { ...state, cursor: Math.max(0, state.cursor - PAGE_SIZE) };
+  if (key.name === 'pagedown') {
+    return {
+      ...state,
+      cursor: Math.max(0, Math.min(visible.length - 1, state.cursor + PAGE_SIZE)),
+    };
+  }
+  if (key.name === 'backspace') return withFilter(state.filter.slice(0, -1));
+  if (key.name === 'escape') return withFilter('');
+
+  if (multiple && key.name === 'space' && visible.length > 0) {
+    return { ...state, checked: toggle(state.checked, [visible[state.cursor]]) };
+  }
+  if (multiple && key.ctrl && key.name === 'a') {
+    const allChecked = visible.every(index => state.checked.has(index));
+    const checked = new Set(state.checked);
+    visible.forEach(index => (allChecked ? checked.delete(index) : checked.add(index)));
+    return { ...state, checked };
+  }
+
+  if (isPrintable(key) && !(multiple && key.name === 'space')) {
+    return withFilter(state.filter + key.sequence);
+  }
+  return state;
+}
+
+function toggle(checked: Set<number>, indices: number[]): Set<number> {
+  const next = new Set(checked);
+  indices.forEach(index => (next.has(index) ? next.delete(index) : next.add(index)));
+  return next;
+}
+
+// ============================================================================
+// PROMPT DEFINITIONS
+// ============================================================================
+
+export function selectPrompt<T>(
+  message: string,
+  choices: ListChoice<T>[]
+): PromptDefinition<ListState, T> {
+  return {
+    initial: initialListState(choices),
+    render: state => renderList(message, choices, state, false),
+    onKey: (state, key) => {
+      if (isCancel(key)) return { cancel: true };
+      if (key.name === 'return') {
+        const visible = filterChoices(choices, state.filter);
+        return visible.length > 0 ? { done: choices[visible[state.cursor]].value } : { state };
+      }
+      return { state: reduceList(state, key, choices, false) };
+    },
+  };
+}
+
+export function multiselectPrompt<T>(
+  message: string,
+  choices: ListChoice<T>[]
+): PromptDefinition<ListState, T[]> {
+  return {
+    initial: initialListState(choices),
+    render: state => renderList(message, choices, state, true),
+    onKey: (state, key) => {
+      if (isCancel(key)) return { cancel: true };
+      if (key.name === 'return') {
+        return { done: choices.filter((_, index) => state.checked.has(index)).map(c => c.value) };
+      }
+      return { state: reduceList(state, key, choices, true) };
+    },
+  };
+}
+
+/** Hidden input: each character shows as `*`. */
+export function passwordPrompt(message: string): PromptDefinition<string, string> {
+  return {
+    initial: '',
+    render: value => [`${colors.bold(message)} ${'*'.repeat(value.length)}`],
+    onKey: (value, key) => {
+      if (isCancel(key)) return { cancel: true };
+      if (key.name === 'return') return { done: value };
+      if (key.name === 'backspace') return { state: value.slice(0, -1) };
+      if (key.ctrl && key.name === 'u') return { state: '' };
+      if (isPrintable(key)) return { state: value + key.sequence };
+      return { state: value };
+    },
+  };
+}
+
+// ============================================================================
+// NUMBERED FALLBACK
+// ============================================================================
+
+/**
+ * Parse a numbered selection such as `1,3-5` into zero-based indices. An empty answer
+ * keeps `initial`; returns null when any part is not a number or range within 1..count.
+ */
+export function parseNumberSelection(
+  answer: string,
+  count: number,
+  initial: number[] = []
+): number[] | null {
+  const trimmed = answer.trim().toLowerCase();
+  if (trimmed === '') return initial;
+  if (trimmed === 'all') return Array.from({ length: count }, (_, index) => index);
+  if (trimmed === 'none') return [];
+
+  const indices = new Set<number>();
+  for (const part of trimmed.split(',').map(item => item.trim())) {
+    const match = part.match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) return null;
+    const from = Number(match[1]);
+    const to = Number(match[2] ?? match[1]);
+    if (from < 1 || to > count || from > to) return null;
+    for (let number = from; number <= to; number++) indices.add(number - 1);
+  }
+  return Array.from(indices).sort((a, b) => a - b);
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+export function renderList<T>(
+  message: string,
+  choices: ListChoice<T>[],
+  state: ListState,
+  multiple: boolean
+): string[] {
+  const hint = multiple
+    ? '↑/↓ move, space toggles, ctrl+a toggles all, enter confirms, type to filter'
+    : '↑/↓ move, enter selects, type to filter';
+  const lines = [`${colors.bold(message)} ${colors.dim(`(${hint})`)}`];
+  if (state.filter) lines.push(`  ${colors.dim('Filter:')} ${state.filter}`);
+
+  const visible = filterChoices(choices, state.filter);
+  if (visible.length === 0) {
+    lines.push(colors.dim('  No matches'));
+    return lines;
+  }
+
+  const start = Math.min(
+    Math.max(0, state.cursor - Math.floor(PAGE_SIZE / 2)),
+    Math.max(0, visible.length - PAGE_SIZE)
+  );
+  visible.slice(start, start + PAGE_SIZE).forEach((index, offset) => {
+    const active = start + offset === state.cursor;
+    const pointer = active ? colors.cyan(POINTER) : ' ';
+    const checkbox = multiple ? (state.checked.has(index) ? colors.green('◉ ') : '◯ ') : '';
+    // Multiline values (JSON, PEM) in a title would break the row layout
+    const text = choices[index].title.replace(/\r?\n/g, ' ⏎ ');
+    const title = active ? colors.cyan(text) : text;
+    lines.push(`${pointer} ${checkbox}${title}`);
+  });
+  if (visible.length > PAGE_SIZE) {
+    lines.push(colors.dim(`  (${state.cursor + 1}/${visible.length})`));
+  }
+  return lines;
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/** Terminal rows `lines` occupy, counting embedded line breaks and wrapping at `columns`. */
+export function countRows(lines: string[], columns: number): number {
+  return lines
+    .flatMap(line => line.split('\n'))
+    .reduce((rows, line) => rows + Math.max(1, Math.ceil(stripAnsi(line).length / columns)), 0);
+}
+
+// ============================================================================
+// TERMINAL
+// ============================================================================
+
+export function isInteractiveTerminal(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+/**
+ * Run a prompt in raw mode, redrawing it in place after every keypress. Ctrl+C restores
+ * the terminal and exits with 130, as an interrupted line prompt would.
+ */
+export function runPrompt<S, R>(prompt: PromptDefinition<S, R>): Promise<R> {
+  const { stdin, stdout } = process;
+  let state = prompt.initial;
+  let renderedLines = 0;
+
+  const draw = (lines: string[]) => {
+    if (renderedLines > 0) readline.moveCursor(stdout, 0, -renderedLines);
+    readline.cursorTo(stdout, 0);
+    stdout.write(CLEAR_DOWN + lines.join('\n') + '\n');
+    renderedLines = countRows(lines, stdout.columns || DEFAULT_COLUMNS);
+  };
+
+  return new Promise(resolve => {
+    const finish = () => {
+      stdin.removeListener('keypress', onKeypress);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stdout.write(SHOW_CURSOR);
+    };
+
+    const onKeypress = (_: string, key: Keypress = {}) => {
+      const step = prompt.onKey(state, key);
+      if ('cancel' in step) {
+        finish();
+        process.exit(130);
+      }
+      if ('done' in step) {
+        finish();
+        resolve(step.done);
+        return;
+      }
+      state = step.state;
+      draw(prompt.render(state));
+    };
+
+    readline.emitKeypressEvents(stdin);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('keypress', onKeypress);
+    stdout.write(HIDE_CURSOR);
+    draw(prompt.render(state));
+  });
+}
+
+function isCancel(key: Keypress): boolean {
+  return Boolean(key.ctrl && key.name === 'c');
+}
+
+function isPrintable(key: Keypress): boolean {
+  return (
+    !key.ctrl &&
+    !key.meta &&
+    key.sequence !== undefined &&
+    key.sequence.length === 1 &&
+    key.sequence >= ' ' &&
+    key.sequence !== '\x7f'
+  );
+}
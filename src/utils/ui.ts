@@ -1,4 +1,12 @@
 import readline from 'readline';
+import {
+  isInteractiveTerminal,
+  multiselectPrompt,
+  parseNumberSelection,
+  passwordPrompt,
+  runPrompt,
+  selectPrompt,
+} from './tui.js';
 
 // ============================================================================
 // COLORS
@@ -18,6 +26,15 @@ export const colors = {
   cyan: (text: string) => `${ESC}36m${text}${RESET}`,
 };
 
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+export const consoleLogger = {
+  log: (message: string) => console.log(message),
+  error: (message: string) => console.error(message),
+};
+
 // ============================================================================
 // PROMPTS
 // ============================================================================
@@ -25,6 +42,7 @@ export const colors = {
 export interface Choice {
   title: string;
   value: any;
+  checked?: boolean; // initially checked, for multiselect
 }
 
 /**
@@ -52,12 +70,34 @@ export function confirm(message: string, initial: boolean = true): Promise<boole
   });
 }
 
+/**
+ * Free-text prompt; an empty answer returns `initial`
+ */
+export function input(message: string, initial: string = ''): Promise<string> {
+  return new Promise(resolve => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+
+    rl.question(`${colors.bold(message)} `, answer => {
+      rl.close();
+      resolve(answer === '' ? initial : answer);
+    });
+  });
+}
+
 /**
  * Selection prompt
- * A simple implementation that lists options and asks user to type the number.
- * Implementing a full arrow-key menu without deps is complex; this is a robust fallback.
+ * Arrow keys and a type-to-filter search in a terminal. When stdin is not a TTY the
+ * choices are numbered and the answer is read as a line.
  */
 export function select<T>(message: string, choices: Choice[]): Promise<T> {
+  if (isInteractiveTerminal()) return runPrompt(selectPrompt<T>(message, choices));
+  return selectByNumber(message, choices);
+}
+
+function selectByNumber<T>(message: string, choices: Choice[]): Promise<T> {
   return new Promise(resolve => {
     const rl = readline.createInterface({
       input: process.stdin,
@@ -85,3 +125,55 @@ export function select<T>(message: string, choices: Choice[]): Promise<T> {
     ask();
   });
 }
+
+/**
+ * Checkbox prompt
+ * Returns the values of the checked choices in list order. When stdin is not a TTY the
+ * answer is a line of numbers and ranges such as `1,3-5`.
+ */
+export function multiselect<T>(message: string, choices: Choice[]): Promise<T[]> {
+  if (isInteractiveTerminal()) return runPrompt(multiselectPrompt<T>(message, choices));
+  return multiselectByNumber(message, choices);
+}
+
+function multiselectByNumber<T>(message: string, choices: Choice[]): Promise<T[]> {
+  return new Promise(resolve => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+
+    console.log(colors.bold(message));
+    choices.forEach((choice, index) => {
+      console.log(
+        `  ${colors.cyan(`${index + 1})`)} [${choice.checked ? 'x' : ' '}] ${choice.title}`
+      );
+    });
+
+    const checked = choices.flatMap((choice, index) => (choice.checked ? [index] : []));
+    const ask = () => {
+      const query = "Select options (e.g. 1,3-5, 'all' or 'none'; Enter keeps the checked ones):";
+      rl.question(`\n${colors.bold(query)} `, answer => {
+        const indices = parseNumberSelection(answer, choices.length, checked);
+        if (indices) {
+          rl.close();
+          resolve(indices.map(index => choices[index].value));
+        } else {
+          console.log(colors.red('Invalid selection. Please try again.'));
+          ask();
+        }
+      });
+    };
+
+    ask();
+  });
+}
+
+/**
+ * Masked input prompt; typed characters show as `*`. Without a TTY nothing is echoed,
+ * so the answer is read as a plain line.
+ */
+export function password(message: string): Promise<string> {
+  if (isInteractiveTerminal()) return runPrompt(passwordPrompt(message));
+  return input(message);
+}
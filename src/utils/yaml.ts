@@ -0,0 +1,182 @@
+// ============================================================================
+// MINIMAL YAML SUBSET
+// ============================================================================
+//
+// env-twin has no runtime dependencies, so configuration YAML is limited to what
+// a config file needs: nested mappings, block sequences (`- item`), flow sequences
+// (`[a, b]`), quoted and plain scalars, booleans, numbers, null and `#` comments.
+
+const MAPPING_ENTRY = /^("[^"]*"|'[^']*'|[^\s'"[{#-][^:]*):(\s|$)/;
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  lineNumber: number;
+}
+
+export type YamlValue =
+  | string
+  | number
+  | boolean
+  | null
+  | YamlValue[]
+  | { [key: string]: YamlValue };
+
+export function parseYaml(content: string): YamlValue {
+  const lines: YamlLine[] = content
+    .split(/\r?\n/)
+    .map((raw, index) => ({
+      indent: raw.length - raw.trimStart().length,
+      text: stripComment(raw).trim(),
+      lineNumber: index + 1,
+    }))
+    .filter(line => line.text !== '' && line.text !== '---');
+
+  if (lines.length === 0) return null;
+
+  const [value, next] = parseBlock(lines, 0, lines[0].indent);
+  if (next < lines.length) {
+    throw new Error(`YAML: unexpected indentation at line ${lines[next].lineNumber}`);
+  }
+  return value;
+}
+
+function parseBlock(lines: YamlLine[], start: number, indent: number): [YamlValue, number] {
+  return lines[start].text.startsWith('- ') || lines[start].text === '-'
+    ? parseSequence(lines, start, indent)
+    : parseMapping(lines, start, indent);
+}
+
+function parseSequence(lines: YamlLine[], start: number, indent: number): [YamlValue[], number] {
+  const items: YamlValue[] = [];
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent && lines[i].text.startsWith('-')) {
+    const { text, lineNumber } = lines[i];
+    const rest = text.substring(1).trim();
+    if (MAPPING_ENTRY.test(rest)) {
+      // `- key: value` starts a mapping aligned with the text after the dash
+      const itemIndent = indent + text.length - text.substring(1).trimStart().length;
+      lines[i] = { indent: itemIndent, text: rest, lineNumber };
+      const [value, next] = parseMapping(lines, i, itemIndent);
+      items.push(value);
+      i = next;
+      continue;
+    }
+
+    i++;
+    if (rest) {
+      items.push(parseScalar(rest));
+    } else if (i < lines.length && lines[i].indent > indent) {
+      const [value, next] = parseBlock(lines, i, lines[i].indent);
+      items.push(value);
+      i = next;
+    } else {
+      items.push(null);
+    }
+  }
+
+  return [items, i];
+}
+
+function parseMapping(
+  lines: YamlLine[],
+  start: number,
+  indent: number
+): [{ [key: string]: YamlValue }, number] {
+  const result: { [key: string]: YamlValue } = {};
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent) {
+    const { text, lineNumber } = lines[i];
+    const colon = text.indexOf(':');
+    if (colon <= 0) {
+      throw new Error(`YAML: expected 'key: value' at line ${lineNumber}`);
+    }
+
+    const key = unquote(text.substring(0, colon).trim());
+    const rest = text.substring(colon + 1).trim();
+    i++;
+
+    if (rest) {
+      result[key] = parseScalar(rest);
+    } else if (i < lines.length && lines[i].indent > indent) {
+      const [value, next] = parseBlock(lines, i, lines[i].indent);
+      result[key] = value;
+      i = next;
+    } else if (i < lines.length && lines[i].indent === indent && lines[i].text.startsWith('-')) {
+      // Sequences may sit at the same indentation as their parent key
+      const [value, next] = parseSequence(lines, i, indent);
+      result[key] = value;
+      i = next;
+    } else {
+      result[key] = null;
+    }
+  }
+
+  return [result, i];
+}
+
+function parseScalar(text: string): YamlValue {
+  if (text.startsWith('[') && text.endsWith(']')) {
+    const inner = text.substring(1, text.length - 1).trim();
+    return inner ? splitFlow(inner).map(item => parseScalar(item.trim())) : [];
+  }
+  if (text.startsWith('"') || text.startsWith("'")) return unquote(text);
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null' || text === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+function splitFlow(text: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote = '';
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  items.push(current);
+  return items;
+}
+
+function unquote(text: string): string {
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    return text
+      .substring(1, text.length - 1)
+      .replace(/\\"/g, '"')
+      .replace(/\\n/g, '\n');
+  }
+  if (text.length >= 2 && text.startsWith("'") && text.endsWith("'")) {
+    return text.substring(1, text.length - 1).replace(/''/g, "'");
+  }
+  return text;
+}
+
+function stripComment(line: string): string {
+  let quote = '';
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if ((char === '"' || char === "'") && /(^|[:\-[,])\s*$/.test(line.substring(0, i))) {
+      // Quotes only open a string at the start of a scalar, so "it's" stays plain
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.substring(0, i);
+    }
+  }
+  return line;
+}
@@ -16,6 +16,7 @@ mock.module('../src/utils/ui', () => {
       dim: (s: any) => s,
       yellow: (s: any) => s,
       blue: (s: any) => s,
+      cyan: (s: any) => s,
     },
   };
 });